@@ -0,0 +1,260 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * ASCII tab renderer : lays out a TabTrack as classic plain-text tablature,
+ * one line per string (highest string on top), ready to paste into chat.
+ *
+ *   [A] Intro
+ *    PM---
+ *                 LR---
+ *   E|--------------<12>-|
+ *   B|--------------x----|
+ *   G|-------------------|
+ *   D|-------------------|
+ *   A|------7\--5--------|
+ *   E|-3h-5--------------|
+ */
+
+import type { TabNote, TabBeat, TabBar, TabTrack } from './types.js';
+import { durationToBeats, barLengthInQuarters } from './timing.js';
+
+export interface AsciiTabOptions {
+	/** Bars per staff line (default 4) */
+	barsPerLine?: number;
+	/** Characters per quarter note, the base of the rhythmic spacing (default 4) */
+	charsPerQuarter?: number;
+	/** Voice to render (default 0) */
+	voice?: number;
+}
+
+/** Slide flag bits shared by the parsers (GPIF Slide flags). */
+const SLIDE_SHIFT = 0x01;
+const SLIDE_LEGATO = 0x02;
+const SLIDE_OUT_DOWN = 0x04;
+const SLIDE_OUT_UP = 0x08;
+const SLIDE_IN_BELOW = 0x10;
+const SLIDE_IN_ABOVE = 0x20;
+
+// ---------------------------------------------------------------------------
+// Note tokens
+// ---------------------------------------------------------------------------
+
+/** Maps every note to the next note played on the same string in the rendered voice. */
+function nextNotesOnString(bars: TabBar[], voice: number): Map<TabNote, TabNote> {
+	const next = new Map<TabNote, TabNote>();
+	const last = new Map<number, TabNote>();
+	for (const bar of bars) {
+		for (const beat of bar.voices[voice] ?? []) {
+			for (const note of beat.notes) {
+				const previous = last.get(note.string);
+				if (previous) next.set(previous, note);
+				last.set(note.string, note);
+			}
+		}
+	}
+	return next;
+}
+
+/** Text for one note, including the symbols joining it to the next note on its string. */
+function noteToken(note: TabNote, following: TabNote | undefined): string {
+	let token = note.muted ? 'x' : String(note.fret);
+	if (note.harmonic && !note.muted) token = `<${token}>`;
+	if (note.ghost) token = `(${token})`;
+
+	const slide = note.slide ?? 0;
+	if (slide & SLIDE_IN_BELOW) token = `/${token}`;
+	if (slide & SLIDE_IN_ABOVE) token = `\\${token}`;
+	if (note.bend) token += 'b';
+
+	if (following && slide & (SLIDE_SHIFT | SLIDE_LEGATO)) {
+		token += following.fret >= note.fret ? '/' : '\\';
+	} else if (slide & SLIDE_OUT_DOWN) {
+		token += '\\';
+	} else if (slide & SLIDE_OUT_UP) {
+		token += '/';
+	}
+
+	if (note.pullOff) {
+		token += 'p';
+	} else if (note.hammerOn) {
+		token += 'h';
+	}
+
+	return token;
+}
+
+// ---------------------------------------------------------------------------
+// Bar layout
+// ---------------------------------------------------------------------------
+
+/** One bar as text columns, without the surrounding bar lines. */
+interface RenderedBar {
+	/** One row per string, index 0 = highest string */
+	strings: string[];
+	/** Per column: does a palm-muted / let-ring note sound here */
+	palmMute: boolean[];
+	letRing: boolean[];
+	section: string | null;
+}
+
+function beatWidth(beat: TabBeat, tokens: string[], charsPerQuarter: number): number {
+	const longest = Math.max(0, ...tokens.map((t) => t.length));
+	const rhythmic = Math.round(durationToBeats(beat.duration, beat.dotted, beat.tuplet) * charsPerQuarter);
+	return Math.max(longest + 1, rhythmic, 2);
+}
+
+function sectionLabel(bar: TabBar): string | null {
+	if (!bar.section) return null;
+	const { letter, text } = bar.section;
+	if (letter && text) return `[${letter}] ${text}`;
+	if (letter) return `[${letter}]`;
+	return text ?? null;
+}
+
+function renderBar(
+	bar: TabBar,
+	stringCount: number,
+	voice: number,
+	next: Map<TabNote, TabNote>,
+	charsPerQuarter: number
+): RenderedBar {
+	const strings = new Array<string>(stringCount).fill('');
+	const palmMute: boolean[] = [];
+	const letRing: boolean[] = [];
+	const beats = bar.voices[voice] ?? [];
+
+	for (const beat of beats) {
+		const tokens = new Array<string>(stringCount).fill('');
+		for (const note of beat.notes) {
+			if (note.string >= 0 && note.string < stringCount) {
+				tokens[note.string] = noteToken(note, next.get(note));
+			}
+		}
+
+		const width = beatWidth(beat, tokens, charsPerQuarter);
+		for (let s = 0; s < stringCount; s++) {
+			strings[s] += tokens[s].padEnd(width, '-');
+		}
+		const pm = beat.notes.some((n) => n.palmMute);
+		const ring = beat.notes.some((n) => n.letRing);
+		for (let c = 0; c < width; c++) {
+			palmMute.push(pm);
+			letRing.push(ring);
+		}
+	}
+
+	// Empty bars keep the width of their time signature
+	if (beats.length === 0) {
+		const width = Math.max(2, Math.round(barLengthInQuarters(bar.timeSignature) * charsPerQuarter));
+		for (let s = 0; s < stringCount; s++) strings[s] = '-'.repeat(width);
+		for (let c = 0; c < width; c++) {
+			palmMute.push(false);
+			letRing.push(false);
+		}
+	}
+
+	// Leading dash so the first token never touches the bar line
+	for (let s = 0; s < stringCount; s++) strings[s] = `-${strings[s]}`;
+	palmMute.unshift(false);
+	letRing.unshift(false);
+
+	return { strings, palmMute, letRing, section: sectionLabel(bar) };
+}
+
+// ---------------------------------------------------------------------------
+// Annotation rows
+// ---------------------------------------------------------------------------
+
+/** Draws each run of marked columns as its label followed by dashes (e.g. "PM----"). */
+function spanRow(marks: boolean[], label: string, shortLabel: string): string {
+	const row = new Array<string>(marks.length).fill(' ');
+	let c = 0;
+	while (c < marks.length) {
+		if (!marks[c]) {
+			c++;
+			continue;
+		}
+		let end = c;
+		while (end < marks.length && marks[end]) end++;
+		const text = (end - c >= label.length ? label : shortLabel).padEnd(end - c, '-');
+		for (let i = 0; i < text.length && c + i < row.length; i++) row[c + i] = text[i];
+		c = end;
+	}
+	return row.join('').trimEnd();
+}
+
+/** Places section labels at their bar's first column, never overlapping a previous one. */
+function sectionRow(labels: Array<{ column: number; text: string }>): string {
+	let row = '';
+	for (const { column, text } of labels) {
+		const start = Math.max(column, row.length === 0 ? 0 : row.length + 1);
+		row = row.padEnd(start, ' ') + text;
+	}
+	return row;
+}
+
+function renderSystem(bars: RenderedBar[], labels: string[]): string[] {
+	const labelWidth = Math.max(0, ...labels.map((l) => l.length));
+	const indent = labelWidth + 1; // label + opening bar line
+
+	const palmMute: boolean[] = new Array<boolean>(indent).fill(false);
+	const letRing: boolean[] = new Array<boolean>(indent).fill(false);
+	const sections: Array<{ column: number; text: string }> = [];
+	for (const bar of bars) {
+		if (bar.section) sections.push({ column: palmMute.length, text: bar.section });
+		palmMute.push(...bar.palmMute, false);
+		letRing.push(...bar.letRing, false);
+	}
+
+	const lines: string[] = [];
+	const sectionText = sectionRow(sections);
+	if (sectionText) lines.push(sectionText);
+	const pmText = spanRow(palmMute, 'PM', 'PM');
+	if (pmText) lines.push(pmText);
+	const ringText = spanRow(letRing, 'let ring', 'LR');
+	if (ringText) lines.push(ringText);
+
+	labels.forEach((label, s) => {
+		lines.push(`${label.padEnd(labelWidth, ' ')}|${bars.map((b) => b.strings[s]).join('|')}|`);
+	});
+	return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders a track as plain-text tablature. Beat widths follow their rhythmic
+ * value, so longer notes take more room; the string count follows `tuningMidi`.
+ */
+export function renderAsciiTab(track: TabTrack, options: AsciiTabOptions = {}): string {
+	const barsPerLine = Math.max(1, options.barsPerLine ?? 4);
+	const charsPerQuarter = Math.max(1, options.charsPerQuarter ?? 4);
+	const voice = options.voice ?? 0;
+
+	const stringCount = track.tuningMidi.length;
+	const labels = Array.from({ length: stringCount }, (_, s) => track.tuning[s]?.name ?? '');
+	const next = nextNotesOnString(track.bars, voice);
+	const rendered = track.bars.map((bar) => renderBar(bar, stringCount, voice, next, charsPerQuarter));
+
+	const systems: string[] = [];
+	for (let i = 0; i < rendered.length; i += barsPerLine) {
+		systems.push(renderSystem(rendered.slice(i, i + barsPerLine), labels).join('\n'));
+	}
+	return systems.join('\n\n') + '\n';
+}
@@ -0,0 +1,76 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Bends : names bend and tremolo bar curves and converts the binary formats'
+ * bend points. Shared by every parser.
+ *
+ * Points are positioned 0-1 across the note with values in semitones; GPIF
+ * stores them that way already, GP3/GP4/GP5 on a 0-60 axis in 1/50 semitone.
+ */
+
+import type { TabBend, TabBendPoint, BendKind } from './types.js';
+
+/** Note bend kinds of the binary formats, keyed by their bend type byte */
+const GP_BEND_KINDS: Record<number, BendKind> = {
+	1: 'bend',
+	2: 'bendRelease',
+	3: 'bendReleaseBend',
+	4: 'preBend',
+	5: 'preBendRelease'
+};
+
+/** Binary formats store bend positions on a 0..60 axis and values in 1/50 semitone (100 = full tone). */
+const GP_BEND_POSITIONS = 60;
+const GP_BEND_SEMITONE = 50;
+
+/** Names a bend curve from the directions it moves in; values are in semitones. */
+export function bendKindFromPoints(points: TabBendPoint[]): BendKind {
+	const moves: string[] = [];
+	for (let i = 1; i < points.length; i++) {
+		const delta = points[i].value - points[i - 1].value;
+		const move = delta > 0 ? 'up' : delta < 0 ? 'down' : null;
+		if (move && moves[moves.length - 1] !== move) moves.push(move);
+	}
+	const shape = moves.join(' ');
+
+	if ((points[0]?.value ?? 0) > 0) {
+		if (shape === '') return 'preBend';
+		if (shape === 'up') return 'preBendBend';
+		if (shape === 'down') return 'preBendRelease';
+		return 'custom';
+	}
+	if (shape === 'up') return 'bend';
+	if (shape === 'up down') return 'bendRelease';
+	if (shape === 'up down up') return 'bendReleaseBend';
+	return 'custom';
+}
+
+/** Converts bend or tremolo bar points as read from GP3/GP4/GP5. */
+export function bendPointsFromGp(points: { position: number; value: number; vibrato: boolean }[]): TabBendPoint[] {
+	return points.map((p) => ({
+		position: Math.min(1, Math.max(0, p.position / GP_BEND_POSITIONS)),
+		value: p.value / GP_BEND_SEMITONE,
+		vibrato: p.vibrato
+	}));
+}
+
+/** Converts a bend as read from GP3/GP4/GP5 into a TabBend, trusting the stored type when it is a note bend type. */
+export function bendFromGp(bend: { type: number; points: { position: number; value: number; vibrato: boolean }[] }): TabBend | null {
+	if (bend.points.length === 0) return null;
+	const points = bendPointsFromGp(bend.points);
+	return { kind: GP_BEND_KINDS[bend.type] ?? bendKindFromPoints(points), points };
+}
@@ -0,0 +1,98 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Drums : names General MIDI percussion keys as drum-kit pieces. Shared by every
+ * parser.
+ *
+ * Percussion tracks store a GM drum key per note: GP3/GP4/GP5 as the fret
+ * number, GP7 through the OutputMidiNumber of the articulation the note
+ * refers to, GP6 (no articulation table) as the fret again. Once parsed, the
+ * key sounds as is: no tuning or capo applies.
+ */
+
+import type { TabBar, TabDrumHit, TabNote, DrumPiece, DrumArticulation } from './types.js';
+
+/** GM percussion keys 35-81 → piece and articulation */
+const GM_DRUM_KIT: Record<number, [DrumPiece, DrumArticulation]> = {
+	35: ['kick', 'hit'],
+	36: ['kick', 'hit'],
+	37: ['snare', 'sideStick'],
+	38: ['snare', 'hit'],
+	39: ['handClap', 'hit'],
+	40: ['snare', 'electric'],
+	41: ['floorTom', 'low'],
+	42: ['hiHat', 'closed'],
+	43: ['floorTom', 'high'],
+	44: ['hiHat', 'pedal'],
+	45: ['lowTom', 'hit'],
+	46: ['hiHat', 'open'],
+	47: ['midTom', 'low'],
+	48: ['midTom', 'high'],
+	49: ['crash', 'hit'],
+	50: ['highTom', 'hit'],
+	51: ['ride', 'hit'],
+	52: ['china', 'hit'],
+	53: ['ride', 'bell'],
+	54: ['tambourine', 'hit'],
+	55: ['splash', 'hit'],
+	56: ['cowbell', 'hit'],
+	57: ['crash', 'hit'],
+	58: ['vibraslap', 'hit'],
+	59: ['ride', 'hit'],
+	60: ['bongo', 'high'],
+	61: ['bongo', 'low'],
+	62: ['conga', 'mute'],
+	63: ['conga', 'open'],
+	64: ['conga', 'low'],
+	65: ['timbale', 'high'],
+	66: ['timbale', 'low'],
+	67: ['agogo', 'high'],
+	68: ['agogo', 'low'],
+	69: ['cabasa', 'hit'],
+	70: ['maracas', 'hit'],
+	71: ['whistle', 'short'],
+	72: ['whistle', 'long'],
+	73: ['guiro', 'short'],
+	74: ['guiro', 'long'],
+	75: ['claves', 'hit'],
+	76: ['woodBlock', 'high'],
+	77: ['woodBlock', 'low'],
+	78: ['cuica', 'mute'],
+	79: ['cuica', 'open'],
+	80: ['triangle', 'mute'],
+	81: ['triangle', 'open']
+};
+
+/** Names a GM percussion key; keys outside the GM kit are 'other' pieces. */
+export function drumHit(key: number): TabDrumHit {
+	const [piece, articulation] = GM_DRUM_KIT[key] ?? ['other', 'hit'];
+	return { key, piece, articulation };
+}
+
+/** Turns every note of a percussion track into the drum hit `keyOf` gives its key. */
+export function resolveDrumHits(bars: TabBar[], keyOf: (note: TabNote) => number): void {
+	for (const bar of bars) {
+		for (const voice of bar.voices) {
+			for (const beat of voice) {
+				for (const note of beat.notes) {
+					note.drum = drumHit(keyOf(note));
+					note.midi = note.drum.key;
+				}
+			}
+		}
+	}
+}
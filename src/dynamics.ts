@@ -0,0 +1,67 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+/**
+ * Dynamics : the dynamic markings every format shares, and the MIDI velocity and
+ * length a note plays at. Shared by every parser and writer.
+ *
+ * GP3/GP4/GP5 store a dynamic per note as 1 (ppp) to 8 (fff), GPIF one per beat
+ * as <Dynamic>. Velocities follow Guitar Pro's scale, from 15 (ppp) to 127 (fff)
+ * in steps of 16; accents and ghost notes move a note up or down that scale.
+ * Staccato and the GP5 duration percent shorten the length a note sounds for.
+ */
+
+import type { Dynamic } from './types.js';
+
+/** Dynamics from softest to loudest */
+const DYNAMICS: Dynamic[] = ['ppp', 'pp', 'p', 'mp', 'mf', 'f', 'ff', 'fff'];
+
+/** Dynamic of notes written without one (forte, as in Guitar Pro) */
+export const DEFAULT_DYNAMIC: Dynamic = 'f';
+
+const MIN_VELOCITY = 15;
+const VELOCITY_STEP = 16;
+
+/** Reads a GP3/GP4/GP5 dynamic byte (1 = ppp ... 8 = fff). */
+export function dynamicFromGp(code: number): Dynamic {
+	return DYNAMICS[code - 1] ?? DEFAULT_DYNAMIC;
+}
+
+/** The GP3/GP4/GP5 dynamic byte of a dynamic. */
+export function gpDynamicCode(dynamic: Dynamic): number {
+	return DYNAMICS.indexOf(dynamic) + 1;
+}
+
+/** Reads a GPIF <Dynamic> value ("PPP" ... "FFF"); null when absent or unknown. */
+export function dynamicFromGpif(text: string | null): Dynamic | null {
+	const dynamic = text?.toLowerCase() as Dynamic | undefined;
+	return dynamic && DYNAMICS.includes(dynamic) ? dynamic : null;
+}
+
+/** MIDI velocity of a note: its dynamic, one step louder per accent level, one step softer when ghosted. */
+export function noteVelocity(dynamic: Dynamic, accent: number | null, ghost: boolean): number {
+	const step = DYNAMICS.indexOf(dynamic) + (accent ?? 0) - (ghost ? 1 : 0);
+	return MIN_VELOCITY + Math.max(0, Math.min(DYNAMICS.length - 1, step)) * VELOCITY_STEP;
+}
+
+/** Staccato notes sound for half their written value */
+const STACCATO_LENGTH = 0.5;
+
+/** Fraction of its written value a note sounds for, from its stored duration percent (1 = full value). */
+export function soundingLength(durationPercent: number, staccato: boolean): number {
+	return durationPercent * (staccato ? STACCATO_LENGTH : 1);
+}
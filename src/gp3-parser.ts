@@ -29,16 +29,30 @@
  * - Tremolo bar is a simple Int value (dip only)
  */
 
-import type { PitchClass, Note } from './pitch.js';
-import { noteFromPitchClass, midiToPitchClass } from './pitch.js';
+import { noteFromMidi, spellFromKeySignatures, spellTuning } from './pitch.js';
 import type {
 	Duration,
+	Dynamic,
 	TabNote,
 	TabBeat,
 	TabBar,
 	TabTrack,
-	TabSong
+	TabSong,
+	TabChord,
+	TabMidi,
+	TabAutomation,
+	AutomationType,
+	TabGraceNote,
+	GraceNoteTransition,
+	SlapPop,
+	TripletFeel
 } from './types.js';
+import { durationToBeats, collectTempoChanges, tempoPointsFromChanges, applyTempoPoints } from './timing.js';
+import { bendFromGp } from './bends.js';
+import { resolveNoteLinks } from './note-links.js';
+import { resolveDrumHits } from './drums.js';
+import { DEFAULT_DYNAMIC, dynamicFromGp, noteVelocity } from './dynamics.js';
+import { gmProgramName, midiLevelFromGp } from './instruments.js';
 
 // ---------------------------------------------------------------------------
 // Binary reader — sequential LE reader with position tracking
@@ -171,6 +185,30 @@ interface MidiChannel {
 	tremolo: number;
 }
 
+// ---------------------------------------------------------------------------
+// Mix table change (beat-level automation)
+// ---------------------------------------------------------------------------
+
+interface MixTableChange {
+	/** New tempo in BPM, or -1 when the tempo is unchanged */
+	tempo: number;
+	/** Number of beats over which the tempo moves to its new value (0 = immediate) */
+	tempoDuration: number;
+	/** Program and mixer levels the change sets */
+	changes: MixChange[];
+}
+
+/** A program or mixer level set by a mix table change, as stored (levels 0-16) */
+interface MixChange {
+	type: AutomationType;
+	value: number;
+	/** Number of beats over which the level moves to its new value (0 = immediate) */
+	duration: number;
+}
+
+/** Mixer levels in mix table order */
+const MIX_LEVELS: AutomationType[] = ['volume', 'pan', 'chorus', 'reverb', 'phaser', 'tremolo'];
+
 // ---------------------------------------------------------------------------
 // Measure header
 // ---------------------------------------------------------------------------
@@ -180,11 +218,13 @@ interface MeasureHeader {
 	denominator: number;
 	repeatOpen: boolean;
 	repeatClose: number;
+	/** Bitmask of alternate endings (bit 0 = ending 1) */
 	repeatAlternative: number;
 	marker: { name: string; color: [number, number, number] } | null;
 	keySignature: number;
 	keyMode: number;
 	hasDoubleBar: boolean;
+	tripletFeel: TripletFeel;
 }
 
 // ---------------------------------------------------------------------------
@@ -212,11 +252,14 @@ interface GP3ParsedNote {
 	fret: number;
 	isTied: boolean;
 	isDead: boolean;
-	velocity: number;
+	dynamic: Dynamic;
+	/** Ghost note: played softer */
+	ghost: boolean;
 	hammerOn: boolean;
 	letRing: boolean;
 	slide: boolean;
 	bend: { type: number; value: number; points: { position: number; value: number; vibrato: boolean }[] } | null;
+	graceNote: TabGraceNote | null;
 }
 
 interface GP3ParsedBeat {
@@ -226,30 +269,45 @@ interface GP3ParsedBeat {
 	isRest: boolean;
 	isEmpty: boolean;
 	notes: GP3ParsedNote[];
+	tempoChange: { tempo: number; duration: number } | null;
+	mixChanges: MixChange[];
+	chord: ParsedChord | null;
+	effects: BeatEffects;
 }
 
+/** A chord diagram as stored on a beat, before it is given a track-wide id */
+type ParsedChord = Omit<TabChord, 'id'>;
+
+/** Beat effects, in their TabBeat form */
+type BeatEffects = Pick<TabBeat, 'whammy' | 'stroke' | 'pickStroke' | 'slapPop'>;
+
 // ---------------------------------------------------------------------------
 // Read helpers — individual GP3 binary sections
 // ---------------------------------------------------------------------------
 
+/** Score credits: every TabSong field but the tempo and tracks. */
+type ScoreInfo = Omit<TabSong, 'tempo' | 'tracks'>;
+
 /** GP3 readInfo: 8 fields (no separate "music" field). */
-function readInfo(r: GP3Reader): { title: string; subtitle: string; artist: string; album: string } {
+function readInfo(r: GP3Reader): ScoreInfo {
 	const title = r.readIntByteSizeString();
 	const subtitle = r.readIntByteSizeString();
 	const artist = r.readIntByteSizeString();
 	const album = r.readIntByteSizeString();
-	r.readIntByteSizeString(); // words (= music in GP3)
-	r.readIntByteSizeString(); // copyright
-	r.readIntByteSizeString(); // tab
-	r.readIntByteSizeString(); // instructions
+	const words = r.readIntByteSizeString(); // words (= music in GP3)
+	const copyright = r.readIntByteSizeString();
+	const tabber = r.readIntByteSizeString();
+	const instructions = r.readIntByteSizeString();
 
 	// Notice lines
 	const noticeCount = r.readInt();
+	const notices: string[] = [];
 	for (let i = 0; i < noticeCount; i++) {
-		r.readIntByteSizeString();
+		notices.push(r.readIntByteSizeString());
 	}
 
-	return { title, subtitle, artist, album };
+	// Scores with only a subtitle show it as their title
+	return { title: title || subtitle, subtitle, artist, album, words, music: words, copyright, tabber, instructions, notices };
 }
 
 function readMidiChannels(r: GP3Reader): MidiChannel[] {
@@ -268,7 +326,21 @@ function readMidiChannels(r: GP3Reader): MidiChannel[] {
 	return channels;
 }
 
-function readMeasureHeaders(r: GP3Reader, count: number): MeasureHeader[] {
+/**
+ * GP3 stores an alternate ending as a count ("endings 1..n") covering every
+ * ending not already claimed by an earlier alternative of the same repeat.
+ */
+function alternativeMask(value: number, previous: MeasureHeader[]): number {
+	let existing = 0;
+	for (let i = previous.length - 1; i >= 0; i--) {
+		existing |= previous[i].repeatAlternative;
+		if (previous[i].repeatOpen) break;
+	}
+	const upTo = (1 << Math.min(value, 8)) - 1;
+	return upTo & ~existing;
+}
+
+function readMeasureHeaders(r: GP3Reader, count: number, tripletFeel: TripletFeel): MeasureHeader[] {
 	const headers: MeasureHeader[] = [];
 	let prevNumerator = 4;
 	let prevDenominator = 4;
@@ -295,7 +367,7 @@ function readMeasureHeaders(r: GP3Reader, count: number): MeasureHeader[] {
 
 		let repeatAlternative = 0;
 		if (flags & 0x10) {
-			repeatAlternative = r.readByte();
+			repeatAlternative = alternativeMask(r.readByte(), headers);
 		}
 
 		let marker: MeasureHeader['marker'] = null;
@@ -326,7 +398,8 @@ function readMeasureHeaders(r: GP3Reader, count: number): MeasureHeader[] {
 			marker,
 			keySignature,
 			keyMode,
-			hasDoubleBar
+			hasDoubleBar,
+			tripletFeel
 		});
 
 		prevNumerator = numerator;
@@ -374,9 +447,10 @@ function readMeasures(
 	r: GP3Reader,
 	measureCount: number,
 	trackHeaders: TrackHeader[]
-): GP3ParsedBeat[][][] {
+): GP3ParsedBeat[][][][] {
+	// Result: measures[trackIdx][measureIdx][voiceIdx] = beats[]
 	const trackCount = trackHeaders.length;
-	const allMeasures: GP3ParsedBeat[][][] = [];
+	const allMeasures: GP3ParsedBeat[][][][] = [];
 	for (let t = 0; t < trackCount; t++) {
 		allMeasures.push([]);
 	}
@@ -384,7 +458,7 @@ function readMeasures(
 	for (let m = 0; m < measureCount; m++) {
 		for (let t = 0; t < trackCount; t++) {
 			const beats = readVoice(r, trackHeaders[t].numStrings);
-			allMeasures[t].push(beats);
+			allMeasures[t].push([beats]);
 		}
 	}
 
@@ -425,8 +499,9 @@ function readBeat(r: GP3Reader, numStrings: number): GP3ParsedBeat {
 	}
 
 	// Chord diagram
+	let chord: ParsedChord | null = null;
 	if (flags & 0x02) {
-		readChord(r);
+		chord = readChord(r, numStrings);
 	}
 
 	// Text
@@ -435,13 +510,17 @@ function readBeat(r: GP3Reader, numStrings: number): GP3ParsedBeat {
 	}
 
 	// Beat effects (GP3: single flag byte)
-	if (flags & 0x08) {
-		readBeatEffects(r);
-	}
+	const effects: BeatEffects = flags & 0x08
+		? readBeatEffects(r)
+		: { whammy: null, stroke: null, pickStroke: null, slapPop: null };
 
 	// Mix table change
+	let tempoChange: GP3ParsedBeat['tempoChange'] = null;
+	let mixChanges: MixChange[] = [];
 	if (flags & 0x10) {
-		readMixTableChange(r);
+		const mix = readMixTableChange(r);
+		if (mix.tempo > 0) tempoChange = { tempo: mix.tempo, duration: mix.tempoDuration };
+		mixChanges = mix.changes;
 	}
 
 	// Notes — bit 6 = GP string 1 (highest pitch), bit 0 = GP string 7
@@ -458,84 +537,142 @@ function readBeat(r: GP3Reader, numStrings: number): GP3ParsedBeat {
 		}
 	}
 
-	return { duration, dotted, tuplet, isRest: isRest || isEmpty, isEmpty, notes };
+	return { duration, dotted, tuplet, isRest: isRest || isEmpty, isEmpty, notes, tempoChange, mixChanges, chord, effects };
 }
 
-function readChord(r: GP3Reader): void {
+/** Reads a beat's chord diagram. Frets and barre strings are stored per GP string, highest first. */
+function readChord(r: GP3Reader, numStrings: number): ParsedChord {
 	const newFormat = r.readBool();
 	if (!newFormat) {
 		// GP3 old chord format
-		r.readIntByteSizeString(); // name
+		const name = r.readIntByteSizeString();
 		const firstFret = r.readInt();
+		const frets: number[] = [];
 		if (firstFret !== 0) {
-			for (let i = 0; i < 6; i++) r.readInt();
+			for (let i = 0; i < 6; i++) frets.push(r.readInt());
 		}
-	} else {
-		// GP4+ new format chord (can appear in GP3 files saved by later editors)
-		r.readBool(); // sharp
-		r.skip(3); // blank
-		r.readInt(); // root
-		r.readInt(); // type
-		r.readInt(); // extension
-		r.readInt(); // bass note
-		r.readInt(); // tonality
-		r.readBool(); // add
-		r.readByteSizeString(22); // name
-		r.readInt(); // fifth
-		r.readInt(); // ninth
-		r.readInt(); // eleventh
-		r.readInt(); // first fret
-		for (let i = 0; i < 6; i++) r.readInt(); // frets
-		r.readInt(); // barres count
-		r.readInt(); r.readInt(); // barre frets
-		r.readInt(); r.readInt(); // barre starts
-		r.readInt(); r.readInt(); // barre ends
-		for (let i = 0; i < 7; i++) r.readBool(); // omissions
-		r.skip(1); // blank
+		return {
+			name,
+			baseFret: Math.max(1, firstFret),
+			frets: fitToStrings(frets, numStrings),
+			barres: [],
+			fingering: fitToStrings([], numStrings)
+		};
 	}
+
+	// GP4+ new format chord (can appear in GP3 files saved by later editors)
+	r.readBool(); // sharp
+	r.skip(3); // blank
+	r.readInt(); // root
+	r.readInt(); // type
+	r.readInt(); // extension
+	r.readInt(); // bass note
+	r.readInt(); // tonality
+	r.readBool(); // add
+	const name = r.readByteSizeString(22);
+	r.readInt(); // fifth
+	r.readInt(); // ninth
+	r.readInt(); // eleventh
+	const firstFret = r.readInt();
+	const frets: number[] = [];
+	for (let i = 0; i < 6; i++) frets.push(r.readInt());
+	const barreCount = r.readInt();
+	const barreFrets = [r.readInt(), r.readInt()];
+	const barreStarts = [r.readInt(), r.readInt()];
+	const barreEnds = [r.readInt(), r.readInt()];
+	for (let i = 0; i < 7; i++) r.readBool(); // omissions
+	r.skip(1); // blank
+
+	const barres: TabChord['barres'] = [];
+	for (let i = 0; i < Math.min(barreCount, 2); i++) {
+		// Barre strings are 1-based GP string numbers
+		const first = Math.min(barreStarts[i], barreEnds[i]);
+		const last = Math.max(barreStarts[i], barreEnds[i]);
+		barres.push({
+			fret: barreFrets[i],
+			firstString: Math.min(numStrings - 1, Math.max(0, first - 1)),
+			lastString: Math.min(numStrings - 1, Math.max(0, last - 1))
+		});
+	}
+
+	return {
+		name,
+		baseFret: Math.max(1, firstFret),
+		frets: fitToStrings(frets, numStrings),
+		barres,
+		// GP3 stores no fingering
+		fingering: fitToStrings([], numStrings)
+	};
+}
+
+/** Trims or pads per-string values to the track's string count; missing strings get -1. */
+function fitToStrings(values: number[], numStrings: number): number[] {
+	return Array.from({ length: numStrings }, (_, i) => values[i] ?? -1);
 }
 
+/** Stroke speed byte → the duration the strum spreads over */
+const STROKE_DURATIONS: Record<number, Duration> = {
+	1: '128th',
+	2: '64th',
+	3: '32nd',
+	4: '16th',
+	5: 'eighth',
+	6: 'quarter'
+};
+
+const SLAP_POP: Record<number, SlapPop> = { 1: 'tap', 2: 'slap', 3: 'pop' };
+
+/** GP3 tremolo bar dips are stored in 1/100 semitone */
+const GP3_DIP_SEMITONE = 100;
+
 /** GP3 beat effects: single flag byte. */
-function readBeatEffects(r: GP3Reader): void {
+function readBeatEffects(r: GP3Reader): BeatEffects {
 	const flags1 = r.readByte();
+	const effects: BeatEffects = { whammy: null, stroke: null, pickStroke: null, slapPop: null };
 
 	if (flags1 & 0x20) {
 		const slapEffect = r.readByte();
+		const value = r.readInt();
 		if (slapEffect === 0) {
-			// Tremolo bar — GP3 stores only the dip value as Int
-			r.readInt();
+			// Tremolo bar — GP3 stores only the depth of a dip down and back
+			const depth = -value / GP3_DIP_SEMITONE;
+			effects.whammy = [
+				{ position: 0, value: 0, vibrato: false },
+				{ position: 0.5, value: depth, vibrato: false },
+				{ position: 1, value: 0, vibrato: false }
+			];
 		} else {
-			// Slap/tap/pop — read accompanying Int
-			r.readInt();
+			// Slap/tap/pop — the accompanying Int is unused
+			effects.slapPop = SLAP_POP[slapEffect] ?? null;
 		}
 	}
 
 	if (flags1 & 0x40) {
-		// Beat stroke: down + up
-		r.readByte();
-		r.readByte();
+		// Beat stroke: speed of a downward, then of an upward strum
+		const down = r.readByte();
+		const up = r.readByte();
+		const speed = up > 0 ? up : down;
+		const duration = STROKE_DURATIONS[speed];
+		if (duration) effects.stroke = { direction: up > 0 ? 'up' : 'down', duration };
 	}
+
+	return effects;
 }
 
 /** GP3 mix table change: simpler than GP5 (no RSE, no tempo name, no wah). */
-function readMixTableChange(r: GP3Reader): void {
-	r.readSignedByte(); // instrument
-	const volume = r.readSignedByte();
-	const balance = r.readSignedByte();
-	const chorus = r.readSignedByte();
-	const reverb = r.readSignedByte();
-	const phaser = r.readSignedByte();
-	const tremolo = r.readSignedByte();
+function readMixTableChange(r: GP3Reader): MixTableChange {
+	const instrument = r.readSignedByte();
+	const levels = MIX_LEVELS.map(() => r.readSignedByte());
 	const tempo = r.readInt();
 
 	// Durations for changed values
-	if (volume >= 0) r.readSignedByte();
-	if (balance >= 0) r.readSignedByte();
-	if (chorus >= 0) r.readSignedByte();
-	if (reverb >= 0) r.readSignedByte();
-	if (phaser >= 0) r.readSignedByte();
-	if (tremolo >= 0) r.readSignedByte();
-	if (tempo >= 0) r.readSignedByte();
+	const changes: MixChange[] = instrument >= 0 ? [{ type: 'program', value: instrument, duration: 0 }] : [];
+	MIX_LEVELS.forEach((type, i) => {
+		if (levels[i] >= 0) changes.push({ type, value: levels[i], duration: r.readSignedByte() });
+	});
+	const tempoDuration = tempo >= 0 ? r.readSignedByte() : 0;
+
+	return { tempo, tempoDuration, changes };
 }
 
 function readNote(r: GP3Reader): GP3ParsedNote {
@@ -555,9 +692,9 @@ function readNote(r: GP3Reader): GP3ParsedNote {
 		r.readSignedByte(); // tuplet
 	}
 
-	let velocity = 8; // default mf
+	let dynamic = DEFAULT_DYNAMIC;
 	if (flags & 0x10) {
-		velocity = r.readSignedByte();
+		dynamic = dynamicFromGp(r.readSignedByte());
 	}
 
 	let fret = 0;
@@ -578,6 +715,7 @@ function readNote(r: GP3Reader): GP3ParsedNote {
 	let letRing = false;
 	let slide = false;
 	let bend: GP3ParsedNote['bend'] = null;
+	let graceNote: TabGraceNote | null = null;
 
 	if (flags & 0x08) {
 		const result = readNoteEffects(r);
@@ -585,6 +723,7 @@ function readNote(r: GP3Reader): GP3ParsedNote {
 		letRing = result.letRing;
 		slide = result.slide;
 		bend = result.bend;
+		graceNote = result.graceNote;
 	}
 
 	return {
@@ -592,11 +731,13 @@ function readNote(r: GP3Reader): GP3ParsedNote {
 		fret,
 		isTied,
 		isDead,
-		velocity,
+		dynamic,
+		ghost: (flags & 0x04) !== 0,
 		hammerOn,
 		letRing,
 		slide,
-		bend
+		bend,
+		graceNote
 	};
 }
 
@@ -605,6 +746,7 @@ interface NoteEffectsResult {
 	letRing: boolean;
 	slide: boolean;
 	bend: GP3ParsedNote['bend'];
+	graceNote: TabGraceNote | null;
 }
 
 /** GP3 note effects: single flag byte. */
@@ -620,11 +762,9 @@ function readNoteEffects(r: GP3Reader): NoteEffectsResult {
 		bend = readBend(r);
 	}
 
-	if (flags & 0x10) {
-		readGraceNote(r);
-	}
+	const graceNote = flags & 0x10 ? readGraceNote(r) : null;
 
-	return { hammerOn, letRing, slide, bend };
+	return { hammerOn, letRing, slide, bend, graceNote };
 }
 
 function readBend(r: GP3Reader): { type: number; value: number; points: { position: number; value: number; vibrato: boolean }[] } {
@@ -641,97 +781,196 @@ function readBend(r: GP3Reader): { type: number; value: number; points: { positi
 	return { type, value, points };
 }
 
-function readGraceNote(r: GP3Reader): void {
-	r.readByte(); // fret
+/** Grace note transition byte → transition type */
+const GRACE_TRANSITIONS: GraceNoteTransition[] = ['none', 'slide', 'bend', 'hammer'];
+
+/** Grace note duration byte → rhythm (2 is the "24th", a sixteenth triplet) */
+const GRACE_DURATIONS: Record<number, Pick<TabGraceNote, 'duration' | 'tuplet'>> = {
+	1: { duration: '32nd', tuplet: null },
+	2: { duration: '16th', tuplet: { num: 3, den: 2 } },
+	3: { duration: '16th', tuplet: null }
+};
+
+/** GP3 grace notes are always played before the beat; fret -1 marks a dead note. */
+function readGraceNote(r: GP3Reader): TabGraceNote {
+	const fret = r.readSignedByte();
 	r.readByte(); // velocity
-	r.readByte(); // transition
-	r.readByte(); // duration
+	const transition = GRACE_TRANSITIONS[r.readByte()] ?? 'none';
+	const rhythm = GRACE_DURATIONS[r.readByte()] ?? GRACE_DURATIONS[3];
+	return { fret: Math.max(0, fret), ...rhythm, transition, onBeat: false, dead: fret < 0 };
 }
 
 // ---------------------------------------------------------------------------
 // Transform parsed GP3 data → TabSong
 // ---------------------------------------------------------------------------
 
+/** Collects a track's mix table program and level changes as automations, levels on the MIDI scale. */
+function collectAutomations(measureHeaders: MeasureHeader[], trackMeasures: GP3ParsedBeat[][][]): TabAutomation[] {
+	const automations: TabAutomation[] = [];
+
+	for (let mIdx = 0; mIdx < measureHeaders.length; mIdx++) {
+		for (const voice of trackMeasures[mIdx] ?? []) {
+			let offset = 0;
+			for (const beat of voice) {
+				for (const change of beat.mixChanges) {
+					automations.push({
+						type: change.type,
+						value: change.type === 'program' ? change.value : midiLevelFromGp(change.value),
+						barIndex: mIdx,
+						position: offset,
+						transition: Math.max(0, change.duration)
+					});
+				}
+				offset += durationToBeats(beat.duration, beat.dotted ? 1 : 0, beat.tuplet);
+			}
+		}
+	}
+
+	return automations;
+}
+
+/** Builds a track's MIDI output from its header, its entry in the 64-channel table and its mix table changes. */
+function trackMidi(th: TrackHeader, channels: MidiChannel[], automations: TabAutomation[]): TabMidi {
+	const ch = channels[th.channelIndex];
+	const program = ch ? Math.max(0, ch.instrument) : 0;
+	const channel = th.isPercussion ? 9 : Math.max(0, th.channelIndex) % 16;
+	return {
+		program,
+		programName: gmProgramName(program, th.isPercussion),
+		bank: 0,
+		port: Math.max(0, th.port - 1),
+		channel,
+		effectChannel: th.effectChannel >= 0 ? th.effectChannel % 16 : channel,
+		volume: midiLevelFromGp(ch?.volume ?? 13),
+		pan: midiLevelFromGp(ch?.balance ?? 8),
+		chorus: midiLevelFromGp(ch?.chorus ?? 0),
+		reverb: midiLevelFromGp(ch?.reverb ?? 0),
+		phaser: midiLevelFromGp(ch?.phaser ?? 0),
+		tremolo: midiLevelFromGp(ch?.tremolo ?? 0),
+		automations
+	};
+}
+
+/** Returns the id of an identical chord already collected, or adds the chord with the next id. */
+function internChord(chords: TabChord[], chord: ParsedChord): string {
+	const shape = (c: ParsedChord): string => JSON.stringify([c.name, c.baseFret, c.frets, c.barres, c.fingering]);
+	const existing = chords.find((c) => shape(c) === shape(chord));
+	if (existing) return existing.id;
+	const id = String(chords.length);
+	chords.push({ id, ...chord });
+	return id;
+}
+
+/** Drops trailing voices that hold no beats; voice 1 is always kept. */
+function trimEmptyVoices(voices: TabBeat[][]): void {
+	while (voices.length > 1 && voices[voices.length - 1].length === 0) {
+		voices.pop();
+	}
+}
+
+/** Expands an alternate ending bitmask into 1-based ending numbers. */
+function alternateEndingNumbers(mask: number): number[] {
+	const endings: number[] = [];
+	for (let bit = 0; bit < 8; bit++) {
+		if (mask & (1 << bit)) endings.push(bit + 1);
+	}
+	return endings;
+}
+
 function transformToTabSong(
-	info: { title: string; subtitle: string; artist: string; album: string },
+	info: ScoreInfo,
 	tempo: number,
 	measureHeaders: MeasureHeader[],
 	trackHeaders: TrackHeader[],
-	parsedMeasures: GP3ParsedBeat[][][],
+	parsedMeasures: GP3ParsedBeat[][][][],
 	channels: MidiChannel[]
 ): TabSong {
+	const tempoPoints = tempoPointsFromChanges(tempo, collectTempoChanges(measureHeaders, parsedMeasures));
+
 	const tracks: TabTrack[] = trackHeaders.map((th, trackIdx) => {
 		const tuningPitches = th.tuning;
-		const tuning: Note[] = tuningPitches
-			.map((midi) => noteFromPitchClass(midiToPitchClass(midi)));
 
-		let globalBeatIndex = 0;
+		// Beat indices run per voice so voice 1 keeps its sequential numbering
+		const voiceBeatIndex: number[] = [];
 		const bars: TabBar[] = [];
+		const chords: TabChord[] = [];
 
 		for (let mIdx = 0; mIdx < measureHeaders.length; mIdx++) {
 			const mh = measureHeaders[mIdx];
-			const beatsData = parsedMeasures[trackIdx]?.[mIdx] ?? [];
-
-			const tabBeats: TabBeat[] = [];
-
-			for (const beatData of beatsData) {
-				if (beatData.isEmpty) continue;
-
-				const stringCount = th.numStrings;
-				const tabNotes: TabNote[] = [];
-
-				for (const noteData of beatData.notes) {
-					const tuningIndex = noteData.string; // 0-based, 0 = highest pitch string (matches GP tuning array order)
-					const stringIdx = tuningIndex; // display order: 0 = highest pitch string
-					const fret = noteData.fret;
-					const openPitch = tuningPitches[tuningIndex] ?? 0;
-					const pc = (((openPitch + th.capoFret + fret) % 12 + 12) % 12) as PitchClass;
-					const note = noteFromPitchClass(pc, false);
-
-					let bendResult: TabNote['bend'] = null;
-					if (noteData.bend) {
-						const points = noteData.bend.points;
-						const origin = points.length > 0 ? points[0].value / 100 : 0;
-						const destination = points.length > 1 ? points[points.length - 1].value / 100 : 0;
-						const middle = points.length > 2 ? points[Math.floor(points.length / 2)].value / 100 : 0;
-						bendResult = { origin, destination, middle };
+			const voicesData = parsedMeasures[trackIdx]?.[mIdx] ?? [[]];
+
+			const voices: TabBeat[][] = [];
+			for (let vIdx = 0; vIdx < voicesData.length; vIdx++) {
+				if (voiceBeatIndex[vIdx] === undefined) voiceBeatIndex[vIdx] = 0;
+				const tabBeats: TabBeat[] = [];
+
+				for (const beatData of voicesData[vIdx]) {
+					if (beatData.isEmpty) continue;
+
+					const stringCount = th.numStrings;
+					const tabNotes: TabNote[] = [];
+
+					for (const noteData of beatData.notes) {
+						const tuningIndex = noteData.string; // 0-based, 0 = highest pitch string (matches GP tuning array order)
+						const stringIdx = tuningIndex; // display order: 0 = highest pitch string
+						const fret = noteData.fret;
+						const midi = (tuningPitches[tuningIndex] ?? 0) + th.capoFret + fret;
+						const pitch = noteFromMidi(midi);
+
+						tabNotes.push({
+							string: stringIdx,
+							fret,
+							pitchClass: pitch.pitchClass,
+							noteName: pitch.name,
+							midi,
+							pitch,
+							slide: noteData.slide ? 1 : null,
+							harmonic: null,
+							palmMute: false,
+							muted: noteData.isDead,
+							letRing: noteData.letRing,
+							bend: noteData.bend ? bendFromGp(noteData.bend) : null,
+							tie: {
+								origin: false, // Set by resolveNoteLinks
+								destination: noteData.isTied
+							},
+							vibrato: null,
+							hammerOn: noteData.hammerOn,
+							pullOff: false, // One legato flag for both directions, resolved by resolveNoteLinks
+							tapped: false,
+							accent: null,
+							graceNote: noteData.graceNote,
+							staccato: false,
+							trill: null,
+							tremoloPicking: null,
+							ornament: null,
+							drum: null,
+							dynamic: noteData.dynamic,
+							velocity: noteVelocity(noteData.dynamic, null, noteData.ghost),
+							ghost: noteData.ghost,
+							soundingLength: 1
+						});
 					}
 
-					tabNotes.push({
-						string: stringIdx,
-						fret,
-						pitchClass: pc,
-						noteName: note.name,
-						slide: noteData.slide ? 1 : null,
-						harmonic: null,
-						palmMute: false,
-						muted: noteData.isDead,
-						letRing: noteData.letRing,
-						bend: bendResult,
-						tie: {
-							origin: false,
-							destination: noteData.isTied
-						},
-						vibrato: null,
-						hammerOn: noteData.hammerOn,
-						pullOff: false,
-						tapped: false,
-						accent: null
+					tabBeats.push({
+						index: voiceBeatIndex[vIdx]++,
+						voice: vIdx,
+						barIndex: mIdx,
+						notes: tabNotes,
+						duration: beatData.duration,
+						tuplet: beatData.tuplet,
+						dotted: beatData.dotted ? 1 : 0,
+						isRest: beatData.isRest && tabNotes.length === 0,
+						// Legacy formats mark dynamics per note
+						dynamic: tabNotes[0]?.dynamic ?? null,
+						tempo,
+						chordId: beatData.chord ? internChord(chords, beatData.chord) : null,
+						...beatData.effects
 					});
 				}
-
-				tabBeats.push({
-					index: globalBeatIndex++,
-					barIndex: mIdx,
-					notes: tabNotes,
-					duration: beatData.duration,
-					tuplet: beatData.tuplet,
-					dotted: beatData.dotted ? 1 : 0,
-					isRest: beatData.isRest && tabNotes.length === 0,
-					dynamic: null,
-					tempo
-				});
+				voices.push(tabBeats);
 			}
+			trimEmptyVoices(voices);
 
 			const section = mh.marker
 				? { text: mh.marker.name }
@@ -743,36 +982,44 @@ function transformToTabSong(
 				keySignature: mh.keySignature !== 0
 					? { accidentalCount: mh.keySignature, mode: mh.keyMode === 1 ? 'minor' : 'major' }
 					: null,
+				tripletFeel: mh.tripletFeel,
 				section,
-				beats: tabBeats,
+				beats: voices[0],
+				voices,
 				repeatStart: mh.repeatOpen,
 				repeatEnd: mh.repeatClose >= 0,
-				repeatCount: mh.repeatClose >= 0 ? mh.repeatClose : 0
+				// repeatClose counts jumps back; TabBar counts total plays
+				repeatCount: mh.repeatClose >= 0 ? mh.repeatClose + 1 : 0,
+				alternateEndings: alternateEndingNumbers(mh.repeatAlternative),
+				directions: null
 			});
 		}
 
-		const ch = channels[th.channelIndex];
-		const instrumentName = ch ? `MIDI ${ch.instrument}` : null;
+		applyTempoPoints(bars, tempoPoints, tempo);
+		resolveNoteLinks(bars);
+		// Percussion tracks store the GM drum key as the fret
+		if (th.isPercussion) resolveDrumHits(bars, (note) => note.fret);
+		spellFromKeySignatures(bars);
+
+		const midi = trackMidi(th, channels, collectAutomations(measureHeaders, parsedMeasures[trackIdx] ?? []));
 
 		return {
 			id: String(trackIdx),
 			name: th.name,
 			shortName: th.name.substring(0, 4),
-			instrument: instrumentName,
-			tuning,
+			instrument: channels[th.channelIndex] ? midi.programName : null,
+			kind: th.isPercussion ? 'percussion' : 'stringed',
+			midi,
+			tuning: spellTuning(tuningPitches, bars),
 			tuningMidi: [...tuningPitches],
 			capoFret: th.capoFret,
-			bars
+			bars,
+			chords,
+			lyrics: [] // GP3 has no lyrics block
 		};
 	});
 
-	return {
-		title: info.title || info.subtitle || '',
-		artist: info.artist,
-		album: info.album,
-		tempo,
-		tracks
-	};
+	return { ...info, tempo, tracks };
 }
 
 // ---------------------------------------------------------------------------
@@ -797,7 +1044,7 @@ export function parseGp3File(data: Uint8Array): TabSong {
 	const info = readInfo(r);
 
 	// Triplet feel (GP3: global bool, not per-measure)
-	r.readBool();
+	const tripletFeel: TripletFeel = r.readBool() ? 'triplet8th' : 'none';
 
 	// Tempo
 	const tempo = r.readInt();
@@ -813,7 +1060,7 @@ export function parseGp3File(data: Uint8Array): TabSong {
 	const trackCount = r.readInt();
 
 	// Measure headers
-	const measureHeaders = readMeasureHeaders(r, measureCount);
+	const measureHeaders = readMeasureHeaders(r, measureCount, tripletFeel);
 
 	// Tracks
 	const trackHeaders = readTrackHeaders(r, trackCount);
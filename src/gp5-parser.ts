@@ -15,24 +15,45 @@
  */
 
 /**
- * GP5 parser : decodes Guitar Pro 5 (.gp5) binary files and transforms them
- * into TabSong structures. Pure, zero native dependencies.
+ * GP5 parser : decodes Guitar Pro 5 (.gp5) and Guitar Pro 4 (.gp4) binary files
+ * and transforms them into TabSong structures. Pure, zero native dependencies.
  *
  * Pipeline: Uint8Array → sequential binary read → TabSong
  *
  * Based on the PyGuitarPro format specification (GP3→GP4→GP5 inheritance chain).
+ * GP4 blocks follow the GP3 layout (single voice, no RSE/page setup/directions)
+ * with GP4 lyrics, chord diagrams and two-byte beat/note effect flags; the
+ * differences are branched on `isGp4(version)`.
  */
 
-import type { PitchClass, Note } from './pitch.js';
-import { noteFromPitchClass, midiToPitchClass } from './pitch.js';
+import { noteFromMidi, soundingMidi, spellFromKeySignatures, spellTuning } from './pitch.js';
 import type {
 	Duration,
+	Dynamic,
 	TabNote,
 	TabBeat,
 	TabBar,
 	TabTrack,
-	TabSong
+	TabSong,
+	TabChord,
+	TabMidi,
+	TabAutomation,
+	AutomationType,
+	TabGraceNote,
+	GraceNoteTransition,
+	StrokeDirection,
+	SlapPop,
+	DirectionTarget,
+	DirectionJump,
+	TripletFeel
 } from './types.js';
+import { durationToBeats, collectTempoChanges, tempoPointsFromChanges, applyTempoPoints } from './timing.js';
+import { bendFromGp, bendPointsFromGp } from './bends.js';
+import { alignLyricLine } from './lyrics.js';
+import { resolveNoteLinks } from './note-links.js';
+import { resolveDrumHits } from './drums.js';
+import { DEFAULT_DYNAMIC, dynamicFromGp, noteVelocity, soundingLength } from './dynamics.js';
+import { gmProgramName, midiLevelFromGp } from './instruments.js';
 
 // ---------------------------------------------------------------------------
 // Binary reader — sequential LE reader with position tracking
@@ -155,6 +176,11 @@ function versionGreaterThan(v: GP5Version, major: number, minor: number, patch:
 	return v.patch > patch;
 }
 
+/** GP4 shares the GP3 layout for most blocks; GP5 extends it with RSE, page setup and a second voice. */
+function isGp4(v: GP5Version): boolean {
+	return v.major < 5;
+}
+
 // ---------------------------------------------------------------------------
 // Duration mapping
 // ---------------------------------------------------------------------------
@@ -202,6 +228,34 @@ const HARMONIC_TYPE_MAP: Record<number, string> = {
 	5: 'Semi'
 };
 
+/** GP4 harmonic codes: 15/17/22 are artificial harmonics an octave and a fifth, two octaves and one octave up. */
+const GP4_HARMONIC_TYPE_MAP: Record<number, string> = {
+	1: 'Natural',
+	3: 'Tapped',
+	4: 'Pinch',
+	5: 'Semi',
+	15: 'Artificial',
+	17: 'Artificial',
+	22: 'Artificial'
+};
+
+/** Frets above the fretted note that GP4 artificial harmonic codes are touched at */
+const GP4_ARTIFICIAL_HARMONIC_FRETS: Record<number, number> = { 15: 7, 17: 5, 22: 12 };
+
+// ---------------------------------------------------------------------------
+// Slide mapping
+// ---------------------------------------------------------------------------
+
+/** GP4 stores a single slide type; map it onto the GP5/GPIF slide flag bits. */
+const GP4_SLIDE_FLAGS: Record<number, number> = {
+	[-2]: 0x20, // into from above
+	[-1]: 0x10, // into from below
+	1: 0x01, // shift slide
+	2: 0x02, // legato slide
+	3: 0x04, // out downwards
+	4: 0x08 // out upwards
+};
+
 // ---------------------------------------------------------------------------
 // MIDI channel info
 // ---------------------------------------------------------------------------
@@ -216,6 +270,30 @@ interface MidiChannel {
 	tremolo: number;
 }
 
+// ---------------------------------------------------------------------------
+// Mix table change (beat-level automation)
+// ---------------------------------------------------------------------------
+
+interface MixTableChange {
+	/** New tempo in BPM, or -1 when the tempo is unchanged */
+	tempo: number;
+	/** Number of beats over which the tempo moves to its new value (0 = immediate) */
+	tempoDuration: number;
+	/** Program and mixer levels the change sets */
+	changes: MixChange[];
+}
+
+/** A program or mixer level set by a mix table change, as stored (levels 0-16) */
+interface MixChange {
+	type: AutomationType;
+	value: number;
+	/** Number of beats over which the level moves to its new value (0 = immediate) */
+	duration: number;
+}
+
+/** Mixer levels in mix table order */
+const MIX_LEVELS: AutomationType[] = ['volume', 'pan', 'chorus', 'reverb', 'phaser', 'tremolo'];
+
 // ---------------------------------------------------------------------------
 // Measure header (parsed from the measure header block)
 // ---------------------------------------------------------------------------
@@ -225,14 +303,20 @@ interface MeasureHeader {
 	denominator: number;
 	repeatOpen: boolean;
 	repeatClose: number;
+	/** Bitmask of alternate endings (bit 0 = ending 1) */
 	repeatAlternative: number;
 	marker: { name: string; color: [number, number, number] } | null;
 	keySignature: number;
 	keyMode: number;
 	hasDoubleBar: boolean;
-	tripletFeel: number;
+	tripletFeel: TripletFeel;
 }
 
+/** GP5 per-measure triplet feel byte → swing */
+const TRIPLET_FEELS: TripletFeel[] = ['none', 'triplet8th', 'triplet16th'];
+
+type BarDirections = NonNullable<TabBar['directions']>;
+
 // ---------------------------------------------------------------------------
 // Track header
 // ---------------------------------------------------------------------------
@@ -245,6 +329,8 @@ interface TrackHeader {
 	port: number;
 	channelIndex: number;
 	effectChannel: number;
+	/** MIDI bank (GP5; 0 in GP4) */
+	bank: number;
 	fretCount: number;
 	capoFret: number;
 }
@@ -258,11 +344,17 @@ interface GP5ParsedNote {
 	fret: number;
 	isTied: boolean;
 	isDead: boolean;
-	velocity: number;
+	dynamic: Dynamic;
+	/** Ghost note: played softer */
+	ghost: boolean;
+	/** Fraction of the written value the note sounds for (GP5; 1 in GP4) */
+	durationPercent: number;
 	hammerOn: boolean;
 	letRing: boolean;
 	slide: number | null;
 	harmonic: string | null;
+	/** Frets above the fretted note an artificial harmonic is touched at, null when not stored */
+	harmonicFret: number | null;
 	palmMute: boolean;
 	vibrato: boolean;
 	bend: { type: number; value: number; points: { position: number; value: number; vibrato: boolean }[] } | null;
@@ -271,6 +363,7 @@ interface GP5ParsedNote {
 	accent: boolean;
 	trill: { fret: number; period: number } | null;
 	tremoloPicking: number | null;
+	graceNote: TabGraceNote | null;
 }
 
 interface GP5ParsedBeat {
@@ -280,37 +373,64 @@ interface GP5ParsedBeat {
 	isRest: boolean;
 	isEmpty: boolean;
 	notes: GP5ParsedNote[];
+	tempoChange: { tempo: number; duration: number } | null;
+	mixChanges: MixChange[];
+	chord: ParsedChord | null;
+	effects: BeatEffects;
 }
 
+/** A chord diagram as stored on a beat, before it is given a track-wide id */
+type ParsedChord = Omit<TabChord, 'id'>;
+
+/** Beat effects, in their TabBeat form */
+type BeatEffects = Pick<TabBeat, 'whammy' | 'stroke' | 'pickStroke' | 'slapPop'>;
+
 // ---------------------------------------------------------------------------
 // Read helpers — individual GP binary sections
 // ---------------------------------------------------------------------------
 
-function readInfo(r: GP5Reader): { title: string; subtitle: string; artist: string; album: string } {
+/** Score credits: every TabSong field but the tempo and tracks. */
+type ScoreInfo = Omit<TabSong, 'tempo' | 'tracks'>;
+
+function readInfo(r: GP5Reader, version: GP5Version): ScoreInfo {
 	const title = r.readIntByteSizeString();
 	const subtitle = r.readIntByteSizeString();
 	const artist = r.readIntByteSizeString();
 	const album = r.readIntByteSizeString();
-	r.readIntByteSizeString(); // words
-	r.readIntByteSizeString(); // music
-	r.readIntByteSizeString(); // copyright
-	r.readIntByteSizeString(); // tab
-	r.readIntByteSizeString(); // instructions
+	const words = r.readIntByteSizeString();
+	// GP5 only — GP4 has a single words/music field
+	const music = isGp4(version) ? words : r.readIntByteSizeString();
+	const copyright = r.readIntByteSizeString();
+	const tabber = r.readIntByteSizeString();
+	const instructions = r.readIntByteSizeString();
 
 	const noticeCount = r.readInt();
+	const notices: string[] = [];
 	for (let i = 0; i < noticeCount; i++) {
-		r.readIntByteSizeString();
+		notices.push(r.readIntByteSizeString());
 	}
 
-	return { title, subtitle, artist, album };
+	// Scores with only a subtitle show it as their title
+	return { title: title || subtitle, subtitle, artist, album, words, music, copyright, tabber, instructions, notices };
 }
 
-function readLyrics(r: GP5Reader): void {
-	r.readInt(); // lyric track
+/** The score's lyrics: five lines sung over a single track. */
+interface Lyrics {
+	/** 0-based index of the track the lyrics belong to, -1 for none */
+	trackIndex: number;
+	lines: Array<{ startBar: number; text: string }>;
+}
+
+function readLyrics(r: GP5Reader): Lyrics {
+	// Track and start bars are stored 1-based
+	const trackIndex = r.readInt() - 1;
+	const lines: Lyrics['lines'] = [];
 	for (let i = 0; i < 5; i++) {
-		r.readInt(); // start bar
-		r.readIntString(); // text
+		const startBar = r.readInt() - 1;
+		const text = r.readIntString();
+		if (text.trim().length > 0) lines.push({ startBar, text });
 	}
+	return { trackIndex, lines };
 }
 
 function readRSEMasterEffect(r: GP5Reader, version: GP5Version): void {
@@ -341,10 +461,48 @@ function readPageSetup(r: GP5Reader): void {
 	}
 }
 
-function readDirections(r: GP5Reader): void {
-	for (let i = 0; i < 19; i++) {
-		r.readShort();
+/** Order of the 19 direction slots in the GP5 header (each a 1-based measure number, -1 = unused) */
+const GP5_DIRECTION_SLOTS: Array<{ target: DirectionTarget } | { jump: DirectionJump }> = [
+	{ target: 'Coda' },
+	{ target: 'DoubleCoda' },
+	{ target: 'Segno' },
+	{ target: 'SegnoSegno' },
+	{ target: 'Fine' },
+	{ jump: 'DaCapo' },
+	{ jump: 'DaCapoAlCoda' },
+	{ jump: 'DaCapoAlDoubleCoda' },
+	{ jump: 'DaCapoAlFine' },
+	{ jump: 'DaSegno' },
+	{ jump: 'DaSegnoAlCoda' },
+	{ jump: 'DaSegnoAlDoubleCoda' },
+	{ jump: 'DaSegnoAlFine' },
+	{ jump: 'DaSegnoSegno' },
+	{ jump: 'DaSegnoSegnoAlCoda' },
+	{ jump: 'DaSegnoSegnoAlDoubleCoda' },
+	{ jump: 'DaSegnoSegnoAlFine' },
+	{ jump: 'DaCoda' },
+	{ jump: 'DaDoubleCoda' }
+];
+
+/** Reads the directions block, keyed by 0-based measure index. */
+function readDirections(r: GP5Reader): Map<number, BarDirections> {
+	const directions = new Map<number, BarDirections>();
+	for (const slot of GP5_DIRECTION_SLOTS) {
+		const measure = r.readShort();
+		if (measure <= 0) continue;
+
+		let entry = directions.get(measure - 1);
+		if (!entry) {
+			entry = { targets: [], jumps: [] };
+			directions.set(measure - 1, entry);
+		}
+		if ('target' in slot) {
+			entry.targets.push(slot.target);
+		} else {
+			entry.jumps.push(slot.jump);
+		}
 	}
+	return directions;
 }
 
 function readMidiChannels(r: GP5Reader): MidiChannel[] {
@@ -363,7 +521,9 @@ function readMidiChannels(r: GP5Reader): MidiChannel[] {
 	return channels;
 }
 
-function readMeasureHeaders(r: GP5Reader, count: number, _version: GP5Version): MeasureHeader[] {
+function readMeasureHeaders(r: GP5Reader, count: number, version: GP5Version, tripletFeel: TripletFeel): MeasureHeader[] {
+	if (isGp4(version)) return readGp4MeasureHeaders(r, count, tripletFeel);
+
 	const headers: MeasureHeader[] = [];
 	let prevNumerator = 4;
 	let prevDenominator = 4;
@@ -427,7 +587,91 @@ function readMeasureHeaders(r: GP5Reader, count: number, _version: GP5Version):
 			r.skip(1);
 		}
 
-		const tripletFeel = r.readByte();
+		const tripletFeel = TRIPLET_FEELS[r.readByte()] ?? 'none';
+
+		headers.push({
+			numerator,
+			denominator,
+			repeatOpen,
+			repeatClose,
+			repeatAlternative,
+			marker,
+			keySignature,
+			keyMode,
+			hasDoubleBar,
+			tripletFeel
+		});
+
+		prevNumerator = numerator;
+		prevDenominator = denominator;
+	}
+
+	return headers;
+}
+
+/**
+ * GP3/GP4 store an alternate ending as a count ("endings 1..n") covering every
+ * ending not already claimed by an earlier alternative of the same repeat.
+ */
+function alternativeMask(value: number, previous: MeasureHeader[]): number {
+	let existing = 0;
+	for (let i = previous.length - 1; i >= 0; i--) {
+		existing |= previous[i].repeatAlternative;
+		if (previous[i].repeatOpen) break;
+	}
+	const upTo = (1 << Math.min(value, 8)) - 1;
+	return upTo & ~existing;
+}
+
+/** GP4 measure headers use the GP3 layout: no blank bytes, beams or per-measure triplet feel. */
+function readGp4MeasureHeaders(r: GP5Reader, count: number, tripletFeel: TripletFeel): MeasureHeader[] {
+	const headers: MeasureHeader[] = [];
+	let prevNumerator = 4;
+	let prevDenominator = 4;
+
+	for (let i = 0; i < count; i++) {
+		const flags = r.readByte();
+
+		let numerator = prevNumerator;
+		let denominator = prevDenominator;
+
+		if (flags & 0x01) {
+			numerator = r.readSignedByte();
+		}
+		if (flags & 0x02) {
+			denominator = r.readSignedByte();
+		}
+
+		const repeatOpen = (flags & 0x04) !== 0;
+
+		let repeatClose = -1;
+		if (flags & 0x08) {
+			repeatClose = r.readSignedByte();
+		}
+
+		let repeatAlternative = 0;
+		if (flags & 0x10) {
+			repeatAlternative = alternativeMask(r.readByte(), headers);
+		}
+
+		let marker: MeasureHeader['marker'] = null;
+		if (flags & 0x20) {
+			const name = r.readIntByteSizeString();
+			const colorR = r.readByte();
+			const colorG = r.readByte();
+			const colorB = r.readByte();
+			r.skip(1); // padding
+			marker = { name, color: [colorR, colorG, colorB] };
+		}
+
+		let keySignature = 0;
+		let keyMode = 0;
+		if (flags & 0x40) {
+			keySignature = r.readSignedByte();
+			keyMode = r.readSignedByte();
+		}
+
+		const hasDoubleBar = (flags & 0x80) !== 0;
 
 		headers.push({
 			numerator,
@@ -450,6 +694,8 @@ function readMeasureHeaders(r: GP5Reader, count: number, _version: GP5Version):
 }
 
 function readTrackHeaders(r: GP5Reader, count: number, version: GP5Version): TrackHeader[] {
+	if (isGp4(version)) return readGp4TrackHeaders(r, count);
+
 	const tracks: TrackHeader[] = [];
 
 	for (let i = 0; i < count; i++) {
@@ -477,14 +723,14 @@ function readTrackHeaders(r: GP5Reader, count: number, version: GP5Version): Tra
 		const capoFret = r.readInt();
 		r.skip(4); // color (3 bytes + padding)
 
-		tracks.push({ name, isPercussion, numStrings, tuning, port, channelIndex, effectChannel, fretCount, capoFret });
-
 		// GP5 track flags2 (display settings)
 		r.readShort();
 
 		// Auto accentuation + MIDI bank
 		r.readByte(); // auto accentuation
-		r.readByte(); // MIDI bank
+		const bank = r.readByte();
+
+		tracks.push({ name, isPercussion, numStrings, tuning, port, channelIndex, effectChannel, bank, fretCount, capoFret });
 
 		// Track RSE
 		readTrackRSE(r, version);
@@ -500,6 +746,36 @@ function readTrackHeaders(r: GP5Reader, count: number, version: GP5Version): Tra
 	return tracks;
 }
 
+/** GP4 track headers use the GP3 layout: no blank bytes, display flags or RSE block. */
+function readGp4TrackHeaders(r: GP5Reader, count: number): TrackHeader[] {
+	const tracks: TrackHeader[] = [];
+
+	for (let i = 0; i < count; i++) {
+		const flags1 = r.readByte();
+		const isPercussion = (flags1 & 0x01) !== 0;
+
+		const name = r.readByteSizeString(40);
+		const numStrings = r.readInt();
+
+		const tuning: number[] = [];
+		for (let s = 0; s < 7; s++) {
+			const val = r.readInt();
+			if (s < numStrings) tuning.push(val);
+		}
+
+		const port = r.readInt();
+		const channelIndex = r.readInt() - 1; // 1-based → 0-based
+		const effectChannel = r.readInt() - 1;
+		const fretCount = r.readInt();
+		const capoFret = r.readInt();
+		r.skip(4); // color (3 bytes + padding)
+
+		tracks.push({ name, isPercussion, numStrings, tuning, port, channelIndex, effectChannel, bank: 0, fretCount, capoFret });
+	}
+
+	return tracks;
+}
+
 function readTrackRSE(r: GP5Reader, version: GP5Version): void {
 	r.readByte(); // humanize
 	r.skip(12); // 3 ints unknown
@@ -539,26 +815,28 @@ function readMeasures(
 	measureCount: number,
 	trackHeaders: TrackHeader[],
 	version: GP5Version
-): GP5ParsedBeat[][][] {
-	// Result: measures[trackIdx][measureIdx] = beats[]
+): GP5ParsedBeat[][][][] {
+	// Result: measures[trackIdx][measureIdx][voiceIdx] = beats[]
 	const trackCount = trackHeaders.length;
-	const allMeasures: GP5ParsedBeat[][][] = [];
+	const allMeasures: GP5ParsedBeat[][][][] = [];
 	for (let t = 0; t < trackCount; t++) {
 		allMeasures.push([]);
 	}
 
 	// GP5 stores measures in order: measure1/track1, measure1/track2, ..., measure2/track1, ...
-	// GP5 has 2 voices per measure
+	// GP5 has 2 voices per measure; GP4 has a single voice and no line break byte
 	for (let m = 0; m < measureCount; m++) {
 		for (let t = 0; t < trackCount; t++) {
 			const numStrings = trackHeaders[t].numStrings;
+			if (isGp4(version)) {
+				allMeasures[t].push([readVoice(r, version, numStrings)]);
+				continue;
+			}
 			const voice1Beats = readVoice(r, version, numStrings);
 			const voice2Beats = readVoice(r, version, numStrings);
 			r.readByte(); // line break
 
-			// Use voice 1 as primary; include voice 2 beats if voice 1 is empty
-			const beats = voice1Beats.length > 0 ? voice1Beats : voice2Beats;
-			allMeasures[t].push(beats);
+			allMeasures[t].push([voice1Beats, voice2Beats]);
 		}
 	}
 
@@ -599,8 +877,9 @@ function readBeat(r: GP5Reader, version: GP5Version, numStrings: number): GP5Par
 	}
 
 	// Chord diagram
+	let chord: ParsedChord | null = null;
 	if (flags & 0x02) {
-		readChord(r, version);
+		chord = readChord(r, numStrings);
 	}
 
 	// Text
@@ -609,13 +888,17 @@ function readBeat(r: GP5Reader, version: GP5Version, numStrings: number): GP5Par
 	}
 
 	// Beat effects
-	if (flags & 0x08) {
-		readBeatEffects(r, version);
-	}
+	const effects: BeatEffects = flags & 0x08
+		? readBeatEffects(r, version)
+		: { whammy: null, stroke: null, pickStroke: null, slapPop: null };
 
 	// Mix table change
+	let tempoChange: GP5ParsedBeat['tempoChange'] = null;
+	let mixChanges: MixChange[] = [];
 	if (flags & 0x10) {
-		readMixTableChange(r, version);
+		const mix = readMixTableChange(r, version);
+		if (mix.tempo > 0) tempoChange = { tempo: mix.tempo, duration: mix.tempoDuration };
+		mixChanges = mix.changes;
 	}
 
 	// Notes — bit 6 = GP string 1 (highest pitch), bit 0 = GP string 7
@@ -633,70 +916,143 @@ function readBeat(r: GP5Reader, version: GP5Version, numStrings: number): GP5Par
 	}
 
 	// GP5 beat flags2
-	const flags2 = r.readShort();
-	if (flags2 & 0x0800) {
-		r.readByte(); // break secondary beams
+	if (!isGp4(version)) {
+		const flags2 = r.readShort();
+		if (flags2 & 0x0800) {
+			r.readByte(); // break secondary beams
+		}
 	}
 
-	return { duration, dotted, tuplet, isRest: isRest || isEmpty, isEmpty, notes };
+	return { duration, dotted, tuplet, isRest: isRest || isEmpty, isEmpty, notes, tempoChange, mixChanges, chord, effects };
 }
 
-function readChord(r: GP5Reader, _version: GP5Version): void {
+/** Reads a beat's chord diagram. Frets, barre strings and fingers are stored per GP string, highest first. */
+function readChord(r: GP5Reader, numStrings: number): ParsedChord {
 	const header = r.readByte();
 	if (header === 0) {
 		// Old GP3 chord format: name + firstFret + (6 ints if firstFret != 0)
-		r.readIntByteSizeString();
+		const name = r.readIntByteSizeString();
 		const firstFret = r.readInt();
+		const frets: number[] = [];
 		if (firstFret !== 0) {
-			for (let i = 0; i < 6; i++) r.readInt();
+			for (let i = 0; i < 6; i++) frets.push(r.readInt());
 		}
-	} else {
-		// GP4+ format chord — large fixed structure
-		r.skip(16); // sharp(1) + blank(3) + root(1) + type(1) + extension(1) + bassNote(4) + tonality(4) + add(1)
-		r.readByteSizeString(22);
-		r.readByte(); // fifth
-		r.readByte(); // ninth
-		r.readByte(); // eleventh
-		for (let i = 0; i < 6; i++) r.readInt(); // frets
-		r.readByte(); // barreCount
-		r.skip(5); // barre frets
-		r.skip(5); // barre start strings
-		r.skip(5); // barre end strings
-		r.skip(7); // omissions
-		r.skip(1); // blank
-		r.skip(7); // fingering
-		r.readBool(); // show diagrams fingering
+		return {
+			name,
+			baseFret: Math.max(1, firstFret),
+			frets: fitToStrings(frets, numStrings),
+			barres: [],
+			fingering: fitToStrings([], numStrings)
+		};
 	}
+
+	// GP4+ format chord — large fixed structure
+	r.skip(16); // sharp(1) + blank(3) + root(1) + type(1) + extension(1) + bassNote(4) + tonality(4) + add(1)
+	const name = r.readByteSizeString(22);
+	r.readByte(); // fifth
+	r.readByte(); // ninth
+	r.readByte(); // eleventh
+	const firstFret = r.readInt();
+	const frets: number[] = [];
+	for (let i = 0; i < 7; i++) frets.push(r.readInt());
+
+	const barreCount = r.readByte();
+	const barreFrets = readBytes(r, 5);
+	const barreStarts = readBytes(r, 5);
+	const barreEnds = readBytes(r, 5);
+	r.skip(7); // omissions
+	r.skip(1); // blank
+	const fingering: number[] = [];
+	for (let i = 0; i < 7; i++) {
+		// -2 = unknown, -1 = open string: neither names a finger
+		fingering.push(Math.max(-1, r.readSignedByte()));
+	}
+	r.readBool(); // show diagrams fingering
+
+	const barres: TabChord['barres'] = [];
+	for (let i = 0; i < Math.min(barreCount, 5); i++) {
+		// Barre strings are 1-based GP string numbers
+		const first = Math.min(barreStarts[i], barreEnds[i]);
+		const last = Math.max(barreStarts[i], barreEnds[i]);
+		barres.push({
+			fret: barreFrets[i],
+			firstString: Math.min(numStrings - 1, Math.max(0, first - 1)),
+			lastString: Math.min(numStrings - 1, Math.max(0, last - 1))
+		});
+	}
+
+	return {
+		name,
+		baseFret: Math.max(1, firstFret),
+		frets: fitToStrings(frets, numStrings),
+		barres,
+		fingering: fitToStrings(fingering, numStrings)
+	};
+}
+
+function readBytes(r: GP5Reader, count: number): number[] {
+	const bytes: number[] = [];
+	for (let i = 0; i < count; i++) bytes.push(r.readByte());
+	return bytes;
+}
+
+/** Trims or pads per-string values to the track's string count; missing strings get -1. */
+function fitToStrings(values: number[], numStrings: number): number[] {
+	return Array.from({ length: numStrings }, (_, i) => values[i] ?? -1);
 }
 
-function readBeatEffects(r: GP5Reader, _version: GP5Version): void {
+/** Stroke speed byte → the duration the strum spreads over */
+const STROKE_DURATIONS: Record<number, Duration> = {
+	1: '128th',
+	2: '64th',
+	3: '32nd',
+	4: '16th',
+	5: 'eighth',
+	6: 'quarter'
+};
+
+const SLAP_POP: Record<number, SlapPop> = { 1: 'tap', 2: 'slap', 3: 'pop' };
+
+/** Pick stroke byte → direction (0 = none) */
+const PICK_STROKES: Record<number, StrokeDirection> = { 1: 'up', 2: 'down' };
+
+function readBeatEffects(r: GP5Reader, version: GP5Version): BeatEffects {
 	// GP4+ uses 2 bytes of flags
 	const flags1 = r.readByte();
 	const flags2 = r.readByte();
+	const effects: BeatEffects = { whammy: null, stroke: null, pickStroke: null, slapPop: null };
 
 	if (flags1 & 0x20) {
-		const slapEffect = r.readSignedByte();
-		if (slapEffect === 0) {
-			// Tremolo bar
-			readBend(r);
-		}
+		// Tap/slap/pop — GP4+ stores the tremolo bar separately
+		effects.slapPop = SLAP_POP[r.readSignedByte()] ?? null;
 	}
 
 	if (flags2 & 0x04) {
 		// Tremolo bar
-		readBend(r);
+		effects.whammy = bendPointsFromGp(readBend(r).points);
 	}
 
 	if (flags1 & 0x40) {
-		// Beat stroke
-		r.readByte(); // stroke down
-		r.readByte(); // stroke up
+		// Beat stroke: speed of a downward and of an upward strum, GP5 storing the upward one first
+		let down: number;
+		let up: number;
+		if (isGp4(version)) {
+			down = r.readByte();
+			up = r.readByte();
+		} else {
+			up = r.readByte();
+			down = r.readByte();
+		}
+		const speed = up > 0 ? up : down;
+		const duration = STROKE_DURATIONS[speed];
+		if (duration) effects.stroke = { direction: up > 0 ? 'up' : 'down', duration };
 	}
 
 	if (flags2 & 0x02) {
-		// Pick stroke
-		r.readSignedByte();
+		effects.pickStroke = PICK_STROKES[r.readSignedByte()] ?? null;
 	}
+
+	return effects;
 }
 
 function readBend(r: GP5Reader): { type: number; value: number; points: { position: number; value: number; vibrato: boolean }[] } {
@@ -713,8 +1069,12 @@ function readBend(r: GP5Reader): { type: number; value: number; points: { positi
 	return { type, value, points };
 }
 
-function readMixTableChange(r: GP5Reader, version: GP5Version): void {
-	r.readSignedByte(); // instrument
+function readMixTableChange(r: GP5Reader, version: GP5Version): MixTableChange {
+	if (isGp4(version)) {
+		return readGp4MixTableChange(r);
+	}
+
+	const instrument = r.readSignedByte();
 
 	// RSE instrument (GP5)
 	readRSEInstrument(r, version);
@@ -722,25 +1082,15 @@ function readMixTableChange(r: GP5Reader, version: GP5Version): void {
 		r.skip(1); // GP5.0 extra byte
 	}
 
-	const volume = r.readSignedByte();
-	const balance = r.readSignedByte();
-	const chorus = r.readSignedByte();
-	const reverb = r.readSignedByte();
-	const phaser = r.readSignedByte();
-	const tremolo = r.readSignedByte();
+	const levels = MIX_LEVELS.map(() => r.readSignedByte());
 
 	r.readIntByteSizeString(); // tempo name
 	const tempo = r.readInt();
 
-	// Durations for changed values
-	if (volume >= 0) r.readSignedByte();
-	if (balance >= 0) r.readSignedByte();
-	if (chorus >= 0) r.readSignedByte();
-	if (reverb >= 0) r.readSignedByte();
-	if (phaser >= 0) r.readSignedByte();
-	if (tremolo >= 0) r.readSignedByte();
+	const changes = readMixChanges(r, instrument, levels);
+	let tempoDuration = 0;
 	if (tempo >= 0) {
-		r.readSignedByte(); // duration
+		tempoDuration = r.readSignedByte();
 		if (versionGreaterThan(version, 5, 0, 0)) {
 			r.readBool(); // hide tempo
 		}
@@ -754,6 +1104,32 @@ function readMixTableChange(r: GP5Reader, version: GP5Version): void {
 
 	// RSE instrument effect (GP5.1+)
 	readRSEInstrumentEffect(r, version);
+
+	return { tempo, tempoDuration, changes };
+}
+
+/** GP4 mix table change: GP3 values and durations plus the "apply to all tracks" flags byte. */
+function readGp4MixTableChange(r: GP5Reader): MixTableChange {
+	const instrument = r.readSignedByte();
+	const levels = MIX_LEVELS.map(() => r.readSignedByte());
+	const tempo = r.readInt();
+
+	const changes = readMixChanges(r, instrument, levels);
+	const tempoDuration = tempo >= 0 ? r.readSignedByte() : 0;
+
+	// Mix table change flags
+	r.readByte();
+
+	return { tempo, tempoDuration, changes };
+}
+
+/** Lists the program and levels a mix table sets (-1 = unchanged), reading each changed level's duration. */
+function readMixChanges(r: GP5Reader, instrument: number, levels: number[]): MixChange[] {
+	const changes: MixChange[] = instrument >= 0 ? [{ type: 'program', value: instrument, duration: 0 }] : [];
+	MIX_LEVELS.forEach((type, i) => {
+		if (levels[i] >= 0) changes.push({ type, value: levels[i], duration: r.readSignedByte() });
+	});
+	return changes;
 }
 
 function readNote(r: GP5Reader, version: GP5Version): GP5ParsedNote {
@@ -770,9 +1146,15 @@ function readNote(r: GP5Reader, version: GP5Version): GP5ParsedNote {
 		isDead = noteType === 3;
 	}
 
-	let velocity = 8; // default mf
+	// GP4: time-independent duration (2 signed bytes, GP3 layout)
+	if (isGp4(version) && (flags & 0x01)) {
+		r.readSignedByte(); // duration
+		r.readSignedByte(); // tuplet
+	}
+
+	let dynamic = DEFAULT_DYNAMIC;
 	if (flags & 0x10) {
-		velocity = r.readSignedByte();
+		dynamic = dynamicFromGp(r.readSignedByte());
 	}
 
 	let fret = 0;
@@ -786,37 +1168,44 @@ function readNote(r: GP5Reader, version: GP5Version): GP5ParsedNote {
 		r.readSignedByte(); // right hand finger
 	}
 
-	if (flags & 0x01) {
-		r.readDouble(); // duration percent
-	}
+	let durationPercent = 1;
+	if (!isGp4(version)) {
+		if (flags & 0x01) {
+			durationPercent = r.readDouble();
+		}
 
-	// GP5: second flags byte
-	r.readByte();
+		// GP5: second flags byte
+		r.readByte();
+	}
 
 	// Note effects
 	let hammerOn = false;
 	let letRing = false;
 	let slide: number | null = null;
 	let harmonic: string | null = null;
+	let harmonicFret: number | null = null;
 	let palmMute = false;
 	let vibrato = false;
 	let bend: GP5ParsedNote['bend'] = null;
 	let staccato = false;
 	let trill: GP5ParsedNote['trill'] = null;
 	let tremoloPicking: number | null = null;
+	let graceNote: TabGraceNote | null = null;
 
 	if (flags & 0x08) {
-		const result = readNoteEffects(r, version);
+		const result = readNoteEffects(r, version, fret);
 		hammerOn = result.hammerOn;
 		letRing = result.letRing;
 		slide = result.slide;
 		harmonic = result.harmonic;
+		harmonicFret = result.harmonicFret;
 		palmMute = result.palmMute;
 		vibrato = result.vibrato;
 		bend = result.bend;
 		staccato = result.staccato;
 		trill = result.trill;
 		tremoloPicking = result.tremoloPicking;
+		graceNote = result.graceNote;
 	}
 
 	return {
@@ -824,11 +1213,14 @@ function readNote(r: GP5Reader, version: GP5Version): GP5ParsedNote {
 		fret,
 		isTied,
 		isDead,
-		velocity,
+		dynamic,
+		ghost: (flags & 0x04) !== 0,
+		durationPercent,
 		hammerOn,
 		letRing,
 		slide,
 		harmonic,
+		harmonicFret,
 		palmMute,
 		vibrato,
 		bend,
@@ -836,7 +1228,8 @@ function readNote(r: GP5Reader, version: GP5Version): GP5ParsedNote {
 		heavyAccent,
 		accent,
 		trill,
-		tremoloPicking
+		tremoloPicking,
+		graceNote
 	};
 }
 
@@ -845,15 +1238,17 @@ interface NoteEffectsResult {
 	letRing: boolean;
 	slide: number | null;
 	harmonic: string | null;
+	harmonicFret: number | null;
 	palmMute: boolean;
 	vibrato: boolean;
 	bend: GP5ParsedNote['bend'];
 	staccato: boolean;
 	trill: GP5ParsedNote['trill'];
 	tremoloPicking: number | null;
+	graceNote: TabGraceNote | null;
 }
 
-function readNoteEffects(r: GP5Reader, version: GP5Version): NoteEffectsResult {
+function readNoteEffects(r: GP5Reader, version: GP5Version, fret: number): NoteEffectsResult {
 	// GP4+ uses 2 bytes of flags
 	const flags1 = r.readByte();
 	const flags2 = r.readByte();
@@ -863,11 +1258,13 @@ function readNoteEffects(r: GP5Reader, version: GP5Version): NoteEffectsResult {
 	let letRing = false;
 	let slide: number | null = null;
 	let harmonic: string | null = null;
+	let harmonicFret: number | null = null;
 	let palmMute = false;
 	let vibrato = false;
 	let staccato = false;
 	let trill: GP5ParsedNote['trill'] = null;
 	let tremoloPicking: number | null = null;
+	let graceNote: TabGraceNote | null = null;
 
 	if (flags1 & 0x01) {
 		bend = readBend(r);
@@ -876,7 +1273,7 @@ function readNoteEffects(r: GP5Reader, version: GP5Version): NoteEffectsResult {
 	letRing = (flags1 & 0x08) !== 0;
 
 	if (flags1 & 0x10) {
-		readGraceNote(r, version);
+		graceNote = readGraceNote(r, version);
 	}
 
 	staccato = (flags2 & 0x01) !== 0;
@@ -887,11 +1284,21 @@ function readNoteEffects(r: GP5Reader, version: GP5Version): NoteEffectsResult {
 	}
 
 	if (flags2 & 0x08) {
-		// GP5 slides: byte with flags
-		slide = r.readByte();
+		if (isGp4(version)) {
+			// GP4 slides: a single signed slide type
+			slide = GP4_SLIDE_FLAGS[r.readSignedByte()] ?? null;
+		} else {
+			// GP5 slides: byte with flags
+			slide = r.readByte();
+		}
 	}
 
-	if (flags2 & 0x10) {
+	if (flags2 & 0x10 && isGp4(version)) {
+		// GP4 harmonics: type only, no extra data
+		const harmonicType = r.readSignedByte();
+		harmonic = GP4_HARMONIC_TYPE_MAP[harmonicType] ?? null;
+		harmonicFret = GP4_ARTIFICIAL_HARMONIC_FRETS[harmonicType] ?? null;
+	} else if (flags2 & 0x10) {
 		const harmonicType = r.readSignedByte();
 		harmonic = HARMONIC_TYPE_MAP[harmonicType] ?? null;
 		if (harmonicType === 2) {
@@ -900,7 +1307,7 @@ function readNoteEffects(r: GP5Reader, version: GP5Version): NoteEffectsResult {
 			r.readSignedByte(); // accidental
 			r.readByte(); // octave
 		} else if (harmonicType === 3) {
-			r.readByte(); // fret
+			harmonicFret = r.readByte() - fret; // tapped fret
 		}
 	}
 
@@ -912,105 +1319,214 @@ function readNoteEffects(r: GP5Reader, version: GP5Version): NoteEffectsResult {
 
 	vibrato = (flags2 & 0x40) !== 0;
 
-	return { hammerOn, letRing, slide, harmonic, palmMute, vibrato, bend, staccato, trill, tremoloPicking };
+	return { hammerOn, letRing, slide, harmonic, harmonicFret, palmMute, vibrato, bend, staccato, trill, tremoloPicking, graceNote };
 }
 
-function readGraceNote(r: GP5Reader, version: GP5Version): void {
-	r.readByte(); // fret
+/** Trill period byte → duration of each alternation */
+const TRILL_SPEEDS: Record<number, Duration> = { 1: '16th', 2: '32nd', 3: '64th' };
+
+/** Tremolo picking byte → duration of each stroke */
+const TREMOLO_SPEEDS: Record<number, Duration> = { 1: 'eighth', 2: '16th', 3: '32nd' };
+
+/** Grace note transition byte → transition type */
+const GRACE_TRANSITIONS: GraceNoteTransition[] = ['none', 'slide', 'bend', 'hammer'];
+
+/** Grace note duration byte → rhythm (2 is the "24th", a sixteenth triplet) */
+const GRACE_DURATIONS: Record<number, Pick<TabGraceNote, 'duration' | 'tuplet'>> = {
+	1: { duration: '32nd', tuplet: null },
+	2: { duration: '16th', tuplet: { num: 3, den: 2 } },
+	3: { duration: '16th', tuplet: null }
+};
+
+function readGraceNote(r: GP5Reader, version: GP5Version): TabGraceNote {
+	const fret = r.readSignedByte();
 	r.readByte(); // velocity
-	r.readByte(); // transition
-	r.readByte(); // duration
-	if (versionGreaterThan(version, 5, 0, 0)) {
-		r.readByte(); // flags (dead, on beat)
-	} else {
-		r.readByte();
+	const transition = GRACE_TRANSITIONS[r.readByte()] ?? 'none';
+	const rhythm = GRACE_DURATIONS[r.readByte()] ?? GRACE_DURATIONS[3];
+	if (isGp4(version)) {
+		// GP4 grace notes are always played before the beat; fret -1 marks a dead note
+		return { fret: Math.max(0, fret), ...rhythm, transition, onBeat: false, dead: fret < 0 };
 	}
+	const flags = r.readByte();
+	return { fret: Math.max(0, fret), ...rhythm, transition, onBeat: (flags & 0x02) !== 0, dead: (flags & 0x01) !== 0 };
 }
 
 // ---------------------------------------------------------------------------
 // Transform parsed GP5 data → TabSong
 // ---------------------------------------------------------------------------
 
+/** Collects a track's mix table program and level changes as automations, levels on the MIDI scale. */
+function collectAutomations(measureHeaders: MeasureHeader[], trackMeasures: GP5ParsedBeat[][][]): TabAutomation[] {
+	const automations: TabAutomation[] = [];
+
+	for (let mIdx = 0; mIdx < measureHeaders.length; mIdx++) {
+		for (const voice of trackMeasures[mIdx] ?? []) {
+			let offset = 0;
+			for (const beat of voice) {
+				for (const change of beat.mixChanges) {
+					automations.push({
+						type: change.type,
+						value: change.type === 'program' ? change.value : midiLevelFromGp(change.value),
+						barIndex: mIdx,
+						position: offset,
+						transition: Math.max(0, change.duration)
+					});
+				}
+				offset += durationToBeats(beat.duration, beat.dotted ? 1 : 0, beat.tuplet);
+			}
+		}
+	}
+
+	return automations.sort((a, b) => a.barIndex - b.barIndex || a.position - b.position);
+}
+
+/** Builds a track's MIDI output from its header, its entry in the 64-channel table and its mix table changes. */
+function trackMidi(th: TrackHeader, channels: MidiChannel[], automations: TabAutomation[]): TabMidi {
+	const ch = channels[th.channelIndex];
+	const program = ch ? Math.max(0, ch.instrument) : 0;
+	const channel = th.isPercussion ? 9 : Math.max(0, th.channelIndex) % 16;
+	return {
+		program,
+		programName: gmProgramName(program, th.isPercussion),
+		bank: th.bank,
+		port: Math.max(0, th.port - 1),
+		channel,
+		effectChannel: th.effectChannel >= 0 ? th.effectChannel % 16 : channel,
+		volume: midiLevelFromGp(ch?.volume ?? 13),
+		pan: midiLevelFromGp(ch?.balance ?? 8),
+		chorus: midiLevelFromGp(ch?.chorus ?? 0),
+		reverb: midiLevelFromGp(ch?.reverb ?? 0),
+		phaser: midiLevelFromGp(ch?.phaser ?? 0),
+		tremolo: midiLevelFromGp(ch?.tremolo ?? 0),
+		automations
+	};
+}
+
+/** Returns the id of an identical chord already collected, or adds the chord with the next id. */
+function internChord(chords: TabChord[], chord: ParsedChord): string {
+	const shape = (c: ParsedChord): string => JSON.stringify([c.name, c.baseFret, c.frets, c.barres, c.fingering]);
+	const existing = chords.find((c) => shape(c) === shape(chord));
+	if (existing) return existing.id;
+	const id = String(chords.length);
+	chords.push({ id, ...chord });
+	return id;
+}
+
+/** Drops trailing voices that hold no beats; voice 1 is always kept. */
+function trimEmptyVoices(voices: TabBeat[][]): void {
+	while (voices.length > 1 && voices[voices.length - 1].length === 0) {
+		voices.pop();
+	}
+}
+
+/** Expands an alternate ending bitmask into 1-based ending numbers. */
+function alternateEndingNumbers(mask: number): number[] {
+	const endings: number[] = [];
+	for (let bit = 0; bit < 8; bit++) {
+		if (mask & (1 << bit)) endings.push(bit + 1);
+	}
+	return endings;
+}
+
 function transformToTabSong(
-	info: { title: string; subtitle: string; artist: string; album: string },
+	info: ScoreInfo,
 	tempo: number,
 	measureHeaders: MeasureHeader[],
 	trackHeaders: TrackHeader[],
-	parsedMeasures: GP5ParsedBeat[][][],
-	channels: MidiChannel[]
+	parsedMeasures: GP5ParsedBeat[][][][],
+	channels: MidiChannel[],
+	directions: Map<number, BarDirections>,
+	lyrics: Lyrics
 ): TabSong {
+	const tempoPoints = tempoPointsFromChanges(tempo, collectTempoChanges(measureHeaders, parsedMeasures));
+
 	const tracks: TabTrack[] = trackHeaders.map((th, trackIdx) => {
 		const tuningPitches = th.tuning;
-		const tuning: Note[] = tuningPitches
-			.map((midi) => noteFromPitchClass(midiToPitchClass(midi)));
 
-		let globalBeatIndex = 0;
+		// Beat indices run per voice so voice 1 keeps its sequential numbering
+		const voiceBeatIndex: number[] = [];
 		const bars: TabBar[] = [];
+		const chords: TabChord[] = [];
 
 		for (let mIdx = 0; mIdx < measureHeaders.length; mIdx++) {
 			const mh = measureHeaders[mIdx];
-			const beatsData = parsedMeasures[trackIdx]?.[mIdx] ?? [];
-
-			const tabBeats: TabBeat[] = [];
-
-			for (const beatData of beatsData) {
-				if (beatData.isEmpty) continue;
-
-				const stringCount = th.numStrings;
-				const tabNotes: TabNote[] = [];
-
-				for (const noteData of beatData.notes) {
-					const tuningIndex = noteData.string; // 0-based, 0 = highest pitch string (matches GP tuning array order)
-					const stringIdx = tuningIndex; // display order: 0 = highest pitch string
-					const fret = noteData.fret;
-					const openPitch = tuningPitches[tuningIndex] ?? 0;
-					const pc = (((openPitch + th.capoFret + fret) % 12 + 12) % 12) as PitchClass;
-					const note = noteFromPitchClass(pc, false);
-
-					let bendResult: TabNote['bend'] = null;
-					if (noteData.bend) {
-						const points = noteData.bend.points;
-						const origin = points.length > 0 ? points[0].value / 100 : 0;
-						const destination = points.length > 1 ? points[points.length - 1].value / 100 : 0;
-						const middle = points.length > 2 ? points[Math.floor(points.length / 2)].value / 100 : 0;
-						bendResult = { origin, destination, middle };
+			const voicesData = parsedMeasures[trackIdx]?.[mIdx] ?? [[]];
+
+			const voices: TabBeat[][] = [];
+			for (let vIdx = 0; vIdx < voicesData.length; vIdx++) {
+				if (voiceBeatIndex[vIdx] === undefined) voiceBeatIndex[vIdx] = 0;
+				const tabBeats: TabBeat[] = [];
+
+				for (const beatData of voicesData[vIdx]) {
+					if (beatData.isEmpty) continue;
+
+					const stringCount = th.numStrings;
+					const tabNotes: TabNote[] = [];
+
+					for (const noteData of beatData.notes) {
+						const tuningIndex = noteData.string; // 0-based, 0 = highest pitch string (matches GP tuning array order)
+						const stringIdx = tuningIndex; // display order: 0 = highest pitch string
+						const fret = noteData.fret;
+						const openPitch = tuningPitches[tuningIndex] ?? 0;
+						const midi = soundingMidi(openPitch, th.capoFret, fret, noteData.harmonic, noteData.harmonicFret);
+						const pitch = noteFromMidi(midi);
+
+						tabNotes.push({
+							string: stringIdx,
+							fret,
+							pitchClass: pitch.pitchClass,
+							noteName: pitch.name,
+							midi,
+							pitch,
+							slide: noteData.slide,
+							harmonic: noteData.harmonic,
+							palmMute: noteData.palmMute,
+							muted: noteData.isDead,
+							letRing: noteData.letRing,
+							bend: noteData.bend ? bendFromGp(noteData.bend) : null,
+							tie: {
+								origin: false, // Set by resolveNoteLinks
+								destination: noteData.isTied
+							},
+							vibrato: noteData.vibrato ? 'slight' : null,
+							hammerOn: noteData.hammerOn,
+							pullOff: false, // One legato flag for both directions, resolved by resolveNoteLinks
+							tapped: false,
+							accent: noteData.accent ? 1 : noteData.heavyAccent ? 2 : null,
+							graceNote: noteData.graceNote,
+							staccato: noteData.staccato,
+							trill: noteData.trill
+								? { fret: noteData.trill.fret, speed: TRILL_SPEEDS[noteData.trill.period] ?? '16th' }
+								: null,
+							tremoloPicking: noteData.tremoloPicking !== null ? TREMOLO_SPEEDS[noteData.tremoloPicking] ?? null : null,
+							ornament: null,
+							drum: null,
+							dynamic: noteData.dynamic,
+							velocity: noteVelocity(noteData.dynamic, noteData.accent ? 1 : noteData.heavyAccent ? 2 : null, noteData.ghost),
+							ghost: noteData.ghost,
+							soundingLength: soundingLength(noteData.durationPercent, noteData.staccato)
+						});
 					}
 
-					tabNotes.push({
-						string: stringIdx,
-						fret,
-						pitchClass: pc,
-						noteName: note.name,
-						slide: noteData.slide,
-						harmonic: noteData.harmonic,
-						palmMute: noteData.palmMute,
-						muted: noteData.isDead,
-						letRing: noteData.letRing,
-						bend: bendResult,
-						tie: {
-							origin: false,
-							destination: noteData.isTied
-						},
-						vibrato: noteData.vibrato ? 'slight' : null,
-						hammerOn: noteData.hammerOn,
-						pullOff: false, // GP5 uses hammerOn for both — context determines direction
-						tapped: false,
-						accent: noteData.accent ? 1 : noteData.heavyAccent ? 2 : null
+					tabBeats.push({
+						index: voiceBeatIndex[vIdx]++,
+						voice: vIdx,
+						barIndex: mIdx,
+						notes: tabNotes,
+						duration: beatData.duration,
+						tuplet: beatData.tuplet,
+						dotted: beatData.dotted ? 1 : 0,
+						isRest: beatData.isRest && tabNotes.length === 0,
+						// Legacy formats mark dynamics per note
+						dynamic: tabNotes[0]?.dynamic ?? null,
+						tempo,
+						chordId: beatData.chord ? internChord(chords, beatData.chord) : null,
+						...beatData.effects
 					});
 				}
-
-				tabBeats.push({
-					index: globalBeatIndex++,
-					barIndex: mIdx,
-					notes: tabNotes,
-					duration: beatData.duration,
-					tuplet: beatData.tuplet,
-					dotted: beatData.dotted ? 1 : 0,
-					isRest: beatData.isRest && tabNotes.length === 0,
-					dynamic: null,
-					tempo
-				});
+				voices.push(tabBeats);
 			}
+			trimEmptyVoices(voices);
 
 			const section = mh.marker
 				? { text: mh.marker.name }
@@ -1022,44 +1538,57 @@ function transformToTabSong(
 				keySignature: mh.keySignature !== 0
 					? { accidentalCount: mh.keySignature, mode: mh.keyMode === 1 ? 'minor' : 'major' }
 					: null,
+				tripletFeel: mh.tripletFeel,
 				section,
-				beats: tabBeats,
+				beats: voices[0],
+				voices,
 				repeatStart: mh.repeatOpen,
 				repeatEnd: mh.repeatClose >= 0,
-				repeatCount: mh.repeatClose >= 0 ? mh.repeatClose : 0
+				// repeatClose counts jumps back; TabBar counts total plays
+				repeatCount: mh.repeatClose >= 0 ? mh.repeatClose + 1 : 0,
+				alternateEndings: alternateEndingNumbers(mh.repeatAlternative),
+				directions: directions.get(mIdx) ?? null
 			});
 		}
 
-		const ch = channels[th.channelIndex];
-		const instrumentName = ch ? `MIDI ${ch.instrument}` : null;
+		applyTempoPoints(bars, tempoPoints, tempo);
+		resolveNoteLinks(bars);
+		// Percussion tracks store the GM drum key as the fret
+		if (th.isPercussion) resolveDrumHits(bars, (note) => note.fret);
+		spellFromKeySignatures(bars);
+
+		const midi = trackMidi(th, channels, collectAutomations(measureHeaders, parsedMeasures[trackIdx] ?? []));
 
 		return {
 			id: String(trackIdx),
 			name: th.name,
 			shortName: th.name.substring(0, 4),
-			instrument: instrumentName,
-			tuning,
+			instrument: channels[th.channelIndex] ? midi.programName : null,
+			kind: th.isPercussion ? 'percussion' : 'stringed',
+			midi,
+			tuning: spellTuning(tuningPitches, bars),
 			tuningMidi: [...tuningPitches],
 			capoFret: th.capoFret,
-			bars
+			bars,
+			chords,
+			lyrics: trackIdx === lyrics.trackIndex
+				? lyrics.lines.map((line) => alignLyricLine(bars, line.startBar, line.text))
+				: []
 		};
 	});
 
-	return {
-		title: info.title || info.subtitle || '',
-		artist: info.artist,
-		album: info.album,
-		tempo,
-		tracks
-	};
+	return { ...info, tempo, tracks };
 }
 
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
-/** Parses a Guitar Pro 5 (.gp5) file from raw bytes into a TabSong. */
-export function parseGp5File(data: Uint8Array): TabSong {
+/**
+ * Reads a GP4 or GP5 file body. Both share the sequential layout; GP5 adds the
+ * RSE master effect, page setup, tempo name and musical directions blocks.
+ */
+function parseLegacyFile(data: Uint8Array, expectedMajor: 4 | 5): TabSong {
 	const buf = new ArrayBuffer(data.byteLength);
 	new Uint8Array(buf).set(data);
 	const r = new GP5Reader(buf);
@@ -1068,51 +1597,68 @@ export function parseGp5File(data: Uint8Array): TabSong {
 	const versionStr = r.readByteSizeString(30);
 	const version = parseVersionString(versionStr);
 
-	// Validate it's a GP5 file
-	if (version.major !== 5) {
-		throw new Error(`Unsupported Guitar Pro version: ${versionStr} (expected GP5)`);
+	// Validate it's the expected major version
+	if (version.major !== expectedMajor) {
+		throw new Error(`Unsupported Guitar Pro version: ${versionStr} (expected GP${expectedMajor})`);
 	}
 
 	// Score information
-	const info = readInfo(r);
+	const info = readInfo(r, version);
+
+	// Triplet feel (GP4: global bool, per-measure in GP5)
+	let tripletFeel: TripletFeel = 'none';
+	if (isGp4(version)) {
+		tripletFeel = r.readBool() ? 'triplet8th' : 'none';
+	}
 
 	// Lyrics
-	readLyrics(r);
+	const lyrics = readLyrics(r);
+
+	let tempo: number;
+	if (isGp4(version)) {
+		// Tempo + key signature + octave
+		tempo = r.readInt();
+		r.readInt(); // key
+		r.readSignedByte(); // octave
+	} else {
+		// RSE master effect
+		readRSEMasterEffect(r, version);
 
-	// RSE master effect
-	readRSEMasterEffect(r, version);
+		// Page setup
+		readPageSetup(r);
 
-	// Page setup
-	readPageSetup(r);
+		// Tempo
+		r.readIntByteSizeString(); // tempo name
+		tempo = r.readInt();
 
-	// Tempo
-	r.readIntByteSizeString(); // tempo name
-	const tempo = r.readInt();
+		// Hide tempo (GP5.1+)
+		if (versionGreaterThan(version, 5, 0, 0)) {
+			r.readBool();
+		}
 
-	// Hide tempo (GP5.1+)
-	if (versionGreaterThan(version, 5, 0, 0)) {
-		r.readBool();
+		// Key signature + octave
+		r.readSignedByte(); // key
+		r.readInt(); // octave
 	}
 
-	// Key signature + octave
-	r.readSignedByte(); // key
-	r.readInt(); // octave
-
 	// MIDI channels
 	const channels = readMidiChannels(r);
 
-	// Directions (GP5)
-	readDirections(r);
+	let directions = new Map<number, BarDirections>();
+	if (!isGp4(version)) {
+		// Directions (GP5)
+		directions = readDirections(r);
 
-	// Master reverb
-	r.readInt();
+		// Master reverb
+		r.readInt();
+	}
 
 	// Measure count + track count
 	const measureCount = r.readInt();
 	const trackCount = r.readInt();
 
 	// Measure headers
-	const measureHeaders = readMeasureHeaders(r, measureCount, version);
+	const measureHeaders = readMeasureHeaders(r, measureCount, version, tripletFeel);
 
 	// Tracks
 	const trackHeaders = readTrackHeaders(r, trackCount, version);
@@ -1120,5 +1666,15 @@ export function parseGp5File(data: Uint8Array): TabSong {
 	// Measures (the actual beat/note data)
 	const parsedMeasures = readMeasures(r, measureCount, trackHeaders, version);
 
-	return transformToTabSong(info, tempo, measureHeaders, trackHeaders, parsedMeasures, channels);
+	return transformToTabSong(info, tempo, measureHeaders, trackHeaders, parsedMeasures, channels, directions, lyrics);
+}
+
+/** Parses a Guitar Pro 5 (.gp5) file from raw bytes into a TabSong. */
+export function parseGp5File(data: Uint8Array): TabSong {
+	return parseLegacyFile(data, 5);
+}
+
+/** Parses a Guitar Pro 4 (.gp4) file from raw bytes into a TabSong. */
+export function parseGp4File(data: Uint8Array): TabSong {
+	return parseLegacyFile(data, 4);
 }
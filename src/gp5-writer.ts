@@ -0,0 +1,866 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * GP5 writer : serializes a TabSong into a Guitar Pro 5.10 (.gp5) file.
+ * Pure, zero native dependencies.
+ *
+ * Pipeline: TabSong → sequential binary write → Uint8Array
+ *
+ * Mirrors the GP5 branch of gp5-parser.ts block by block, so the output reads
+ * back through parseGp5File. Chord diagrams come from TabTrack.chords; data
+ * the TabSong model does not carry (RSE settings, page setup) is written with
+ * Guitar Pro's defaults.
+ */
+
+import type {
+	Duration,
+	TabNote,
+	TabBeat,
+	TabBar,
+	TabTrack,
+	TabSong,
+	TabChord,
+	TabMidi,
+	TabAutomation,
+	AutomationType,
+	TabGraceNote,
+	GraceNoteTransition,
+	TabBend,
+	TabBendPoint,
+	BendKind,
+	SlapPop,
+	DirectionTarget,
+	DirectionJump,
+	TripletFeel
+} from './types.js';
+import { durationToBeats } from './timing.js';
+import { gpLevelFromMidi } from './instruments.js';
+import { DEFAULT_DYNAMIC, gpDynamicCode, soundingLength } from './dynamics.js';
+
+// ---------------------------------------------------------------------------
+// Binary writer — sequential LE writer, the mirror of GP5Reader
+// ---------------------------------------------------------------------------
+
+class GP5Writer {
+	private buf: Uint8Array;
+	private view: DataView;
+	private pos = 0;
+
+	constructor(initialSize = 64 * 1024) {
+		this.buf = new Uint8Array(initialSize);
+		this.view = new DataView(this.buf.buffer);
+	}
+
+	private ensure(n: number): void {
+		if (this.pos + n <= this.buf.length) return;
+		let size = this.buf.length * 2;
+		while (size < this.pos + n) size *= 2;
+		const grown = new Uint8Array(size);
+		grown.set(this.buf);
+		this.buf = grown;
+		this.view = new DataView(grown.buffer);
+	}
+
+	skip(n: number): void {
+		for (let i = 0; i < n; i++) this.writeByte(0);
+	}
+
+	writeByte(v: number): void {
+		this.ensure(1);
+		this.buf[this.pos++] = v & 0xff;
+	}
+
+	writeSignedByte(v: number): void {
+		this.ensure(1);
+		this.view.setInt8(this.pos, v);
+		this.pos += 1;
+	}
+
+	writeBool(v: boolean): void {
+		this.writeByte(v ? 1 : 0);
+	}
+
+	writeShort(v: number): void {
+		this.ensure(2);
+		this.view.setInt16(this.pos, v, true);
+		this.pos += 2;
+	}
+
+	writeInt(v: number): void {
+		this.ensure(4);
+		this.view.setInt32(this.pos, v, true);
+		this.pos += 4;
+	}
+
+	writeDouble(v: number): void {
+		this.ensure(8);
+		this.view.setFloat64(this.pos, v, true);
+		this.pos += 8;
+	}
+
+	/** Writes IntByteSizeString: int(strLen+1) + byte(strLen) + chars. */
+	writeIntByteSizeString(s: string): void {
+		const chars = encodeChars(s, 255);
+		this.writeInt(chars.length + 1);
+		this.writeByte(chars.length);
+		this.writeChars(chars);
+	}
+
+	/** Writes IntSizeString: int(len) + chars. */
+	writeIntString(s: string): void {
+		const chars = encodeChars(s);
+		this.writeInt(chars.length);
+		this.writeChars(chars);
+	}
+
+	/** Writes ByteSizeString padded to a fixed buffer length. */
+	writeByteSizeString(s: string, fixedLen: number): void {
+		const chars = encodeChars(s, fixedLen);
+		this.writeByte(chars.length);
+		this.writeChars(chars);
+		this.skip(fixedLen - chars.length);
+	}
+
+	private writeChars(chars: number[]): void {
+		for (const c of chars) this.writeByte(c);
+	}
+
+	toUint8Array(): Uint8Array {
+		return this.buf.slice(0, this.pos);
+	}
+}
+
+/** GP strings are single-byte; characters outside Latin-1 become '?'. */
+function encodeChars(s: string, maxLength = Infinity): number[] {
+	const chars: number[] = [];
+	for (let i = 0; i < s.length && chars.length < maxLength; i++) {
+		const code = s.charCodeAt(i);
+		chars.push(code < 256 ? code : 0x3f);
+	}
+	return chars;
+}
+
+// ---------------------------------------------------------------------------
+// Value mappings (inverse of the parser tables)
+// ---------------------------------------------------------------------------
+
+const GP_DURATION_VALUES: Record<Duration, number> = {
+	whole: -2,
+	half: -1,
+	quarter: 0,
+	eighth: 1,
+	'16th': 2,
+	'32nd': 3,
+	'64th': 4,
+	'128th': 5
+};
+
+/** Tuplets GP5 can store, keyed by their "n notes" value */
+const TUPLET_VALUES = new Set([3, 5, 6, 7, 9, 10, 11, 12, 13]);
+
+const HARMONIC_TYPE_VALUES: Record<string, number> = {
+	Natural: 1,
+	Artificial: 2,
+	Tapped: 3,
+	Pinch: 4,
+	Semi: 5
+};
+
+/** Note bend type bytes; kinds without one are written untyped and recognized from their points */
+const GP_BEND_TYPES: Record<BendKind, number> = {
+	bend: 1,
+	bendRelease: 2,
+	bendReleaseBend: 3,
+	preBend: 4,
+	preBendRelease: 5,
+	preBendBend: 0,
+	custom: 0
+};
+
+/** Stroke speed bytes, keyed by the duration the strum spreads over */
+const STROKE_SPEEDS: Partial<Record<Duration, number>> = {
+	'128th': 1,
+	'64th': 2,
+	'32nd': 3,
+	'16th': 4,
+	eighth: 5,
+	quarter: 6
+};
+
+/** Tremolo picking bytes, keyed by the duration of each stroke */
+const TREMOLO_SPEEDS: Partial<Record<Duration, number>> = { eighth: 1, '16th': 2, '32nd': 3 };
+
+/** Trill period bytes, keyed by the duration of each alternation */
+const TRILL_PERIODS: Partial<Record<Duration, number>> = { '16th': 1, '32nd': 2, '64th': 3 };
+
+const SLAP_POP_VALUES: Record<SlapPop, number> = { tap: 1, slap: 2, pop: 3 };
+
+/** Per-measure triplet feel bytes; GP5 has no dotted or Scottish feels, which are written straight */
+const TRIPLET_FEEL_VALUES: Partial<Record<TripletFeel, number>> = { triplet8th: 1, triplet16th: 2 };
+
+const GRACE_TRANSITION_VALUES: Record<GraceNoteTransition, number> = {
+	none: 0,
+	slide: 1,
+	bend: 2,
+	hammer: 3
+};
+
+/** Grace note dynamic byte (6 = forte, the Guitar Pro default) */
+const GRACE_VELOCITY = 6;
+
+/** Order of the 19 direction slots in the GP5 header */
+const GP5_DIRECTION_SLOTS: Array<{ target: DirectionTarget } | { jump: DirectionJump }> = [
+	{ target: 'Coda' },
+	{ target: 'DoubleCoda' },
+	{ target: 'Segno' },
+	{ target: 'SegnoSegno' },
+	{ target: 'Fine' },
+	{ jump: 'DaCapo' },
+	{ jump: 'DaCapoAlCoda' },
+	{ jump: 'DaCapoAlDoubleCoda' },
+	{ jump: 'DaCapoAlFine' },
+	{ jump: 'DaSegno' },
+	{ jump: 'DaSegnoAlCoda' },
+	{ jump: 'DaSegnoAlDoubleCoda' },
+	{ jump: 'DaSegnoAlFine' },
+	{ jump: 'DaSegnoSegno' },
+	{ jump: 'DaSegnoSegnoAlCoda' },
+	{ jump: 'DaSegnoSegnoAlDoubleCoda' },
+	{ jump: 'DaSegnoSegnoAlFine' },
+	{ jump: 'DaCoda' },
+	{ jump: 'DaDoubleCoda' }
+];
+
+const PAGE_TEMPLATES = [
+	'%TITLE%',
+	'%SUBTITLE%',
+	'%ARTIST%',
+	'%ALBUM%',
+	'Words by %WORDS%',
+	'Music by %MUSIC%',
+	'Words & Music by %WORDSMUSIC%',
+	'Copyright %COPYRIGHT%',
+	'All Rights Reserved - International Copyright Secured',
+	'Page %N%/%P%'
+];
+
+const DEFAULT_PROGRAM = 25;
+const PERCUSSION_CHANNEL = 9;
+
+/** Mixer levels in mix table order */
+const MIX_LEVELS: AutomationType[] = ['volume', 'pan', 'chorus', 'reverb', 'phaser', 'tremolo'];
+
+// ---------------------------------------------------------------------------
+// MIDI channel table
+// ---------------------------------------------------------------------------
+
+/** Index of a port's channel in the 64-entry table (port 0 = entries 0..15) */
+function channelSlot(midi: TabMidi, channel: number): number {
+	return Math.max(0, Math.min(63, midi.port * 16 + channel));
+}
+
+// ---------------------------------------------------------------------------
+// Write helpers — individual GP binary sections
+// ---------------------------------------------------------------------------
+
+function writeInfo(w: GP5Writer, song: TabSong): void {
+	w.writeIntByteSizeString(song.title);
+	w.writeIntByteSizeString(song.subtitle);
+	w.writeIntByteSizeString(song.artist);
+	w.writeIntByteSizeString(song.album);
+	w.writeIntByteSizeString(song.words);
+	w.writeIntByteSizeString(song.music);
+	w.writeIntByteSizeString(song.copyright);
+	w.writeIntByteSizeString(song.tabber);
+	w.writeIntByteSizeString(song.instructions);
+	w.writeInt(song.notices.length);
+	for (const notice of song.notices) w.writeIntByteSizeString(notice);
+}
+
+/** Writes the first track carrying lyrics; GP5 holds five lines for a single track. */
+function writeLyrics(w: GP5Writer, song: TabSong): void {
+	const trackIdx = song.tracks.findIndex((track) => track.lyrics.length > 0);
+	const lines = trackIdx >= 0 ? song.tracks[trackIdx].lyrics : [];
+
+	// Track and start bars are stored 1-based
+	w.writeInt(trackIdx + 1);
+	for (let i = 0; i < 5; i++) {
+		w.writeInt((lines[i]?.startBar ?? 0) + 1);
+		w.writeIntString(lines[i]?.text ?? '');
+	}
+}
+
+function writeRSEMasterEffect(w: GP5Writer): void {
+	w.writeInt(100); // master volume
+	w.writeInt(0); // unknown
+	w.skip(11); // equalizer
+}
+
+function writePageSetup(w: GP5Writer): void {
+	w.writeInt(210); // width
+	w.writeInt(297); // height
+	w.writeInt(10); // margin left
+	w.writeInt(10); // margin right
+	w.writeInt(15); // margin top
+	w.writeInt(10); // margin bottom
+	w.writeInt(100); // score size proportion
+	w.writeShort(0x01ff); // header/footer flags (all shown)
+	for (const template of PAGE_TEMPLATES) {
+		w.writeIntByteSizeString(template);
+	}
+}
+
+/** Writes the 64-entry channel table; the channels tracks play on carry their program and levels. */
+function writeMidiChannels(w: GP5Writer, tracks: TabTrack[]): void {
+	const entries = new Array<TabMidi | null>(64).fill(null);
+	for (const track of tracks) {
+		entries[channelSlot(track.midi, track.midi.effectChannel)] = track.midi;
+		entries[channelSlot(track.midi, track.midi.channel)] = track.midi;
+	}
+
+	for (let i = 0; i < 64; i++) {
+		const midi = entries[i];
+		w.writeInt(midi ? midi.program : i % 16 === PERCUSSION_CHANNEL ? 0 : DEFAULT_PROGRAM);
+		w.writeByte(midi ? gpLevelFromMidi(midi.volume) : 13); // volume (GP scale 0-16 ≈ MIDI 103)
+		w.writeByte(midi ? gpLevelFromMidi(midi.pan) : 8); // balance (centre)
+		w.writeByte(midi ? gpLevelFromMidi(midi.chorus) : 0);
+		w.writeByte(midi ? gpLevelFromMidi(midi.reverb) : 0);
+		w.writeByte(midi ? gpLevelFromMidi(midi.phaser) : 0);
+		w.writeByte(midi ? gpLevelFromMidi(midi.tremolo) : 0);
+		w.skip(2); // padding
+	}
+}
+
+function writeDirections(w: GP5Writer, bars: TabBar[]): void {
+	for (const slot of GP5_DIRECTION_SLOTS) {
+		const barIdx = bars.findIndex((bar) => {
+			if (!bar.directions) return false;
+			return 'target' in slot
+				? bar.directions.targets.includes(slot.target)
+				: bar.directions.jumps.includes(slot.jump);
+		});
+		w.writeShort(barIdx >= 0 ? barIdx + 1 : -1);
+	}
+}
+
+function writeMeasureHeaders(w: GP5Writer, bars: TabBar[]): void {
+	let prevNumerator = -1;
+	let prevDenominator = -1;
+
+	bars.forEach((bar, i) => {
+		if (i > 0) {
+			w.skip(1); // blank byte before each header except first
+		}
+
+		const { numerator, denominator } = bar.timeSignature;
+		let flags = 0;
+		if (numerator !== prevNumerator) flags |= 0x01;
+		if (denominator !== prevDenominator) flags |= 0x02;
+		if (bar.repeatStart) flags |= 0x04;
+		if (bar.repeatEnd) flags |= 0x08;
+		if (bar.alternateEndings.length > 0) flags |= 0x10;
+		if (bar.section) flags |= 0x20;
+		if (bar.keySignature) flags |= 0x40;
+		w.writeByte(flags);
+
+		if (flags & 0x01) w.writeSignedByte(numerator);
+		if (flags & 0x02) w.writeSignedByte(denominator);
+		if (flags & 0x08) {
+			// GP5 stores the total play count (the parser subtracts one for jumps back)
+			w.writeSignedByte(bar.repeatCount);
+		}
+
+		if (flags & 0x20) {
+			w.writeIntByteSizeString(bar.section?.text ?? bar.section?.letter ?? '');
+			w.writeByte(255); // color r
+			w.writeByte(0); // color g
+			w.writeByte(0); // color b
+			w.skip(1); // padding
+		}
+
+		if (flags & 0x40) {
+			w.writeSignedByte(bar.keySignature?.accidentalCount ?? 0);
+			w.writeSignedByte(bar.keySignature?.mode === 'minor' ? 1 : 0);
+		}
+
+		if (flags & 0x10) {
+			let mask = 0;
+			for (const ending of bar.alternateEndings) {
+				if (ending >= 1 && ending <= 8) mask |= 1 << (ending - 1);
+			}
+			w.writeByte(mask);
+		}
+
+		if (flags & 0x03) {
+			w.writeByte(2); // beam groups
+			w.writeByte(2);
+			w.writeByte(2);
+			w.writeByte(2);
+		}
+
+		if (!(flags & 0x10)) {
+			w.skip(1); // blank byte if not alternate ending
+		}
+
+		w.writeByte(TRIPLET_FEEL_VALUES[bar.tripletFeel] ?? 0);
+
+		prevNumerator = numerator;
+		prevDenominator = denominator;
+	});
+}
+
+function writeTrackHeaders(w: GP5Writer, tracks: TabTrack[]): void {
+	tracks.forEach((track, i) => {
+		if (i === 0) {
+			w.skip(1); // GP5.10: blank byte before first track
+		}
+
+		w.writeByte(track.kind === 'percussion' ? 0x01 : 0); // flags1: percussion track
+		w.writeByteSizeString(track.name, 40);
+
+		const tuning = track.tuningMidi.slice(0, 7);
+		w.writeInt(tuning.length);
+		for (let s = 0; s < 7; s++) {
+			w.writeInt(tuning[s] ?? 0);
+		}
+
+		w.writeInt(track.midi.port + 1); // 0-based → 1-based
+		w.writeInt(channelSlot(track.midi, track.midi.channel) + 1);
+		w.writeInt(channelSlot(track.midi, track.midi.effectChannel) + 1);
+		w.writeInt(24); // fret count
+		w.writeInt(track.capoFret);
+		w.writeByte(255); // color r
+		w.writeByte(0); // color g
+		w.writeByte(0); // color b
+		w.skip(1); // padding
+
+		w.writeShort(0x0003); // flags2: show tablature + standard notation
+		w.writeByte(0); // auto accentuation
+		w.writeByte(track.midi.bank);
+
+		writeTrackRSE(w);
+	});
+
+	w.skip(1); // GP5.10: trailing byte after all tracks
+}
+
+function writeTrackRSE(w: GP5Writer): void {
+	w.writeByte(0); // humanize
+	w.skip(12); // 3 ints unknown
+	w.skip(12); // additional unknown
+	writeRSEInstrument(w);
+	w.skip(4); // equalizer: 3-band + gain
+	writeRSEInstrumentEffect(w);
+}
+
+function writeRSEInstrument(w: GP5Writer): void {
+	w.writeInt(-1); // MIDI instrument number
+	w.writeInt(-1); // unknown
+	w.writeInt(-1); // sound bank
+	w.writeInt(-1); // effect number
+}
+
+function writeRSEInstrumentEffect(w: GP5Writer): void {
+	w.writeIntByteSizeString(''); // effect name
+	w.writeIntByteSizeString(''); // effect category
+}
+
+// ---------------------------------------------------------------------------
+// Measure / Beat / Note writing — the per-measure data block
+// ---------------------------------------------------------------------------
+
+/** What a beat's mix table change sets: a new tempo (null = unchanged) and the track's automations starting on it */
+interface BeatMix {
+	tempo: number | null;
+	automations: TabAutomation[];
+}
+
+/** Groups a bar's automations by the beat they fall in; the last beat takes any past its end. */
+function automationsByBeat(automations: TabAutomation[], barIndex: number, beats: TabBeat[]): Map<TabBeat, TabAutomation[]> {
+	const byBeat = new Map<TabBeat, TabAutomation[]>();
+	if (beats.length === 0) return byBeat;
+
+	const starts: number[] = [];
+	let position = 0;
+	for (const beat of beats) {
+		starts.push(position);
+		position += durationToBeats(beat.duration, beat.dotted, beat.tuplet);
+	}
+
+	for (const automation of automations) {
+		if (automation.barIndex !== barIndex) continue;
+		// The last beat starting at or before the automation
+		let idx = 0;
+		while (idx + 1 < beats.length && starts[idx + 1] <= automation.position + 1e-6) idx++;
+		const beat = beats[idx];
+		byBeat.set(beat, [...(byBeat.get(beat) ?? []), automation]);
+	}
+	return byBeat;
+}
+
+function writeMeasures(w: GP5Writer, song: TabSong, measureCount: number): void {
+	// Tempo is song-wide: changes are written once, on the first track's first voice
+	let tempo = song.tempo;
+
+	for (let m = 0; m < measureCount; m++) {
+		song.tracks.forEach((track, t) => {
+			const voices = track.bars[m]?.voices ?? [];
+			for (let v = 0; v < 2; v++) {
+				const beats = voices[v] ?? [];
+				if (v === 0) {
+					// Track automations ride on the first voice, next to the tempo
+					const automations = automationsByBeat(track.midi.automations, m, beats);
+					writeVoice(w, track, beats, (beat) => {
+						const changed = t === 0 && beat.tempo > 0 && beat.tempo !== tempo;
+						if (changed) tempo = beat.tempo;
+						const beatAutomations = automations.get(beat) ?? [];
+						return changed || beatAutomations.length > 0
+							? { tempo: changed ? beat.tempo : null, automations: beatAutomations }
+							: null;
+					});
+				} else {
+					writeVoice(w, track, beats, () => null);
+				}
+			}
+			w.writeByte(0); // line break
+		});
+	}
+}
+
+function writeVoice(w: GP5Writer, track: TabTrack, beats: TabBeat[], mixOf: (beat: TabBeat) => BeatMix | null): void {
+	if (beats.length === 0) {
+		// Guitar Pro expects at least one beat per voice; an "empty" beat holds no time
+		w.writeInt(1);
+		w.writeByte(0x40);
+		w.writeByte(0x00); // status: empty
+		w.writeSignedByte(GP_DURATION_VALUES.quarter);
+		w.writeByte(0); // string flags
+		w.writeShort(0); // flags2
+		return;
+	}
+
+	w.writeInt(beats.length);
+	for (const beat of beats) {
+		writeBeat(w, track, beat, mixOf(beat));
+	}
+}
+
+function writeBeat(w: GP5Writer, track: TabTrack, beat: TabBeat, mix: BeatMix | null): void {
+	const tuplet = beat.tuplet && TUPLET_VALUES.has(beat.tuplet.num) ? beat.tuplet.num : 0;
+	const rest = beat.notes.length === 0;
+
+	const chord = beat.chordId !== null ? track.chords.find((c) => c.id === beat.chordId) : undefined;
+	const hasEffects = beat.whammy !== null || beat.stroke !== null || beat.pickStroke !== null || beat.slapPop !== null;
+
+	let flags = 0;
+	if (beat.dotted > 0) flags |= 0x01;
+	if (chord) flags |= 0x02;
+	if (hasEffects) flags |= 0x08;
+	if (mix) flags |= 0x10;
+	if (tuplet) flags |= 0x20;
+	if (rest) flags |= 0x40;
+	w.writeByte(flags);
+
+	if (flags & 0x40) {
+		w.writeByte(0x02); // status: rest
+	}
+
+	w.writeSignedByte(GP_DURATION_VALUES[beat.duration] ?? 0);
+
+	if (flags & 0x20) {
+		w.writeInt(tuplet);
+	}
+
+	if (chord) {
+		writeChord(w, chord);
+	}
+
+	if (hasEffects) {
+		writeBeatEffects(w, beat);
+	}
+
+	if (mix) {
+		writeMixTableChange(w, mix);
+	}
+
+	// Notes — bit 6 = GP string 1 (highest pitch), bit 0 = GP string 7
+	const byString = new Map<number, TabNote>();
+	for (const note of beat.notes) {
+		if (note.string >= 0 && note.string < Math.min(7, track.tuningMidi.length)) {
+			byString.set(note.string, note);
+		}
+	}
+	let stringFlags = 0;
+	for (const s of byString.keys()) stringFlags |= 1 << (6 - s);
+	w.writeByte(stringFlags);
+
+	for (let i = 6; i >= 0; i--) {
+		const note = byString.get(6 - i);
+		if (note) writeNote(w, note);
+	}
+
+	w.writeShort(0); // flags2
+}
+
+function writeBeatEffects(w: GP5Writer, beat: TabBeat): void {
+	let flags1 = 0;
+	if (beat.slapPop) flags1 |= 0x20;
+	if (beat.stroke) flags1 |= 0x40;
+
+	let flags2 = 0;
+	if (beat.pickStroke) flags2 |= 0x02;
+	if (beat.whammy) flags2 |= 0x04;
+
+	w.writeByte(flags1);
+	w.writeByte(flags2);
+
+	if (beat.slapPop) {
+		w.writeSignedByte(SLAP_POP_VALUES[beat.slapPop]);
+	}
+	if (beat.whammy) {
+		writeBendPoints(w, 6, beat.whammy); // type: dip
+	}
+	if (beat.stroke) {
+		const speed = STROKE_SPEEDS[beat.stroke.duration] ?? 4;
+		// Upward strum speed first, then downward
+		w.writeByte(beat.stroke.direction === 'up' ? speed : 0);
+		w.writeByte(beat.stroke.direction === 'down' ? speed : 0);
+	}
+	if (beat.pickStroke) {
+		w.writeSignedByte(beat.pickStroke === 'up' ? 1 : 2);
+	}
+}
+
+/** GP4+ chord diagram; per-string values are written for 7 GP strings, highest first. */
+function writeChord(w: GP5Writer, chord: TabChord): void {
+	w.writeByte(1); // new format
+	w.skip(16); // sharp + blank + root + type + extension + bass note + tonality + add
+	w.writeByteSizeString(chord.name, 22);
+	w.skip(3); // fifth, ninth, eleventh
+	w.writeInt(chord.baseFret);
+	for (let s = 0; s < 7; s++) w.writeInt(chord.frets[s] ?? -1);
+
+	const barres = chord.barres.slice(0, 5);
+	w.writeByte(barres.length);
+	// Barre frets, then start and end strings as 1-based GP string numbers
+	for (let i = 0; i < 5; i++) w.writeByte(barres[i]?.fret ?? 0);
+	for (let i = 0; i < 5; i++) w.writeByte(barres[i] ? barres[i].firstString + 1 : 0);
+	for (let i = 0; i < 5; i++) w.writeByte(barres[i] ? barres[i].lastString + 1 : 0);
+
+	for (let i = 0; i < 7; i++) w.writeBool(true); // omissions: every interval present
+	w.skip(1); // blank
+	// -2 = unknown finger
+	for (let s = 0; s < 7; s++) w.writeSignedByte(chord.fingering[s] >= 0 ? chord.fingering[s] : -2);
+	w.writeBool(chord.fingering.some((f) => f >= 0)); // show diagram fingering
+}
+
+/** Mix table change setting the beat's tempo and automations; every value it leaves alone is -1 (unchanged). */
+function writeMixTableChange(w: GP5Writer, mix: BeatMix): void {
+	// A later automation of the same type on the beat wins
+	const byType = new Map(mix.automations.map((a) => [a.type, a]));
+	const levels = MIX_LEVELS.map((type) => byType.get(type));
+
+	w.writeSignedByte(byType.get('program')?.value ?? -1);
+	writeRSEInstrument(w);
+
+	for (const level of levels) {
+		w.writeSignedByte(level ? gpLevelFromMidi(level.value) : -1);
+	}
+
+	w.writeIntByteSizeString(''); // tempo name
+	w.writeInt(mix.tempo !== null ? Math.round(mix.tempo) : -1);
+
+	// Durations for changed values
+	for (const level of levels) {
+		if (level) w.writeSignedByte(Math.round(level.transition));
+	}
+	if (mix.tempo !== null) {
+		w.writeSignedByte(0); // tempo duration (immediate)
+		w.writeBool(false); // hide tempo
+	}
+
+	w.writeByte(0); // mix table change flags
+	w.writeSignedByte(-1); // wah effect
+	writeRSEInstrumentEffect(w);
+}
+
+function writeNote(w: GP5Writer, note: TabNote): void {
+	const hasEffects = note.bend !== null || note.hammerOn || note.pullOff || note.letRing
+		|| note.palmMute || note.slide !== null || note.harmonic !== null || note.vibrato !== null
+		|| note.graceNote !== null || note.staccato || note.trill !== null || note.tremoloPicking !== null;
+
+	// Staccato is stored as an effect; only the remaining length factor is the duration percent
+	const durationPercent = note.soundingLength / soundingLength(1, note.staccato);
+
+	let flags = 0x20; // note type + fret
+	if (durationPercent !== 1) flags |= 0x01;
+	if (note.accent === 2) flags |= 0x02;
+	if (note.ghost) flags |= 0x04;
+	if (hasEffects) flags |= 0x08;
+	if (note.dynamic !== DEFAULT_DYNAMIC) flags |= 0x10;
+	if (note.accent === 1) flags |= 0x40;
+	w.writeByte(flags);
+
+	w.writeByte(note.tie.destination ? 2 : note.muted ? 3 : 1); // normal / tie / dead
+	if (flags & 0x10) w.writeSignedByte(gpDynamicCode(note.dynamic));
+	// Percussion tracks store the GM drum key as the fret
+	w.writeSignedByte(Math.max(0, Math.min(99, note.drum?.key ?? note.fret)));
+
+	if (flags & 0x01) w.writeDouble(durationPercent);
+	w.writeByte(0); // GP5: second flags byte
+
+	if (hasEffects) {
+		writeNoteEffects(w, note);
+	}
+}
+
+function writeNoteEffects(w: GP5Writer, note: TabNote): void {
+	const harmonicType = note.harmonic ? HARMONIC_TYPE_VALUES[note.harmonic] ?? 0 : 0;
+
+	let flags1 = 0;
+	if (note.bend) flags1 |= 0x01;
+	if (note.hammerOn || note.pullOff) flags1 |= 0x02; // GP5 has one flag for both directions
+	if (note.letRing) flags1 |= 0x08;
+	if (note.graceNote) flags1 |= 0x10;
+
+	const tremolo = note.tremoloPicking ? TREMOLO_SPEEDS[note.tremoloPicking] : undefined;
+
+	let flags2 = 0;
+	if (note.staccato) flags2 |= 0x01;
+	if (note.palmMute) flags2 |= 0x02;
+	if (tremolo) flags2 |= 0x04;
+	if (note.slide !== null) flags2 |= 0x08;
+	if (harmonicType) flags2 |= 0x10;
+	if (note.trill) flags2 |= 0x20;
+	if (note.vibrato) flags2 |= 0x40;
+
+	w.writeByte(flags1);
+	w.writeByte(flags2);
+
+	if (note.bend) {
+		writeBend(w, note.bend);
+	}
+
+	if (note.graceNote) {
+		writeGraceNote(w, note.graceNote);
+	}
+
+	if (tremolo) {
+		w.writeSignedByte(tremolo);
+	}
+
+	if (flags2 & 0x08) {
+		w.writeByte(note.slide ?? 0);
+	}
+
+	if (flags2 & 0x10) {
+		w.writeSignedByte(harmonicType);
+		if (harmonicType === 2) {
+			// Artificial harmonic extra data
+			w.writeByte(0); // note
+			w.writeSignedByte(0); // accidental
+			w.writeByte(0); // octave
+		} else if (harmonicType === 3) {
+			w.writeByte(note.fret + 12); // fret
+		}
+	}
+
+	if (note.trill) {
+		w.writeSignedByte(Math.max(0, Math.min(99, note.trill.fret)));
+		w.writeSignedByte(TRILL_PERIODS[note.trill.speed] ?? 1);
+	}
+}
+
+/** Grace note duration byte: 1 = 32nd, 2 = sixteenth triplet ("24th"), 3 = 16th. */
+function graceDurationValue(grace: TabGraceNote): number {
+	if (grace.duration === '32nd') return 1;
+	return grace.tuplet ? 2 : 3;
+}
+
+function writeGraceNote(w: GP5Writer, grace: TabGraceNote): void {
+	w.writeSignedByte(Math.max(0, Math.min(99, grace.fret)));
+	w.writeByte(GRACE_VELOCITY);
+	w.writeByte(GRACE_TRANSITION_VALUES[grace.transition]);
+	w.writeByte(graceDurationValue(grace));
+	w.writeByte((grace.dead ? 0x01 : 0) | (grace.onBeat ? 0x02 : 0));
+}
+
+/** Writes a bend curve: positions on a 0..60 axis, values in 1/50 semitone (100 = full tone). */
+function writeBend(w: GP5Writer, bend: TabBend): void {
+	writeBendPoints(w, GP_BEND_TYPES[bend.kind], bend.points);
+}
+
+/** Bend and tremolo bar curves share one layout: type, value furthest from the note, then the points. */
+function writeBendPoints(w: GP5Writer, type: number, points: TabBendPoint[]): void {
+	const values = points.map((p) => Math.round(p.value * 50));
+	w.writeSignedByte(type);
+	w.writeInt(values.reduce((peak, v) => (Math.abs(v) > Math.abs(peak) ? v : peak), 0));
+	w.writeInt(points.length);
+	points.forEach((point, i) => {
+		w.writeInt(Math.round(point.position * 60));
+		w.writeInt(values[i]);
+		w.writeBool(point.vibrato);
+	});
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Serializes a TabSong as a Guitar Pro 5.10 (.gp5) file. Bar structure (time and
+ * key signatures, repeats, sections, directions) is taken from the first track.
+ */
+export function writeGp5File(song: TabSong): Uint8Array {
+	const w = new GP5Writer();
+	const bars = song.tracks[0]?.bars ?? [];
+
+	// Version string: ByteSizeString of size 30
+	w.writeByteSizeString('FICHIER GUITAR PRO v5.10', 30);
+
+	// Score information + lyrics
+	writeInfo(w, song);
+	writeLyrics(w, song);
+
+	// RSE master effect + page setup
+	writeRSEMasterEffect(w);
+	writePageSetup(w);
+
+	// Tempo
+	w.writeIntByteSizeString(''); // tempo name
+	w.writeInt(Math.round(song.tempo));
+	w.writeBool(false); // hide tempo
+
+	// Key signature + octave
+	w.writeSignedByte(0); // key
+	w.writeInt(0); // octave
+
+	// MIDI channels, directions, master reverb
+	writeMidiChannels(w, song.tracks);
+	writeDirections(w, bars);
+	w.writeInt(0);
+
+	// Measure count + track count
+	w.writeInt(bars.length);
+	w.writeInt(song.tracks.length);
+
+	writeMeasureHeaders(w, bars);
+	writeTrackHeaders(w, song.tracks);
+	writeMeasures(w, song, bars.length);
+
+	return w.toUint8Array();
+}
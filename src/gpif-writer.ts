@@ -0,0 +1,698 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * GPIF writer : serializes a TabSong as a score.gpif XML document, the mirror
+ * of gpifToTabSong. Pure string building, zero dependencies.
+ *
+ * GPIF is an ID graph: MasterBars list one Bar per track, Bars list four Voice
+ * slots, Voices list Beats, Beats list Notes and reference a shared Rhythm.
+ * Every entity is written once in its top-level collection and referenced by id.
+ */
+
+import type { Duration, Ornament, TripletFeel, DrumPiece, TabDrumHit, TabNote, TabGraceNote, TabBend, TabBendPoint, TabBeat, TabBar, TabTrack, TabSong } from './types.js';
+import { durationToBeats, barLengthInQuarters } from './timing.js';
+import { gmProgramName } from './instruments.js';
+
+/** Voice slots per GPIF bar; unused slots are written as -1 */
+const VOICE_SLOTS = 4;
+
+/** <ChannelStrip> fader count, and the indices of the pan and volume faders (0..1) */
+const CHANNEL_STRIP_SIZE = 16;
+const CHANNEL_STRIP_PAN = 11;
+const CHANNEL_STRIP_VOLUME = 12;
+
+// ---------------------------------------------------------------------------
+// XML building
+// ---------------------------------------------------------------------------
+
+function escapeXml(s: string): string {
+	return s
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/** Line-based XML builder with tab indentation. */
+class XmlWriter {
+	private lines: string[] = [];
+	private depth = 0;
+
+	raw(line: string): this {
+		this.lines.push(line);
+		return this;
+	}
+
+	open(tag: string, attrs = ''): this {
+		this.lines.push(`${'\t'.repeat(this.depth)}<${tag}${attrs}>`);
+		this.depth++;
+		return this;
+	}
+
+	close(tag: string): this {
+		this.depth--;
+		this.lines.push(`${'\t'.repeat(this.depth)}</${tag}>`);
+		return this;
+	}
+
+	/** Writes `<tag>text</tag>`, or a self-closing `<tag/>` without text. */
+	leaf(tag: string, text?: string | number, attrs = ''): this {
+		const body = text === undefined ? `<${tag}${attrs}/>` : `<${tag}${attrs}>${escapeXml(String(text))}</${tag}>`;
+		this.lines.push(`${'\t'.repeat(this.depth)}${body}`);
+		return this;
+	}
+
+	toString(): string {
+		return this.lines.join('\n') + '\n';
+	}
+}
+
+function attr(name: string, value: string | number): string {
+	return ` ${name}="${escapeXml(String(value))}"`;
+}
+
+/** Writes `<Property name="...">` holding a single value element, or `<Enable/>` without value. */
+function property(w: XmlWriter, name: string, tag = 'Enable', value?: string | number): void {
+	w.open('Property', attr('name', name)).leaf(tag, value).close('Property');
+}
+
+// ---------------------------------------------------------------------------
+// ID graph
+// ---------------------------------------------------------------------------
+
+/** Bits of a GPIF <Accent> value */
+const ACCENT_STACCATO = 0x01;
+const ACCENT_HEAVY = 0x04;
+const ACCENT_NORMAL = 0x08;
+
+const ORNAMENTS: Record<Ornament, string> = {
+	turn: 'Turn',
+	invertedTurn: 'InvertedTurn',
+	upperMordent: 'UpperMordent',
+	lowerMordent: 'LowerMordent'
+};
+
+/** GPIF NoteValue names; the reader lowercases them back into Duration values. */
+const NOTE_VALUES: Record<Duration, string> = {
+	whole: 'Whole',
+	half: 'Half',
+	quarter: 'Quarter',
+	eighth: 'Eighth',
+	'16th': '16th',
+	'32nd': '32nd',
+	'64th': '64th',
+	'128th': '128th'
+};
+
+/** Top-level entity collections, each written as one XML fragment per entity. */
+class GpifGraph {
+	readonly bars = new XmlWriter();
+	readonly voices = new XmlWriter();
+	readonly beats = new XmlWriter();
+	readonly notes = new XmlWriter();
+	readonly rhythms = new XmlWriter();
+
+	private barCount = 0;
+	private voiceCount = 0;
+	private beatCount = 0;
+	private noteCount = 0;
+	/** Rhythm id per duration/dots/tuplet combination, so equal rhythms are shared */
+	private rhythmIds = new Map<string, number>();
+	/** Whether the last note written on each track/voice/string starts a hammer-on or pull-off */
+	private legatoOpen = new Map<string, boolean>();
+	/** GM key of each articulation of a drum track's kit, in <InstrumentArticulation> order */
+	private articulationKeys = new Map<TabTrack, number[]>();
+
+	addBar(bar: TabBar, track: TabTrack): number {
+		const voiceIds: number[] = [];
+		for (let v = 0; v < VOICE_SLOTS; v++) {
+			const beats = bar.voices[v];
+			voiceIds.push(beats && beats.length > 0 ? this.addVoice(beats, track) : -1);
+		}
+
+		const id = this.barCount++;
+		this.bars.open('Bar', attr('id', id));
+		this.bars.leaf('Clef', 'G2');
+		this.bars.leaf('Voices', voiceIds.join(' '));
+		this.bars.close('Bar');
+		return id;
+	}
+
+	private addVoice(beats: TabBeat[], track: TabTrack): number {
+		const beatIds: number[] = [];
+		for (const beat of beats) {
+			const graceBeatId = this.addGraceBeat(beat, track);
+			if (graceBeatId !== null) beatIds.push(graceBeatId);
+			beatIds.push(this.addBeat(beat, track));
+		}
+		const id = this.voiceCount++;
+		this.voices.open('Voice', attr('id', id)).leaf('Beats', beatIds.join(' ')).close('Voice');
+		return id;
+	}
+
+	private addBeat(beat: TabBeat, track: TabTrack): number {
+		const rhythmId = this.rhythmId(beat);
+		const noteIds = beat.notes.map((note) => this.addNote(note, beat.voice, track));
+
+		const id = this.beatCount++;
+		this.beats.open('Beat', attr('id', id));
+		if (beat.chordId !== null) this.beats.leaf('Chord', beat.chordId);
+		if (beat.dynamic) this.beats.leaf('Dynamic', beat.dynamic.toUpperCase());
+		this.beats.leaf('Rhythm', undefined, attr('ref', rhythmId));
+		// GPIF tremolo picking is per beat: take it from the first note that has it
+		const tremolo = beat.notes.find((note) => note.tremoloPicking !== null)?.tremoloPicking;
+		if (tremolo && TREMOLO_VALUES[tremolo]) this.beats.leaf('Tremolo', TREMOLO_VALUES[tremolo]);
+		if (beat.whammy) writeWhammy(this.beats, beat.whammy);
+		if (noteIds.length > 0) this.beats.leaf('Notes', noteIds.join(' '));
+		writeBeatProperties(this.beats, beat);
+		this.beats.close('Beat');
+		return id;
+	}
+
+	/** GPIF stores grace notes as a <GraceNotes> beat right before the beat they lead into. */
+	private addGraceBeat(beat: TabBeat, track: TabTrack): number | null {
+		const graced = beat.notes.filter((note) => note.graceNote !== null);
+		if (graced.length === 0) return null;
+		const first = graced[0].graceNote!;
+		const rhythmId = this.rhythmId({ duration: first.duration, dotted: 0, tuplet: first.tuplet });
+		const noteIds = graced.map((note) => this.addGraceNote(note.graceNote!, note.string, track));
+
+		const id = this.beatCount++;
+		this.beats.open('Beat', attr('id', id));
+		this.beats.leaf('GraceNotes', first.onBeat ? 'OnBeat' : 'BeforeBeat');
+		this.beats.leaf('Rhythm', undefined, attr('ref', rhythmId));
+		this.beats.leaf('Notes', noteIds.join(' '));
+		this.beats.close('Beat');
+		return id;
+	}
+
+	private addGraceNote(grace: TabGraceNote, string: number, track: TabTrack): number {
+		const w = this.notes;
+		const id = this.noteCount++;
+		w.open('Note', attr('id', id)).open('Properties');
+		property(w, 'String', 'String', track.tuningMidi.length - 1 - string);
+		property(w, 'Fret', 'Fret', grace.fret);
+		if (grace.transition === 'bend') {
+			// A semitone bend into the principal note
+			writeBend(w, { kind: 'bend', points: [{ position: 0, value: 0, vibrato: false }, { position: 1, value: 1, vibrato: false }] });
+		}
+		if (grace.transition === 'slide') property(w, 'Slide', 'Flags', 2);
+		if (grace.dead) property(w, 'Muted');
+		if (grace.transition === 'hammer') property(w, 'HopoOrigin');
+		w.close('Properties').close('Note');
+		return id;
+	}
+
+	private addNote(note: TabNote, voice: number, track: TabTrack): number {
+		const w = this.notes;
+		const id = this.noteCount++;
+		// GPIF marks both ends of a legato: HopoOrigin here, HopoDestination on the next note of the string
+		const legatoKey = `${track.id}:${voice}:${note.string}`;
+		const legatoEnd = this.legatoOpen.get(legatoKey) ?? false;
+		this.legatoOpen.set(legatoKey, note.hammerOn || note.pullOff);
+		w.open('Note', attr('id', id));
+
+		if (note.tie.origin || note.tie.destination) {
+			w.leaf('Tie', undefined, attr('origin', String(note.tie.origin)) + attr('destination', String(note.tie.destination)));
+		}
+		if (note.letRing) w.leaf('LetRing');
+		if (note.vibrato) w.leaf('Vibrato', note.vibrato);
+		const accentFlags = (note.staccato ? ACCENT_STACCATO : 0) | (note.accent === 2 ? ACCENT_HEAVY : note.accent === 1 ? ACCENT_NORMAL : 0);
+		if (accentFlags) w.leaf('Accent', accentFlags);
+		if (note.ghost) w.leaf('AntiAccent', 'Normal');
+		// GPIF stores the trilled note as a sounding MIDI pitch, capo included
+		if (note.trill) w.leaf('Trill', track.tuningMidi[note.string] + track.capoFret + note.trill.fret);
+		if (note.ornament) w.leaf('Ornament', ORNAMENTS[note.ornament]);
+		if (note.drum) w.leaf('InstrumentArticulation', this.articulation(track, note.drum.key));
+
+		w.open('Properties');
+		// GPIF numbers strings from the lowest one
+		property(w, 'String', 'String', track.tuningMidi.length - 1 - note.string);
+		property(w, 'Fret', 'Fret', note.fret);
+		if (note.bend) writeBend(w, note.bend);
+		if (note.slide !== null) property(w, 'Slide', 'Flags', note.slide);
+		if (note.harmonic) property(w, 'HarmonicType', 'HType', note.harmonic);
+		if (note.palmMute) property(w, 'PalmMuted');
+		if (note.muted) property(w, 'Muted');
+		if (note.hammerOn || note.pullOff) property(w, 'HopoOrigin');
+		if (legatoEnd) property(w, 'HopoDestination');
+		if (note.tapped) property(w, 'Tapped');
+		w.close('Properties');
+
+		w.close('Note');
+		return id;
+	}
+
+	private articulation(track: TabTrack, key: number): number {
+		let keys = this.articulationKeys.get(track);
+		if (!keys) {
+			keys = drumKit(track).flatMap((element) => element.hits.map((hit) => hit.key));
+			this.articulationKeys.set(track, keys);
+		}
+		return keys.indexOf(key);
+	}
+
+	private rhythmId(beat: Pick<TabBeat, 'duration' | 'dotted' | 'tuplet'>): number {
+		const key = `${beat.duration}:${beat.dotted}:${beat.tuplet ? `${beat.tuplet.num}/${beat.tuplet.den}` : ''}`;
+		const existing = this.rhythmIds.get(key);
+		if (existing !== undefined) return existing;
+
+		const id = this.rhythmIds.size;
+		this.rhythmIds.set(key, id);
+		const w = this.rhythms;
+		w.open('Rhythm', attr('id', id));
+		w.leaf('NoteValue', NOTE_VALUES[beat.duration]);
+		if (beat.dotted > 0) w.leaf('AugmentationDot', undefined, attr('count', beat.dotted));
+		if (beat.tuplet) w.leaf('PrimaryTuplet', undefined, attr('num', beat.tuplet.num) + attr('den', beat.tuplet.den));
+		w.close('Rhythm');
+		return id;
+	}
+}
+
+/** Rounds away float noise (e.g. 0.15 * 100) before a value is written. */
+function clean(value: number): number {
+	return Math.round(value * 1e9) / 1e9;
+}
+
+/**
+ * Reduces a curve to GPIF origin, middle and destination points, with values in
+ * 1/50 semitone (100 = full tone) and offsets in percent of the note. GPIF holds
+ * at most two middle points sharing one value, so inner points beyond that are merged.
+ */
+function gpifCurve(points: TabBendPoint[]): Array<[string, number]> {
+	const first = points[0];
+	const last = points[points.length - 1];
+	const inner = points.slice(1, -1);
+	const fields: Array<[string, number]> = [
+		['OriginValue', first.value * 50],
+		['OriginOffset', first.position * 100]
+	];
+	if (inner.length > 0) {
+		fields.push(['MiddleValue', inner[0].value * 50]);
+		fields.push(['MiddleOffset1', inner[0].position * 100]);
+		fields.push(['MiddleOffset2', inner[inner.length - 1].position * 100]);
+	}
+	fields.push(['DestinationValue', last.value * 50]);
+	fields.push(['DestinationOffset', last.position * 100]);
+	return fields.map(([field, value]) => [field, clean(value)]);
+}
+
+function writeBend(w: XmlWriter, bend: TabBend): void {
+	property(w, 'Bended');
+	for (const [field, value] of gpifCurve(bend.points)) property(w, `Bend${field}`, 'Float', value);
+}
+
+/** The whammy bar is written as a <Whammy> element with camel-cased attributes. */
+function writeWhammy(w: XmlWriter, points: TabBendPoint[]): void {
+	const attrs = gpifCurve(points).map(([field, value]) => attr(field[0].toLowerCase() + field.slice(1), value));
+	w.leaf('Whammy', undefined, attrs.join(''));
+}
+
+/** XProperty holding a brush's length in ticks (960 per quarter note) */
+const BRUSH_DURATION_XPROPERTY = '687935489';
+/** XProperty holding the length of each trill alternation in ticks */
+const TRILL_SPEED_XPROPERTY = '688062467';
+
+/** Tremolo picking duration → GPIF <Tremolo> fraction of a quarter note */
+const TREMOLO_VALUES: Partial<Record<Duration, string>> = { eighth: '1/2', '16th': '1/4', '32nd': '1/8' };
+
+/** Writes brush, pick stroke and slap/pop, then the beat XProperties; GPIF has no beat-level tap. */
+function writeBeatProperties(w: XmlWriter, beat: TabBeat): void {
+	const slapPop = beat.slapPop === 'slap' ? 'Slapped' : beat.slapPop === 'pop' ? 'Popped' : null;
+	if (beat.stroke || beat.pickStroke || slapPop) {
+		w.open('Properties');
+		if (beat.stroke) property(w, 'Brush', 'Direction', beat.stroke.direction === 'up' ? 'Up' : 'Down');
+		if (beat.pickStroke) property(w, 'PickStroke', 'Direction', beat.pickStroke === 'up' ? 'Up' : 'Down');
+		if (slapPop) property(w, slapPop);
+		w.close('Properties');
+	}
+
+	writeBeatXProperties(w, beat);
+}
+
+/** Writes the brush length and the trill speed, which GPIF keeps on the beat in ticks. */
+function writeBeatXProperties(w: XmlWriter, beat: TabBeat): void {
+	const trill = beat.notes.find((note) => note.trill !== null)?.trill ?? null;
+	if (!beat.stroke && !trill) return;
+
+	const ticks = (duration: Duration) => Math.round(durationToBeats(duration, 0, null) * 960);
+	w.open('XProperties');
+	if (beat.stroke) w.open('XProperty', attr('id', BRUSH_DURATION_XPROPERTY)).leaf('Int', ticks(beat.stroke.duration)).close('XProperty');
+	if (trill) w.open('XProperty', attr('id', TRILL_SPEED_XPROPERTY)).leaf('Int', ticks(trill.speed)).close('XProperty');
+	w.close('XProperties');
+}
+
+// ---------------------------------------------------------------------------
+// Master track and tracks
+// ---------------------------------------------------------------------------
+
+/** A tempo automation: bar index, 0..1 position within the bar and quarter-note BPM. */
+interface TempoAutomation {
+	bar: number;
+	position: number;
+	tempo: number;
+}
+
+/** Tempo automations from the first track's primary voice, one per tempo change. */
+function tempoAutomations(song: TabSong): TempoAutomation[] {
+	const automations: TempoAutomation[] = [{ bar: 0, position: 0, tempo: song.tempo }];
+	let current = song.tempo;
+
+	(song.tracks[0]?.bars ?? []).forEach((bar, barIdx) => {
+		const length = barLengthInQuarters(bar.timeSignature);
+		let offset = 0;
+		for (const beat of bar.beats) {
+			if (beat.tempo > 0 && beat.tempo !== current) {
+				current = beat.tempo;
+				// Rounded so float noise from tuplets doesn't leak into the file
+				const position = length > 0 ? Math.round((offset / length) * 1e12) / 1e12 : 0;
+				automations.push({ bar: barIdx, position, tempo: beat.tempo });
+			}
+			offset += durationToBeats(beat.duration, beat.dotted, beat.tuplet);
+		}
+	});
+
+	return automations;
+}
+
+function writeMasterTrack(w: XmlWriter, song: TabSong): void {
+	w.open('MasterTrack');
+	w.leaf('Tracks', song.tracks.map((_, i) => i).join(' '));
+	w.open('Automations');
+	for (const automation of tempoAutomations(song)) {
+		w.open('Automation');
+		w.leaf('Type', 'Tempo');
+		w.leaf('Linear', 'false');
+		w.leaf('Bar', automation.bar);
+		w.leaf('Position', automation.position);
+		w.leaf('Visible', 'true');
+		// Second value is the reference unit: 2 = quarter note
+		w.leaf('Value', `${automation.tempo} 2`);
+		w.close('Automation');
+	}
+	w.close('Automations');
+	w.close('MasterTrack');
+}
+
+/** Sound path of a GM program; track automations switch sounds by path */
+function soundPath(program: number): string {
+	return `Midi/${program}`;
+}
+
+/** Writes one <Sound> per program the track plays, its starting program first. */
+function writeSounds(w: XmlWriter, track: TabTrack): void {
+	const { midi } = track;
+	const programs = new Set([midi.program]);
+	for (const automation of midi.automations) {
+		if (automation.type === 'program') programs.add(automation.value);
+	}
+
+	w.open('Sounds');
+	for (const program of programs) {
+		const name = gmProgramName(program, track.kind === 'percussion');
+		w.open('Sound');
+		w.leaf('Name', name);
+		w.leaf('Label', name);
+		w.leaf('Path', soundPath(program));
+		w.leaf('Role', 'User');
+		w.open('MIDI').leaf('LSB', 0).leaf('MSB', midi.bank).leaf('Program', program).close('MIDI');
+		w.close('Sound');
+	}
+	w.close('Sounds');
+}
+
+/** Writes the track's program, volume and pan automations; GPIF has no chorus, reverb, phaser or tremolo lanes. */
+function writeTrackAutomations(w: XmlWriter, track: TabTrack): void {
+	const automations = track.midi.automations.filter((a) => a.type === 'program' || a.type === 'volume' || a.type === 'pan');
+	if (automations.length === 0) return;
+
+	w.open('Automations');
+	for (const automation of automations) {
+		const bar = track.bars[automation.barIndex];
+		const length = bar ? barLengthInQuarters(bar.timeSignature) : 4;
+		const program = automation.type === 'program';
+		w.open('Automation');
+		w.leaf('Type', program ? 'Sound' : automation.type === 'volume' ? 'Volume' : 'Pan');
+		w.leaf('Linear', 'false');
+		w.leaf('Bar', automation.barIndex);
+		w.leaf('Position', length > 0 ? Math.round((automation.position / length) * 1e12) / 1e12 : 0);
+		w.leaf('Visible', 'true');
+		w.leaf('Value', program
+			? `${soundPath(automation.value)};${gmProgramName(automation.value, track.kind === 'percussion')};User`
+			: automation.value / 127);
+		w.close('Automation');
+	}
+	w.close('Automations');
+}
+
+/** GPIF finger names, indexed by TabChord finger number (0 = thumb). */
+const GPIF_FINGERS = ['Thumb', 'Index', 'Middle', 'Annular', 'Pinky'];
+
+/**
+ * Writes the track's chords as a DiagramCollection. Diagram strings count from
+ * the lowest one and frets are relative to the 0-based baseFret; barres are
+ * implied by fingering, as GPIF has no barre records.
+ */
+function writeDiagramCollection(w: XmlWriter, track: TabTrack): void {
+	const stringCount = track.tuningMidi.length;
+	w.open('Property', attr('name', 'DiagramCollection')).open('Items');
+	for (const chord of track.chords) {
+		const baseFret = chord.baseFret - 1;
+		w.open('Item', attr('id', chord.id) + attr('name', chord.name));
+		w.open('Diagram', attr('stringCount', stringCount) + attr('fretCount', 5) + attr('baseFret', baseFret));
+		chord.frets.forEach((fret, s) => {
+			if (fret < 0) return;
+			w.leaf('Fret', undefined, attr('string', stringCount - 1 - s) + attr('fret', fret === 0 ? 0 : fret - baseFret));
+		});
+		w.open('Fingering');
+		chord.fingering.forEach((finger, s) => {
+			const name = GPIF_FINGERS[finger];
+			if (!name || chord.frets[s] < 0) return;
+			w.leaf('Position', undefined, attr('finger', name) + attr('fret', chord.frets[s]) + attr('string', stringCount - 1 - s));
+		});
+		w.close('Fingering');
+		w.close('Diagram');
+		w.close('Item');
+	}
+	w.close('Items').close('Property');
+}
+
+/** The pieces a drum track plays, each with the hits played on it, ordered by GM key. */
+function drumKit(track: TabTrack): Array<{ piece: DrumPiece; hits: TabDrumHit[] }> {
+	const hits = new Map<number, TabDrumHit>();
+	for (const bar of track.bars) {
+		for (const beat of bar.voices.flat()) {
+			for (const note of beat.notes) {
+				if (note.drum) hits.set(note.drum.key, note.drum);
+			}
+		}
+	}
+
+	const elements: Array<{ piece: DrumPiece; hits: TabDrumHit[] }> = [];
+	for (const hit of [...hits.values()].sort((a, b) => a.key - b.key)) {
+		const element = elements.find((e) => e.piece === hit.piece);
+		if (element) element.hits.push(hit);
+		else elements.push({ piece: hit.piece, hits: [hit] });
+	}
+	return elements;
+}
+
+/** Writes a drum track's kit as a drumKit InstrumentSet: one Element per piece, one Articulation per GM key. */
+function writeInstrumentSet(w: XmlWriter, track: TabTrack): void {
+	w.open('InstrumentSet');
+	w.leaf('Name', 'Drums');
+	w.leaf('Type', 'drumKit');
+	w.open('Elements');
+	for (const element of drumKit(track)) {
+		w.open('Element').leaf('Name', element.piece).leaf('Type', element.piece).open('Articulations');
+		for (const hit of element.hits) {
+			w.open('Articulation');
+			w.leaf('Name', `${hit.piece} (${hit.articulation})`);
+			w.leaf('InputMidiNumbers', hit.key);
+			w.leaf('OutputMidiNumber', hit.key);
+			w.close('Articulation');
+		}
+		w.close('Articulations').close('Element');
+	}
+	w.close('Elements');
+	w.close('InstrumentSet');
+}
+
+function writeTrack(w: XmlWriter, track: TabTrack, trackIdx: number): void {
+	w.open('Track', attr('id', trackIdx));
+	w.leaf('Name', track.name);
+	w.leaf('ShortName', track.shortName);
+	if (track.instrument) w.leaf('Instrument', undefined, attr('ref', track.instrument));
+	if (track.kind === 'percussion') writeInstrumentSet(w, track);
+
+	// GP7 keeps tuning and capo on the staff; GPIF lists pitches from the lowest string
+	w.open('Staves').open('Staff').open('Properties');
+	property(w, 'CapoFret', 'Fret', track.capoFret);
+	property(w, 'Tuning', 'Pitches', [...track.tuningMidi].reverse().join(' '));
+	if (track.chords.length > 0) writeDiagramCollection(w, track);
+	w.close('Properties').close('Staff').close('Staves');
+
+	if (track.lyrics.length > 0) {
+		w.open('Lyrics', attr('dispatched', 'true'));
+		for (const line of track.lyrics) {
+			w.open('Line').leaf('Text', line.text).leaf('Offset', line.startBar).close('Line');
+		}
+		w.close('Lyrics');
+	}
+
+	writeSounds(w, track);
+
+	w.open('MidiConnection');
+	w.leaf('Port', track.midi.port);
+	w.leaf('PrimaryChannel', track.midi.channel);
+	w.leaf('SecondaryChannel', track.midi.effectChannel);
+	w.close('MidiConnection');
+
+	const faders = new Array<number>(CHANNEL_STRIP_SIZE).fill(0.5);
+	faders[CHANNEL_STRIP_PAN] = track.midi.pan / 127;
+	faders[CHANNEL_STRIP_VOLUME] = track.midi.volume / 127;
+	w.open('ChannelStrip').leaf('Parameters', faders.join(' ')).close('ChannelStrip');
+
+	writeTrackAutomations(w, track);
+
+	w.close('Track');
+}
+
+// ---------------------------------------------------------------------------
+// Master bars
+// ---------------------------------------------------------------------------
+
+const TRIPLET_FEELS: Record<Exclude<TripletFeel, 'none'>, string> = {
+	triplet8th: 'Triplet8th',
+	triplet16th: 'Triplet16th',
+	dotted8th: 'Dotted8th',
+	dotted16th: 'Dotted16th',
+	scottish8th: 'Scottish8th',
+	scottish16th: 'Scottish16th'
+};
+
+function writeMasterBar(w: XmlWriter, bar: TabBar, barIds: number[]): void {
+	w.open('MasterBar');
+
+	if (bar.keySignature) {
+		const { accidentalCount, mode } = bar.keySignature;
+		w.open('Key');
+		w.leaf('AccidentalCount', accidentalCount);
+		w.leaf('Mode', mode === 'minor' ? 'Minor' : 'Major');
+		w.close('Key');
+	}
+	w.leaf('Time', `${bar.timeSignature.numerator}/${bar.timeSignature.denominator}`);
+	if (bar.tripletFeel !== 'none') w.leaf('TripletFeel', TRIPLET_FEELS[bar.tripletFeel]);
+
+	if (bar.repeatStart || bar.repeatEnd) {
+		w.leaf(
+			'Repeat',
+			undefined,
+			attr('start', String(bar.repeatStart)) + attr('end', String(bar.repeatEnd)) + attr('count', bar.repeatCount)
+		);
+	}
+	if (bar.alternateEndings.length > 0) w.leaf('AlternateEndings', bar.alternateEndings.join(' '));
+
+	if (bar.section) {
+		// Attributes for gpifToTabSong, child elements for Guitar Pro itself
+		const { letter, text } = bar.section;
+		const attrs = (letter !== undefined ? attr('letter', letter) : '') + (text !== undefined ? attr('text', text) : '');
+		w.open('Section', attrs);
+		if (letter !== undefined) w.leaf('Letter', letter);
+		if (text !== undefined) w.leaf('Text', text);
+		w.close('Section');
+	}
+
+	if (bar.directions) {
+		w.open('Directions');
+		for (const target of bar.directions.targets) w.leaf('Target', target);
+		for (const jump of bar.directions.jumps) w.leaf('Jump', jump);
+		w.close('Directions');
+	}
+
+	w.leaf('Bars', barIds.join(' '));
+	w.close('MasterBar');
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Serializes a TabSong as GPIF XML (the score.gpif of GP6/GP7 files).
+ *
+ * Bar structure (time, key, repeats, sections, directions) is taken from the
+ * first track, as every track shares it. Tempo changes are written as
+ * MasterTrack automations from the first track's primary voice.
+ */
+export function tabSongToGpif(song: TabSong): string {
+	const graph = new GpifGraph();
+	const masterBars = song.tracks[0]?.bars ?? [];
+
+	// Bar ids per master bar, indexed by track
+	const barIds = masterBars.map((_, barIdx) =>
+		song.tracks.map((track) => {
+			const bar = track.bars[barIdx];
+			return bar ? graph.addBar(bar, track) : -1;
+		})
+	);
+
+	const w = new XmlWriter();
+	w.raw('<?xml version="1.0" encoding="utf-8"?>');
+	w.open('GPIF', attr('version', '7'));
+	w.leaf('GPVersion', '7');
+
+	w.open('Score');
+	w.leaf('Title', song.title);
+	w.leaf('SubTitle', song.subtitle);
+	w.leaf('Artist', song.artist);
+	w.leaf('Album', song.album);
+	w.leaf('Words', song.words);
+	w.leaf('Music', song.music);
+	w.leaf('Copyright', song.copyright);
+	w.leaf('Tabber', song.tabber);
+	w.leaf('Instructions', song.instructions);
+	w.leaf('Notices', song.notices.join('\n'));
+	w.close('Score');
+
+	writeMasterTrack(w, song);
+
+	w.open('Tracks');
+	song.tracks.forEach((track, trackIdx) => writeTrack(w, track, trackIdx));
+	w.close('Tracks');
+
+	w.open('MasterBars');
+	masterBars.forEach((bar, barIdx) => writeMasterBar(w, bar, barIds[barIdx]));
+	w.close('MasterBars');
+
+	const collections: Array<[string, XmlWriter]> = [
+		['Bars', graph.bars],
+		['Voices', graph.voices],
+		['Beats', graph.beats],
+		['Notes', graph.notes],
+		['Rhythms', graph.rhythms]
+	];
+	for (const [tag, fragment] of collections) {
+		w.open(tag);
+		const body = fragment.toString().trim();
+		if (body) w.raw(body.replace(/^/gm, '\t\t'));
+		w.close(tag);
+	}
+
+	w.close('GPIF');
+	return w.toString();
+}
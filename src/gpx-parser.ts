@@ -21,90 +21,40 @@
  * Pipeline: Uint8Array → BCFZ/BCFS decode → extract score.gpif XML → DOMParser → TabSong
  */
 
-import type { PitchClass, Note } from './pitch.js';
-import { noteFromPitchClass, midiToPitchClass } from './pitch.js';
+import { noteFromMidi, soundingMidi, spellFromKeySignatures, spellTuning } from './pitch.js';
 import type {
 	Duration,
+	Dynamic,
 	TabNote,
 	TabBeat,
 	TabBar,
 	TabTrack,
-	TabSong
+	TabSong,
+	TabChord,
+	TabMidi,
+	TabAutomation,
+	TabGraceNote,
+	GraceNoteTransition,
+	TabBend,
+	TabBendPoint,
+	TabStroke,
+	StrokeDirection,
+	Ornament,
+	TabLyricLine,
+	DirectionTarget,
+	DirectionJump,
+	KeySignature,
+	TripletFeel
 } from './types.js';
 import { getDOMParser } from './dom.js';
-
-// ---------------------------------------------------------------------------
-// Duration helpers (public — used by playback engine)
-// ---------------------------------------------------------------------------
-
-/** Maps Duration enum to beat fraction (quarter note = 1.0). */
-const DURATION_BEATS: Record<string, number> = {
-	whole: 4,
-	half: 2,
-	quarter: 1,
-	eighth: 0.5,
-	'16th': 0.25,
-	'32nd': 0.125,
-	'64th': 0.0625,
-	'128th': 0.03125
-};
-
-/** Converts a rhythm value to a beat fraction accounting for dots and tuplets. */
-export function durationToBeats(
-	duration: Duration,
-	dotCount: number,
-	tuplet: { num: number; den: number } | null
-): number {
-	let beats = DURATION_BEATS[duration] ?? 1;
-
-	// Augmentation dots: each dot adds half of the previous value
-	let dotValue = beats;
-	for (let i = 0; i < dotCount; i++) {
-		dotValue /= 2;
-		beats += dotValue;
-	}
-
-	// Tuplet: e.g. triplet = 3 notes in the space of 2 → multiply by den/num
-	if (tuplet && tuplet.num > 0) {
-		beats *= tuplet.den / tuplet.num;
-	}
-
-	return beats;
-}
-
-/** Computes the duration in milliseconds for a beat at its tempo. */
-export function beatDurationMs(beat: TabBeat): number {
-	const beatFraction = durationToBeats(beat.duration, beat.dotted, beat.tuplet);
-	const quarterNoteMs = 60000 / beat.tempo;
-	return beatFraction * quarterNoteMs;
-}
-
-/**
- * Computes which musical beat (1-based) a tab-beat falls on within its bar.
- * Musical beats are defined by the time signature: in 4/4 there are 4 beats,
- * in 6/8 there are 6 beats, etc. A "beat" in the time signature has a duration
- * of (4 / denominator) quarter notes (e.g. 1.0 for /4, 0.5 for /8).
- *
- * @param bar       The bar containing the beat
- * @param beatIdx   Index of the tab-beat within bar.beats
- * @returns 1-based musical beat number (clamped to numerator)
- */
-export function musicalBeatPosition(bar: TabBar, beatIdx: number): number {
-	const { numerator, denominator } = bar.timeSignature;
-	const musicalBeatDuration = 4 / denominator; // in quarter notes
-	let cumulative = 0;
-	for (let i = 0; i < beatIdx && i < bar.beats.length; i++) {
-		const b = bar.beats[i];
-		cumulative += durationToBeats(b.duration, b.dotted, b.tuplet);
-	}
-	const musicalBeat = Math.floor(cumulative / musicalBeatDuration) + 1;
-	return Math.min(musicalBeat, numerator);
-}
-
-/** Returns the number of musical beats in a bar (the time signature numerator). */
-export function barMusicalBeatCount(bar: TabBar): number {
-	return bar.timeSignature.numerator;
-}
+import { alignLyricLine } from './lyrics.js';
+import { resolveNoteLinks } from './note-links.js';
+import { resolveDrumHits } from './drums.js';
+import { gmProgramName } from './instruments.js';
+import { DEFAULT_DYNAMIC, dynamicFromGpif, noteVelocity, soundingLength } from './dynamics.js';
+import type { TempoPoint } from './timing.js';
+import { durationToBeats, barLengthInQuarters, tempoAtPosition, applyTempoPoints } from './timing.js';
+import { bendKindFromPoints } from './bends.js';
 
 // ---------------------------------------------------------------------------
 // BCFZ / BCFS binary decoder — pure DataView, no jDataView / Node deps
@@ -398,12 +348,6 @@ function parseTimeSignature(time: string | null): { numerator: number; denominat
 	};
 }
 
-/** Computes pitch class from string tuning + capo + fret. Frets are capo-relative. */
-function pitchClassFromStringFret(tuningPitches: number[], stringIndex: number, fret: number, capoFret: number = 0): PitchClass {
-	const openPitch = tuningPitches[stringIndex] ?? 0;
-	return (((openPitch + capoFret + fret) % 12 + 12) % 12) as PitchClass;
-}
-
 /** Parses tuning pitches string (e.g. "40 45 50 55 59 64") into MIDI note numbers. */
 function parseTuningPitches(pitchesStr: string): number[] {
 	return pitchesStr
@@ -461,6 +405,13 @@ function propFloat(propertiesEl: Element | null, name: string): number | null {
 	return isNaN(val) ? null : val;
 }
 
+/** Reads the HFret value from a HarmonicFret property: the fret a harmonic is touched at. */
+function propHFret(propertiesEl: Element | null, name: string): number | null {
+	const hfretEl = findProperty(propertiesEl, name)?.querySelector('HFret');
+	const val = parseFloat(hfretEl?.textContent?.trim() ?? '');
+	return isNaN(val) ? null : val;
+}
+
 /** Reads the HType value from a HarmonicType property. */
 function propHType(propertiesEl: Element | null, name: string): string | null {
 	const prop = findProperty(propertiesEl, name);
@@ -473,50 +424,195 @@ function propHType(propertiesEl: Element | null, name: string): string | null {
 // Note transformation from XML element
 // ---------------------------------------------------------------------------
 
-/** Transforms a <Note> XML element into a TabNote. */
-function transformNoteElement(noteEl: Element, tuningPitches: number[], capoFret: number = 0): TabNote {
+/** GPIF bend and whammy values are in 1/50 semitone (100 = full tone); offsets are in percent of the note. */
+const GPIF_BEND_SEMITONE = 50;
+
+/**
+ * Builds a GPIF curve: an origin point, up to two middle points sharing one
+ * value, and a destination point, each placed at its offset. `get` reads a
+ * field such as "OriginValue" or "MiddleOffset1".
+ */
+function readGpifCurve(get: (field: string) => number | null): TabBendPoint[] {
+	const raw: [number, number][] = [[get('OriginOffset') ?? 0, get('OriginValue') ?? 0]];
+	const middle = get('MiddleValue');
+	if (middle !== null) {
+		const first = get('MiddleOffset1') ?? 50;
+		const second = get('MiddleOffset2') ?? first;
+		raw.push([first, middle]);
+		if (second !== first) raw.push([second, middle]);
+	}
+	raw.push([get('DestinationOffset') ?? 100, get('DestinationValue') ?? 0]);
+
+	return raw.map(([offset, value]) => ({
+		position: Math.min(1, Math.max(0, offset / 100)),
+		value: value / GPIF_BEND_SEMITONE,
+		vibrato: false
+	}));
+}
+
+/** Reads a note's bend from its Bend* properties. */
+function readNoteBend(propsEl: Element | null): TabBend | null {
+	if (!propEnabled(propsEl, 'Bended')) return null;
+	const points = readGpifCurve((field) => propFloat(propsEl, `Bend${field}`));
+	return { kind: bendKindFromPoints(points), points };
+}
+
+/** Bits of a GPIF <Accent> value */
+const ACCENT_STACCATO = 0x01;
+const ACCENT_HEAVY = 0x04;
+const ACCENT_NORMAL = 0x08;
+
+/** GPIF <Ornament> names → ornament */
+const ORNAMENTS: Record<string, Ornament> = {
+	Turn: 'turn',
+	InvertedTurn: 'invertedTurn',
+	UpperMordent: 'upperMordent',
+	LowerMordent: 'lowerMordent'
+};
+
+/** Transforms a <Note> XML element into a TabNote played at its beat's dynamic. */
+function transformNoteElement(noteEl: Element, tuningPitches: number[], capoFret: number = 0, dynamic: Dynamic = DEFAULT_DYNAMIC): TabNote {
 	const propsEl = noteEl.querySelector(':scope > Properties');
 
 	const stringIndex = parseInt(propValue(propsEl, 'String') ?? '0', 10);
 	const fret = parseInt(propValue(propsEl, 'Fret') ?? '0', 10);
+	const harmonic = propHType(propsEl, 'HarmonicType');
 
-	const pc = pitchClassFromStringFret(tuningPitches, stringIndex, fret, capoFret);
-	const note = noteFromPitchClass(pc, false);
-
-	const isBended = propEnabled(propsEl, 'Bended');
-	const bend = isBended
-		? {
-				origin: propFloat(propsEl, 'BendOriginValue') ?? 0,
-				destination: propFloat(propsEl, 'BendDestinationValue') ?? 0,
-				middle: propFloat(propsEl, 'BendMiddleValue') ?? 0
-			}
-		: null;
+	const midi = soundingMidi(tuningPitches[stringIndex] ?? 0, capoFret, fret, harmonic, propHFret(propsEl, 'HarmonicFret'));
+	const pitch = noteFromMidi(midi);
 
 	const tieEl = noteEl.querySelector(':scope > Tie');
 	const letRingEl = noteEl.querySelector(':scope > LetRing');
 	const vibratoEl = noteEl.querySelector(':scope > Vibrato');
-	const accentEl = noteEl.querySelector(':scope > Accent');
+	const accentFlags = parseInt(childText(noteEl, 'Accent') ?? '0', 10) || 0;
+	const accent = accentFlags & ACCENT_HEAVY ? 2 : accentFlags & ACCENT_NORMAL ? 1 : null;
+	const staccato = (accentFlags & ACCENT_STACCATO) !== 0;
+	// <AntiAccent> marks a ghost note
+	const ghost = noteEl.querySelector(':scope > AntiAccent') !== null;
+	// <Trill> holds the sounding MIDI pitch of the other note, capo included; its speed is set per beat
+	const trillPitch = parseInt(childText(noteEl, 'Trill') ?? '', 10);
 
 	return {
 		string: stringIndex,
 		fret,
-		pitchClass: pc,
-		noteName: note.name,
+		pitchClass: pitch.pitchClass,
+		noteName: pitch.name,
+		midi,
+		pitch,
 		slide: propFlags(propsEl, 'Slide'),
-		harmonic: propHType(propsEl, 'HarmonicType'),
+		harmonic,
 		palmMute: propEnabled(propsEl, 'PalmMuted') ?? false,
 		muted: propEnabled(propsEl, 'Muted') ?? false,
 		letRing: letRingEl !== null,
-		bend,
+		bend: readNoteBend(propsEl),
 		tie: {
 			origin: tieEl ? tieEl.getAttribute('origin') === 'true' : false,
 			destination: tieEl ? tieEl.getAttribute('destination') === 'true' : false
 		},
 		vibrato: vibratoEl?.textContent?.trim() ?? null,
+		// Legato starts on the HopoOrigin note; its direction is resolved by resolveNoteLinks
 		hammerOn: propEnabled(propsEl, 'HopoOrigin') ?? false,
-		pullOff: propEnabled(propsEl, 'HopoDestination') ?? false,
+		pullOff: false,
 		tapped: propEnabled(propsEl, 'Tapped') ?? false,
-		accent: accentEl ? parseInt(accentEl.textContent?.trim() ?? '', 10) || null : null
+		accent,
+		graceNote: null,
+		staccato,
+		trill: isNaN(trillPitch) ? null : { fret: trillPitch - tuningPitches[stringIndex] - capoFret, speed: DEFAULT_TRILL_SPEED },
+		tremoloPicking: null,
+		ornament: ORNAMENTS[childText(noteEl, 'Ornament') ?? ''] ?? null,
+		drum: null,
+		dynamic,
+		velocity: noteVelocity(dynamic, accent, ghost),
+		ghost,
+		soundingLength: soundingLength(1, staccato)
+	};
+}
+
+/** Turns a note of a <GraceNotes> beat into the grace note of the note it leads into. */
+function toGraceNote(note: TabNote, rhythm: Pick<TabGraceNote, 'duration' | 'tuplet'>, onBeat: boolean): TabGraceNote {
+	const transition: GraceNoteTransition = note.slide
+		? 'slide'
+		: note.bend
+			? 'bend'
+			: note.hammerOn
+				? 'hammer'
+				: 'none';
+	return { fret: note.fret, ...rhythm, transition, onBeat, dead: note.muted };
+}
+
+// ---------------------------------------------------------------------------
+// Beat effects from XML
+// ---------------------------------------------------------------------------
+
+/** XProperty holding a brush's length in ticks (960 per quarter note) */
+const BRUSH_DURATION_XPROPERTY = '687935489';
+/** Brush length assumed when the file stores none */
+const DEFAULT_BRUSH_DURATION: Duration = '32nd';
+/** XProperty holding the length of each trill alternation in ticks */
+const TRILL_SPEED_XPROPERTY = '688062467';
+/** Trill speed assumed when the file stores none */
+const DEFAULT_TRILL_SPEED: Duration = '16th';
+
+/** GPIF <Tremolo> fractions of a quarter note → duration of each stroke */
+const TREMOLO_SPEEDS: Record<string, Duration> = { '1/2': 'eighth', '1/4': '16th', '1/8': '32nd' };
+
+/** Undotted note values, longest first */
+const NOTE_VALUES: Duration[] = ['whole', 'half', 'quarter', 'eighth', '16th', '32nd', '64th', '128th'];
+
+/** Picks the note value closest to a length in quarter notes. */
+function nearestDuration(quarters: number): Duration {
+	let best: Duration = 'quarter';
+	let bestDistance = Infinity;
+	for (const duration of NOTE_VALUES) {
+		const distance = Math.abs(Math.log2(durationToBeats(duration, 0, null) / quarters));
+		if (distance < bestDistance) {
+			best = duration;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
+
+/** Reads a beat XProperty stored in ticks as the nearest note value. */
+function xPropertyDuration(beatEl: Element, id: string): Duration | null {
+	const ticksEl = beatEl.querySelector(`:scope > XProperties > XProperty[id="${id}"] > Int`);
+	const ticks = parseInt(ticksEl?.textContent?.trim() ?? '', 10);
+	return ticks > 0 ? nearestDuration(ticks / 960) : null;
+}
+
+function parseStrokeDirection(text: string | null): StrokeDirection | null {
+	if (text === 'Up') return 'up';
+	if (text === 'Down') return 'down';
+	return null;
+}
+
+/** Reads the whammy bar, brush, pick stroke and slap/pop of a <Beat> element. */
+function readBeatEffects(beatEl: Element): Pick<TabBeat, 'whammy' | 'stroke' | 'pickStroke' | 'slapPop'> {
+	const propsEl = beatEl.querySelector(':scope > Properties');
+
+	// Whammy curves come as a <Whammy> element with camel-cased attributes, or as WhammyBar* properties
+	let whammy: TabBendPoint[] | null = null;
+	const whammyEl = beatEl.querySelector(':scope > Whammy');
+	if (whammyEl) {
+		whammy = readGpifCurve((field) => {
+			const value = parseFloat(whammyEl.getAttribute(field[0].toLowerCase() + field.slice(1)) ?? '');
+			return isNaN(value) ? null : value;
+		});
+	} else if (propEnabled(propsEl, 'WhammyBar')) {
+		whammy = readGpifCurve((field) => propFloat(propsEl, `WhammyBar${field}`));
+	}
+
+	let stroke: TabStroke | null = null;
+	const brush = parseStrokeDirection(propValue(propsEl, 'Brush'));
+	if (brush) {
+		stroke = { direction: brush, duration: xPropertyDuration(beatEl, BRUSH_DURATION_XPROPERTY) ?? DEFAULT_BRUSH_DURATION };
+	}
+
+	return {
+		whammy,
+		stroke,
+		pickStroke: parseStrokeDirection(propValue(propsEl, 'PickStroke')),
+		slapPop: propEnabled(propsEl, 'Slapped') ? 'slap' : propEnabled(propsEl, 'Popped') ? 'pop' : null
 	};
 }
 
@@ -542,13 +638,37 @@ function splitIds(text: string | null): string[] {
 	return text.split(/\s+/).filter((s) => s.length > 0);
 }
 
-/** Builds a bar-index → tempo map from MasterTrack Automations. */
-function buildTempoMap(masterTrackEl: Element | null): Map<number, number> {
-	const tempoMap = new Map<number, number>();
-	if (!masterTrackEl) return tempoMap;
+/** Multipliers converting a GPIF tempo reference unit into quarter-note BPM. */
+const TEMPO_REFERENCE_QUARTERS: Record<number, number> = {
+	1: 0.5, // eighth
+	2: 1, // quarter
+	3: 1.5, // dotted quarter
+	4: 2, // half
+	5: 3 // dotted half
+};
+
+/**
+ * Builds song-wide tempo points from MasterTrack Automations. Each automation is
+ * anchored at its bar plus its <Position> (a 0..1 ratio of the bar length); a
+ * <Linear> automation ramps towards the next one instead of stepping.
+ */
+function buildTempoPoints(masterTrackEl: Element | null, masterBarEls: Element[]): TempoPoint[] {
+	const points: TempoPoint[] = [];
+	if (!masterTrackEl) return points;
 
 	const automationsEl = masterTrackEl.querySelector(':scope > Automations');
-	if (!automationsEl) return tempoMap;
+	if (!automationsEl) return points;
+
+	// Bar start positions in quarter notes, from each MasterBar's time signature
+	const barStarts: number[] = [];
+	const barLengths: number[] = [];
+	let position = 0;
+	for (const masterBarEl of masterBarEls) {
+		const length = barLengthInQuarters(parseTimeSignature(childText(masterBarEl, 'Time')));
+		barStarts.push(position);
+		barLengths.push(length);
+		position += length;
+	}
 
 	const autos = automationsEl.querySelectorAll(':scope > Automation');
 	for (const auto of autos) {
@@ -560,21 +680,23 @@ function buildTempoMap(masterTrackEl: Element | null): Map<number, number> {
 		if (barText === null || valueText === null) continue;
 
 		const barIndex = parseInt(barText, 10);
-		const value = parseFloat(valueText);
-		if (!isNaN(barIndex) && !isNaN(value)) {
-			tempoMap.set(barIndex, value);
-		}
+		const [tempoText, referenceText] = valueText.split(/\s+/);
+		const value = parseFloat(tempoText);
+		if (isNaN(barIndex) || isNaN(value)) continue;
+
+		const reference = referenceText ? parseInt(referenceText, 10) : 2;
+		const ratio = parseFloat(childText(auto, 'Position') ?? '0') || 0;
+		const barStart = barStarts[barIndex] ?? position;
+		const barLength = barLengths[barIndex] ?? 4;
+
+		points.push({
+			position: barStart + Math.min(1, Math.max(0, ratio)) * barLength,
+			tempo: value * (TEMPO_REFERENCE_QUARTERS[reference] ?? 1),
+			linear: childText(auto, 'Linear')?.toLowerCase() === 'true'
+		});
 	}
-	return tempoMap;
-}
 
-/** Resolves the tempo at a given bar index by walking backwards through the tempo map. */
-function tempoAtBar(barIndex: number, tempoMap: Map<number, number>, defaultTempo: number): number {
-	for (let i = barIndex; i >= 0; i--) {
-		const t = tempoMap.get(i);
-		if (t !== undefined) return t;
-	}
-	return defaultTempo;
+	return points.sort((a, b) => a.position - b.position);
 }
 
 /** Transforms GPIF XML DOM into a TabSong. Exported for reuse by GP7+ ZIP parser. */
@@ -584,9 +706,20 @@ export function gpifToTabSong(doc: Document): TabSong {
 
 	// Score metadata
 	const scoreEl = gpif.querySelector(':scope > Score');
-	const title = scoreEl ? childText(scoreEl, 'Title') ?? '' : '';
-	const artist = scoreEl ? childText(scoreEl, 'Artist') ?? '' : '';
-	const album = scoreEl ? childText(scoreEl, 'Album') ?? '' : '';
+	const scoreText = (tag: string) => (scoreEl ? childText(scoreEl, tag) ?? '' : '');
+	const info = {
+		title: scoreText('Title'),
+		subtitle: scoreText('SubTitle'),
+		artist: scoreText('Artist'),
+		album: scoreText('Album'),
+		words: scoreText('Words'),
+		music: scoreText('Music'),
+		copyright: scoreText('Copyright'),
+		tabber: scoreText('Tabber'),
+		instructions: scoreText('Instructions'),
+		// One notice per line
+		notices: scoreText('Notices').split(/\r?\n/).filter((line) => line.length > 0)
+	};
 
 	// Build lookup maps for all ID-referenced entities
 	const noteMap = indexElements(gpif.querySelector(':scope > Notes'), 'Note');
@@ -601,14 +734,10 @@ export function gpifToTabSong(doc: Document): TabSong {
 		? Array.from(masterBarsEl.querySelectorAll(':scope > MasterBar'))
 		: [];
 
-	// Tempo map from MasterTrack automations
+	// Tempo points from MasterTrack automations
 	const masterTrackEl = gpif.querySelector(':scope > MasterTrack');
-	const tempoMap = buildTempoMap(masterTrackEl);
-
-	let initialTempo = 120;
-	if (tempoMap.size > 0) {
-		initialTempo = tempoMap.get(0) ?? 120;
-	}
+	const tempoPoints = buildTempoPoints(masterTrackEl, masterBarEls);
+	const initialTempo = tempoAtPosition(tempoPoints, 0, 120);
 
 	// Tracks
 	const tracksEl = gpif.querySelector(':scope > Tracks');
@@ -623,12 +752,12 @@ export function gpifToTabSong(doc: Document): TabSong {
 			beatMap,
 			noteMap,
 			rhythmMap,
-			tempoMap,
+			tempoPoints,
 			initialTempo
 		)
 	);
 
-	return { title, artist, album, tempo: initialTempo, tracks };
+	return { ...info, tempo: initialTempo, tracks };
 }
 
 /** Transforms a single <Track> element into a TabTrack. */
@@ -640,7 +769,7 @@ function transformTrackElement(
 	beatMap: Map<string, Element>,
 	noteMap: Map<string, Element>,
 	rhythmMap: Map<string, Element>,
-	tempoMap: Map<number, number>,
+	tempoPoints: TempoPoint[],
 	defaultTempo: number
 ): TabTrack {
 	const trackId = trackEl.getAttribute('id') ?? '0';
@@ -694,14 +823,20 @@ function transformTrackElement(
 		}
 	}
 
-	// Convert MIDI pitches to Note[] — kept in GPX native low→high order during parsing;
-	// reversed to high→low (index 0 = highest pitch) before returning, to match GP3/GP5 convention.
-	const tuning: Note[] = tuningPitches
-		.map((midi) => noteFromPitchClass(midiToPitchClass(midi)));
+	// Drum tracks: GM key of each note, from the articulation it refers to
+	const drumKit = readDrumKit(trackEl);
+	const drumKeys = new Map<TabNote, number>();
+
+	// Chord diagrams, referenced by id from the beats
+	const chords = readTrackChords(trackEl, tuningPitches.length);
+	const chordIds = new Set(chords.map((c) => c.id));
 
 	// Determine track index for bar resolution
 	const trackIndex = parseInt(trackId, 10);
-	let globalBeatIndex = 0;
+	// Beat indices run per voice so voice 1 keeps its sequential numbering
+	const voiceBeatIndex: number[] = [];
+	// Grace notes waiting for the next beat of their voice, keyed by string
+	const pendingGrace: (Map<number, TabGraceNote> | undefined)[] = [];
 	const bars: TabBar[] = [];
 	const trackBeatIds: string[] = [];
 
@@ -729,7 +864,7 @@ function transformTrackElement(
 		const keySig = keyEl
 			? {
 					accidentalCount: parseInt(childText(keyEl, 'AccidentalCount') ?? '0', 10),
-					mode: (childText(keyEl, 'Mode')?.toLowerCase() ?? 'major') as 'major' | 'minor'
+					mode: (childText(keyEl, 'Mode')?.toLowerCase() ?? 'major') as KeySignature['mode']
 				}
 			: null;
 
@@ -742,95 +877,133 @@ function transformTrackElement(
 				}
 			: null;
 
-		// Parse repeat
-		const repeatEl = masterBarEl.querySelector(':scope > Repeat');
-		const repeatStart = repeatEl ? repeatEl.getAttribute('start') === 'true' : false;
-		const repeatEnd = repeatEl ? repeatEl.getAttribute('end') === 'true' : false;
-		const repeatCount = repeatEl ? parseInt(repeatEl.getAttribute('count') ?? '0', 10) || 0 : 0;
+		// Parse repeats, alternate endings and directions
+		const navigation = readMasterBarNavigation(masterBarEl);
 
 		// Resolve beats from the bar's voices
 		const voicesText = childText(barEl, 'Voices');
 		const voiceIds = splitIds(voicesText);
-		const tabBeats: TabBeat[] = [];
-		const currentTempo = tempoAtBar(mbIdx, tempoMap, defaultTempo);
-
-		// Use first voice (primary voice)
-		if (voiceIds.length > 0) {
-			const voiceEl = voiceMap.get(voiceIds[0]);
-			if (voiceEl) {
-				const voiceBeatsText = childText(voiceEl, 'Beats');
-				const voiceBeatIds = splitIds(voiceBeatsText);
-
-				for (const beatId of voiceBeatIds) {
-					const beatEl = beatMap.get(beatId);
-					if (!beatEl) continue;
-					trackBeatIds.push(beatId);
-
-					// Resolve rhythm
-					const rhythmRef = beatEl.querySelector(':scope > Rhythm')?.getAttribute('ref');
-					const rhythmEl = rhythmRef ? rhythmMap.get(rhythmRef) : undefined;
-
-					// Resolve notes
-					const notesText = childText(beatEl, 'Notes');
-					const noteIds = splitIds(notesText);
-					const tabNotes: TabNote[] = noteIds
-						.map((nid) => noteMap.get(nid))
-						.filter((n): n is Element => n !== undefined)
-						.map((n) => transformNoteElement(n, tuningPitches, capoFret));
-
-					// Extract duration from rhythm
-					const noteValueText = rhythmEl
-						? childText(rhythmEl, 'NoteValue')
-						: null;
-					const duration = (noteValueText?.toLowerCase() ?? 'quarter') as Duration;
-
-					// Extract tuplet
-					const tupletEl = rhythmEl?.querySelector(':scope > PrimaryTuplet');
-					const tuplet = tupletEl
-						? {
-								num: parseInt(tupletEl.getAttribute('num') ?? '1', 10) || 1,
-								den: parseInt(tupletEl.getAttribute('den') ?? '1', 10) || 1
-							}
-						: null;
-
-					// Extract dot count
-					const dotEl = rhythmEl?.querySelector(':scope > AugmentationDot');
-					const dotCount = dotEl
-						? parseInt(dotEl.getAttribute('count') ?? '0', 10) || 0
-						: 0;
-
-					const isRest = tabNotes.length === 0;
-
-					// Extract dynamic
-					const dynamicText = childText(beatEl, 'Dynamic');
-
-					tabBeats.push({
-						index: globalBeatIndex++,
-						barIndex: mbIdx,
-						notes: tabNotes,
-						duration,
-						tuplet: tuplet && (tuplet.num !== 1 || tuplet.den !== 1) ? tuplet : null,
-						dotted: dotCount,
-						isRest,
-						dynamic: dynamicText,
-						tempo: currentTempo
+
+		// Resolve every voice slot; unused slots are "-1" and resolve to no beats
+		const voices: TabBeat[][] = [];
+		for (let vIdx = 0; vIdx < voiceIds.length; vIdx++) {
+			const tabBeats: TabBeat[] = [];
+			voices.push(tabBeats);
+
+			const voiceEl = voiceMap.get(voiceIds[vIdx]);
+			if (!voiceEl) continue;
+			if (voiceBeatIndex[vIdx] === undefined) voiceBeatIndex[vIdx] = 0;
+
+			const voiceBeatsText = childText(voiceEl, 'Beats');
+			const voiceBeatIds = splitIds(voiceBeatsText);
+
+			for (const beatId of voiceBeatIds) {
+				const beatEl = beatMap.get(beatId);
+				if (!beatEl) continue;
+				trackBeatIds.push(beatId);
+
+				// Resolve rhythm
+				const rhythmRef = beatEl.querySelector(':scope > Rhythm')?.getAttribute('ref');
+				const rhythmEl = rhythmRef ? rhythmMap.get(rhythmRef) : undefined;
+
+				// Notes play at the beat's dynamic
+				const dynamic = dynamicFromGpif(childText(beatEl, 'Dynamic'));
+
+				// Resolve notes
+				const notesText = childText(beatEl, 'Notes');
+				const noteIds = splitIds(notesText);
+				const tabNotes: TabNote[] = noteIds
+					.map((nid) => noteMap.get(nid))
+					.filter((n): n is Element => n !== undefined)
+					.map((n) => {
+						const note = transformNoteElement(n, tuningPitches, capoFret, dynamic ?? DEFAULT_DYNAMIC);
+						const articulation = parseInt(childText(n, 'InstrumentArticulation') ?? '', 10);
+						const key = drumKit?.[articulation];
+						if (key !== undefined) drumKeys.set(note, key);
+						return note;
 					});
+
+				// Extract duration from rhythm
+				const noteValueText = rhythmEl
+					? childText(rhythmEl, 'NoteValue')
+					: null;
+				const duration = (noteValueText?.toLowerCase() ?? 'quarter') as Duration;
+
+				// Extract tuplet
+				const tupletEl = rhythmEl?.querySelector(':scope > PrimaryTuplet');
+				const tuplet = tupletEl
+					? {
+							num: parseInt(tupletEl.getAttribute('num') ?? '1', 10) || 1,
+							den: parseInt(tupletEl.getAttribute('den') ?? '1', 10) || 1
+						}
+					: null;
+
+				// Extract dot count
+				const dotEl = rhythmEl?.querySelector(':scope > AugmentationDot');
+				const dotCount = dotEl
+					? parseInt(dotEl.getAttribute('count') ?? '0', 10) || 0
+					: 0;
+
+				const rhythm = { duration, tuplet: tuplet && (tuplet.num !== 1 || tuplet.den !== 1) ? tuplet : null };
+
+				// Grace beats take no time of their own: their notes become the grace notes
+				// of the notes on the same strings in the next beat of the voice
+				const graceNotes = childText(beatEl, 'GraceNotes');
+				if (graceNotes !== null) {
+					pendingGrace[vIdx] = new Map(tabNotes.map((n) => [n.string, toGraceNote(n, rhythm, graceNotes === 'OnBeat')]));
+					continue;
+				}
+				// Trill speed and tremolo picking are stored on the beat but apply to each of its notes
+				const trillSpeed = xPropertyDuration(beatEl, TRILL_SPEED_XPROPERTY);
+				const tremolo = TREMOLO_SPEEDS[childText(beatEl, 'Tremolo') ?? ''] ?? null;
+				for (const note of tabNotes) {
+					note.graceNote = pendingGrace[vIdx]?.get(note.string) ?? null;
+					if (note.trill && trillSpeed) note.trill.speed = trillSpeed;
+					note.tremoloPicking = tremolo;
 				}
+				pendingGrace[vIdx] = undefined;
+
+				const isRest = tabNotes.length === 0;
+
+				const chordRef = childText(beatEl, 'Chord');
+
+				tabBeats.push({
+					index: voiceBeatIndex[vIdx]++,
+					voice: vIdx,
+					barIndex: mbIdx,
+					notes: tabNotes,
+					...rhythm,
+					dotted: dotCount,
+					isRest,
+					dynamic,
+					tempo: defaultTempo,
+					chordId: chordRef !== null && chordIds.has(chordRef) ? chordRef : null,
+					...readBeatEffects(beatEl)
+				});
 			}
 		}
+		if (voices.length === 0) voices.push([]);
+		trimEmptyVoices(voices);
 
 		bars.push({
 			index: mbIdx,
 			timeSignature: timeSig,
 			keySignature: keySig,
+			tripletFeel: readTripletFeel(masterBarEl),
 			section,
-			beats: tabBeats,
-			repeatStart,
-			repeatEnd,
-			repeatCount
+			beats: voices[0],
+			voices,
+			...navigation
 		});
 	}
 
+	// Resolve each beat's tempo from its exact position, interpolating linear ramps
+	applyTempoPoints(bars, tempoPoints, defaultTempo);
+	resolveNoteLinks(bars);
+	// Notes without an articulation carry the GM key as their fret, the GP5 convention
+	if (drumKit) resolveDrumHits(bars, (note) => drumKeys.get(note) ?? note.fret);
+	spellFromKeySignatures(bars);
+
 	// Fallback: scan this track's beat FreeText for capo annotations (e.g. "capo 4th fret")
 	if (capoFret === 0) {
 		const capoPattern = /capo\s+(\d+)/i;
@@ -854,12 +1027,14 @@ function transformTrackElement(
 	// Normalize to high→low convention (index 0 = highest pitch string) matching GP3/GP5 and types.ts.
 	// GPX XML stores tuning low→high and note.string 0 = lowest pitch; flip both.
 	const stringCount = tuningPitches.length;
-	const reversedTuning = [...tuning].reverse();
+	const reversedTuning = spellTuning(tuningPitches, bars).reverse();
 	const reversedTuningMidi = [...tuningPitches].reverse();
 	for (const bar of bars) {
-		for (const beat of bar.beats) {
-			for (const note of beat.notes) {
-				note.string = stringCount - 1 - note.string;
+		for (const voice of bar.voices) {
+			for (const beat of voice) {
+				for (const note of beat.notes) {
+					note.string = stringCount - 1 - note.string;
+				}
 			}
 		}
 	}
@@ -869,28 +1044,304 @@ function transformTrackElement(
 		name: childText(trackEl, 'Name') ?? 'Track',
 		shortName: childText(trackEl, 'ShortName') ?? '',
 		instrument: trackEl.querySelector(':scope > Instrument')?.getAttribute('ref') ?? null,
+		kind: drumKit ? 'percussion' : 'stringed',
+		midi: readTrackMidi(trackEl, masterBarEls, drumKit !== null),
 		tuning: reversedTuning,
 		tuningMidi: reversedTuningMidi,
 		capoFret,
-		bars
+		bars,
+		chords,
+		lyrics: readTrackLyrics(trackEl, bars)
 	};
 }
 
+/**
+ * Output MIDI keys of a drum track's articulations, in the order notes refer to
+ * them by <InstrumentArticulation>; null for stringed tracks. GP7 drum tracks
+ * have a drumKit InstrumentSet, GP6 ones a percussion GeneralMidi table and no
+ * articulations: their notes store the GM key as the fret.
+ */
+function readDrumKit(trackEl: Element): number[] | null {
+	const instrumentSetEl = trackEl.querySelector(':scope > InstrumentSet');
+	const isDrumKit = instrumentSetEl !== null && childText(instrumentSetEl, 'Type') === 'drumKit';
+	const isPercussion = trackEl.querySelector(':scope > GeneralMidi')?.getAttribute('table') === 'Percussion';
+	if (!isDrumKit && !isPercussion) return null;
+
+	const articulationEls = trackEl.querySelectorAll(':scope > InstrumentSet > Elements > Element > Articulations > Articulation');
+	return Array.from(articulationEls, (el) => parseInt(childText(el, 'OutputMidiNumber') ?? '', 10));
+}
+
+/** GM program of a GPIF track without a sound (25 = steel-string guitar) */
+const DEFAULT_PROGRAM = 25;
+
+/** Volume of a GPIF track without a channel strip, on the MIDI scale */
+const DEFAULT_VOLUME = 103;
+
+/** <ChannelStrip> <Parameters> indices of the pan and volume faders (0..1) */
+const CHANNEL_STRIP_PAN = 11;
+const CHANNEL_STRIP_VOLUME = 12;
+
+/** GPIF track automation types → TabAutomation types, for the mixer levels GPIF automates */
+const GPIF_LEVEL_AUTOMATIONS: Record<string, TabAutomation['type']> = {
+	volume: 'volume',
+	pan: 'pan'
+};
+
+/**
+ * Reads a track's MIDI output. GP7 keeps the program and bank on its first
+ * <Sound> and the port and channels on <MidiConnection>; GP6 has all of them on
+ * <GeneralMidi>. Faders come from the <ChannelStrip> (under <RSE> in GP6). Track <Automations> switch
+ * sounds ("path;name;role", matched against the <Sounds>) or move faders.
+ */
+function readTrackMidi(trackEl: Element, masterBarEls: Element[], percussion: boolean): TabMidi {
+	const intText = (el: Element | null, tag: string): number | null => {
+		const value = el ? parseInt(childText(el, tag) ?? '', 10) : NaN;
+		return isNaN(value) ? null : value;
+	};
+
+	const generalMidiEl = trackEl.querySelector(':scope > GeneralMidi');
+	const connectionEl = trackEl.querySelector(':scope > MidiConnection') ?? generalMidiEl;
+	const soundEls = Array.from(trackEl.querySelectorAll(':scope > Sounds > Sound'));
+	const soundProgram = (soundEl: Element | undefined): number | null =>
+		soundEl ? intText(soundEl.querySelector(':scope > MIDI'), 'Program') : null;
+
+	const program = soundProgram(soundEls[0]) ?? intText(generalMidiEl, 'Program') ?? (percussion ? 0 : DEFAULT_PROGRAM);
+	const channel = intText(connectionEl, 'PrimaryChannel') ?? (percussion ? 9 : 0);
+
+	const channelStripEl = trackEl.querySelector(':scope > ChannelStrip, :scope > RSE > ChannelStrip');
+	const faders = (channelStripEl?.querySelector(':scope > Parameters')?.textContent ?? '')
+		.trim()
+		.split(/\s+/)
+		.map(parseFloat);
+	const fader = (index: number, fallback: number): number =>
+		isNaN(faders[index]) ? fallback : Math.round(Math.min(1, Math.max(0, faders[index])) * 127);
+
+	const automations: TabAutomation[] = [];
+	for (const auto of trackEl.querySelectorAll(':scope > Automations > Automation')) {
+		const type = childText(auto, 'Type')?.toLowerCase() ?? '';
+		const barIndex = parseInt(childText(auto, 'Bar') ?? '', 10);
+		const valueText = childText(auto, 'Value') ?? '';
+		if (isNaN(barIndex)) continue;
+
+		let automation: Pick<TabAutomation, 'type' | 'value'> | null = null;
+		if (type === 'sound') {
+			// Several sounds can share a path; the name tells them apart
+			const [path, name] = valueText.split(';');
+			const withPath = soundEls.filter((el) => childText(el, 'Path') === path);
+			const soundEl = withPath.find((el) => childText(el, 'Name') === name) ?? withPath[0];
+			const value = soundProgram(soundEl);
+			if (value !== null) automation = { type: 'program', value };
+		} else if (GPIF_LEVEL_AUTOMATIONS[type]) {
+			const value = parseFloat(valueText);
+			if (!isNaN(value)) automation = { type: GPIF_LEVEL_AUTOMATIONS[type], value: Math.round(Math.min(1, Math.max(0, value)) * 127) };
+		}
+		if (!automation) continue;
+
+		const ratio = parseFloat(childText(auto, 'Position') ?? '0') || 0;
+		const masterBarEl = masterBarEls[barIndex];
+		const barLength = barLengthInQuarters(parseTimeSignature(masterBarEl ? childText(masterBarEl, 'Time') : null));
+		automations.push({
+			...automation,
+			barIndex,
+			position: Math.min(1, Math.max(0, ratio)) * barLength,
+			transition: 0
+		});
+	}
+	automations.sort((a, b) => a.barIndex - b.barIndex || a.position - b.position);
+
+	return {
+		program,
+		programName: gmProgramName(program, percussion),
+		bank: intText(soundEls[0]?.querySelector(':scope > MIDI') ?? null, 'MSB') ?? 0,
+		port: intText(connectionEl, 'Port') ?? 0,
+		channel,
+		effectChannel: intText(connectionEl, 'SecondaryChannel') ?? channel,
+		volume: fader(CHANNEL_STRIP_VOLUME, DEFAULT_VOLUME),
+		pan: fader(CHANNEL_STRIP_PAN, 64),
+		chorus: 0,
+		reverb: 0,
+		phaser: 0,
+		tremolo: 0,
+		automations
+	};
+}
+
+/** GPIF finger names used by diagram <Fingering> positions. */
+const GPIF_FINGERS: Record<string, number> = {
+	Thumb: 0,
+	Index: 1,
+	Middle: 2,
+	Annular: 3,
+	Pinky: 4
+};
+
+/**
+ * Reads the chord diagrams of a track's DiagramCollection (track Properties in
+ * GP6, Staff Properties in GP7+). Diagram strings count from the lowest one and
+ * frets are relative to the diagram's 0-based baseFret.
+ */
+function readTrackChords(trackEl: Element, stringCount: number): TabChord[] {
+	const collection =
+		findProperty(trackEl.querySelector(':scope > Properties'), 'DiagramCollection') ??
+		findProperty(trackEl.querySelector(':scope > Staves > Staff > Properties'), 'DiagramCollection');
+	if (!collection) return [];
+
+	const toStringIndex = (el: Element): number => stringCount - 1 - parseInt(el.getAttribute('string') ?? '', 10);
+	const inRange = (s: number): boolean => s >= 0 && s < stringCount;
+
+	const chords: TabChord[] = [];
+	for (const itemEl of collection.querySelectorAll(':scope > Items > Item')) {
+		const id = itemEl.getAttribute('id');
+		const diagramEl = itemEl.querySelector(':scope > Diagram');
+		if (!id || !diagramEl) continue;
+
+		const baseFret = parseInt(diagramEl.getAttribute('baseFret') ?? '0', 10) || 0;
+		const frets = new Array<number>(stringCount).fill(-1);
+		const fingering = new Array<number>(stringCount).fill(-1);
+
+		for (const fretEl of diagramEl.querySelectorAll(':scope > Fret')) {
+			const s = toStringIndex(fretEl);
+			const fret = parseInt(fretEl.getAttribute('fret') ?? '', 10);
+			if (inRange(s) && !isNaN(fret)) frets[s] = fret === 0 ? 0 : baseFret + fret;
+		}
+		for (const positionEl of diagramEl.querySelectorAll(':scope > Fingering > Position')) {
+			const s = toStringIndex(positionEl);
+			const finger = GPIF_FINGERS[positionEl.getAttribute('finger') ?? ''];
+			if (inRange(s) && finger !== undefined) fingering[s] = finger;
+		}
+
+		chords.push({
+			id,
+			name: itemEl.getAttribute('name') ?? '',
+			baseFret: baseFret + 1,
+			frets,
+			barres: fingeredBarres(frets, fingering),
+			fingering
+		});
+	}
+	return chords;
+}
+
+/** GPIF diagrams carry no barre records: one finger fretting several strings at the same fret is a barre. */
+function fingeredBarres(frets: number[], fingering: number[]): TabChord['barres'] {
+	const barres: TabChord['barres'] = [];
+	const seen = new Set<string>();
+	for (let s = 0; s < frets.length; s++) {
+		const key = `${fingering[s]}:${frets[s]}`;
+		if (fingering[s] < 0 || frets[s] <= 0 || seen.has(key)) continue;
+		seen.add(key);
+
+		const strings = frets
+			.map((fret, i) => (fret === frets[s] && fingering[i] === fingering[s] ? i : -1))
+			.filter((i) => i >= 0);
+		if (strings.length > 1) {
+			barres.push({ fret: frets[s], firstString: strings[0], lastString: strings[strings.length - 1] });
+		}
+	}
+	return barres;
+}
+
+/** Reads a track's <Lyrics> lines; each <Offset> is the 0-based bar the line starts in. */
+function readTrackLyrics(trackEl: Element, bars: TabBar[]): TabLyricLine[] {
+	const lineEls = trackEl.querySelectorAll(':scope > Lyrics > Line');
+	const lines: TabLyricLine[] = [];
+	for (const lineEl of lineEls) {
+		const text = lineEl.querySelector(':scope > Text')?.textContent ?? '';
+		if (text.trim().length === 0) continue;
+		const startBar = parseInt(childText(lineEl, 'Offset') ?? '0', 10) || 0;
+		lines.push(alignLyricLine(bars, startBar, text));
+	}
+	return lines;
+}
+
+/** Drops trailing voices that hold no beats; voice 1 is always kept. */
+function trimEmptyVoices(voices: TabBeat[][]): void {
+	while (voices.length > 1 && voices[voices.length - 1].length === 0) {
+		voices.pop();
+	}
+}
+
+/** GPIF MasterBar TripletFeel values */
+const TRIPLET_FEELS: Record<string, TripletFeel> = {
+	Triplet8th: 'triplet8th',
+	Triplet16th: 'triplet16th',
+	Dotted8th: 'dotted8th',
+	Dotted16th: 'dotted16th',
+	Scottish8th: 'scottish8th',
+	Scottish16th: 'scottish16th'
+};
+
+/** Reads a MasterBar's <TripletFeel>; absent or NoTripletFeel means straight. */
+function readTripletFeel(masterBarEl: Element): TripletFeel {
+	return TRIPLET_FEELS[childText(masterBarEl, 'TripletFeel') ?? ''] ?? 'none';
+}
+
 /** Creates an empty bar placeholder when a bar can't be resolved. */
 function makeEmptyBar(index: number, masterBarEl: Element): TabBar {
 	const timeText = childText(masterBarEl, 'Time');
+	const beats: TabBeat[] = [];
 	return {
 		index,
 		timeSignature: parseTimeSignature(timeText),
 		keySignature: null,
+		tripletFeel: readTripletFeel(masterBarEl),
 		section: null,
-		beats: [],
-		repeatStart: false,
-		repeatEnd: false,
-		repeatCount: 0
+		beats,
+		voices: [beats],
+		...readMasterBarNavigation(masterBarEl)
 	};
 }
 
+const DIRECTION_TARGETS: DirectionTarget[] = ['Coda', 'DoubleCoda', 'Segno', 'SegnoSegno', 'Fine'];
+
+const DIRECTION_JUMPS: DirectionJump[] = [
+	'DaCapo',
+	'DaCapoAlCoda',
+	'DaCapoAlDoubleCoda',
+	'DaCapoAlFine',
+	'DaSegno',
+	'DaSegnoAlCoda',
+	'DaSegnoAlDoubleCoda',
+	'DaSegnoAlFine',
+	'DaSegnoSegno',
+	'DaSegnoSegnoAlCoda',
+	'DaSegnoSegnoAlDoubleCoda',
+	'DaSegnoSegnoAlFine',
+	'DaCoda',
+	'DaDoubleCoda'
+];
+
+type BarNavigation = Pick<TabBar, 'repeatStart' | 'repeatEnd' | 'repeatCount' | 'alternateEndings' | 'directions'>;
+
+/** Reads a MasterBar's repeat marks, alternate endings and Target/Jump directions. */
+function readMasterBarNavigation(masterBarEl: Element): BarNavigation {
+	const repeatEl = masterBarEl.querySelector(':scope > Repeat');
+	const repeatStart = repeatEl ? repeatEl.getAttribute('start') === 'true' : false;
+	const repeatEnd = repeatEl ? repeatEl.getAttribute('end') === 'true' : false;
+	const repeatCount = repeatEl ? parseInt(repeatEl.getAttribute('count') ?? '0', 10) || 0 : 0;
+
+	// Space-separated 1-based ending numbers, e.g. "1 2"
+	const alternateEndings = splitIds(childText(masterBarEl, 'AlternateEndings'))
+		.map((v) => parseInt(v, 10))
+		.filter((v) => !isNaN(v) && v > 0);
+
+	let directions: TabBar['directions'] = null;
+	const directionsEl = masterBarEl.querySelector(':scope > Directions');
+	if (directionsEl) {
+		const targets = Array.from(directionsEl.querySelectorAll(':scope > Target'))
+			.map((el) => el.textContent?.trim() as DirectionTarget)
+			.filter((v) => DIRECTION_TARGETS.includes(v));
+		const jumps = Array.from(directionsEl.querySelectorAll(':scope > Jump'))
+			.map((el) => el.textContent?.trim() as DirectionJump)
+			.filter((v) => DIRECTION_JUMPS.includes(v));
+		if (targets.length > 0 || jumps.length > 0) {
+			directions = { targets, jumps };
+		}
+	}
+
+	return { repeatStart, repeatEnd, repeatCount, alternateEndings, directions };
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
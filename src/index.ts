@@ -17,7 +17,7 @@
 /**
  * guitarpro-parser — Pure JavaScript parser for Guitar Pro files.
  *
- * Supports .gpx (GP6), .gp (GP7+), .gp5 (GP5), and .gp3 (GP3) formats.
+ * Supports .gpx (GP6), .gp (GP7+), .gp5 (GP5), .gp4 (GP4), and .gp3 (GP3) formats.
  * Works in both browser and Node.js environments.
  *
  * @example
@@ -35,20 +35,66 @@
 export { parseTabFile, detectFormat } from './tab-parser.js';
 
 // Format-specific parsers
-export { parseGpxFile, gpifToTabSong, durationToBeats, beatDurationMs, musicalBeatPosition, barMusicalBeatCount } from './gpx-parser.js';
-export { parseGp5File } from './gp5-parser.js';
+export { parseGpxFile, gpifToTabSong } from './gpx-parser.js';
+export { parseGp5File, parseGp4File } from './gp5-parser.js';
 export { parseGp3File } from './gp3-parser.js';
 
+// Timing
+export { durationToBeats, graceNoteBeats, beatDurationMs, swingPosition, musicalBeatPosition, barMusicalBeatCount } from './timing.js';
+
+// Playback
+export { playbackOrder } from './playback.js';
+
+// Drums
+export { drumHit } from './drums.js';
+
+// Instruments
+export { gmProgramName } from './instruments.js';
+
+// Export
+export { toMidiFile } from './midi-writer.js';
+export { toMusicXml } from './musicxml-writer.js';
+export { writeGp5File } from './gp5-writer.js';
+export { writeGp7File } from './tab-parser.js';
+export { tabSongToGpif } from './gpif-writer.js';
+export { renderAsciiTab } from './ascii-tab.js';
+export type { AsciiTabOptions } from './ascii-tab.js';
+
 // Types
 export type {
 	Duration,
+	Dynamic,
 	TabNote,
+	TabBend,
+	TabBendPoint,
+	BendKind,
+	TabGraceNote,
+	GraceNoteTransition,
+	TabTrill,
+	Ornament,
+	TabDrumHit,
+	DrumPiece,
+	DrumArticulation,
 	TabBeat,
+	TabStroke,
+	StrokeDirection,
+	SlapPop,
 	TabBar,
 	TabTrack,
-	TabSong
+	TrackKind,
+	TabMidi,
+	TabAutomation,
+	AutomationType,
+	TabSong,
+	TabChord,
+	TabLyricLine,
+	TabLyricSyllable,
+	DirectionTarget,
+	DirectionJump,
+	KeySignature,
+	TripletFeel
 } from './types.js';
 
 // Pitch utilities
 export type { PitchClass, Accidental, Note } from './pitch.js';
-export { noteFromPitchClass, midiToPitchClass } from './pitch.js';
+export { noteFromPitchClass, noteFromMidi, spellPitch, spellMidi, midiToPitchClass } from './pitch.js';
@@ -0,0 +1,75 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Instruments : General MIDI program names and the Guitar Pro mixer scale.
+ * Shared by every parser and writer.
+ *
+ * GP3/GP4/GP5 store mixer levels (volume, balance, effects) from 0 to 16;
+ * TabMidi reports them on the MIDI controller scale, 0 to 127.
+ */
+
+/** General MIDI level 1 program names, indexed by program number */
+const GM_PROGRAM_NAMES = [
+	'Acoustic Grand Piano', 'Bright Acoustic Piano', 'Electric Grand Piano', 'Honky-tonk Piano',
+	'Electric Piano 1', 'Electric Piano 2', 'Harpsichord', 'Clavinet',
+	'Celesta', 'Glockenspiel', 'Music Box', 'Vibraphone',
+	'Marimba', 'Xylophone', 'Tubular Bells', 'Dulcimer',
+	'Drawbar Organ', 'Percussive Organ', 'Rock Organ', 'Church Organ',
+	'Reed Organ', 'Accordion', 'Harmonica', 'Tango Accordion',
+	'Acoustic Guitar (nylon)', 'Acoustic Guitar (steel)', 'Electric Guitar (jazz)', 'Electric Guitar (clean)',
+	'Electric Guitar (muted)', 'Overdriven Guitar', 'Distortion Guitar', 'Guitar Harmonics',
+	'Acoustic Bass', 'Electric Bass (finger)', 'Electric Bass (pick)', 'Fretless Bass',
+	'Slap Bass 1', 'Slap Bass 2', 'Synth Bass 1', 'Synth Bass 2',
+	'Violin', 'Viola', 'Cello', 'Contrabass',
+	'Tremolo Strings', 'Pizzicato Strings', 'Orchestral Harp', 'Timpani',
+	'String Ensemble 1', 'String Ensemble 2', 'Synth Strings 1', 'Synth Strings 2',
+	'Choir Aahs', 'Voice Oohs', 'Synth Voice', 'Orchestra Hit',
+	'Trumpet', 'Trombone', 'Tuba', 'Muted Trumpet',
+	'French Horn', 'Brass Section', 'Synth Brass 1', 'Synth Brass 2',
+	'Soprano Sax', 'Alto Sax', 'Tenor Sax', 'Baritone Sax',
+	'Oboe', 'English Horn', 'Bassoon', 'Clarinet',
+	'Piccolo', 'Flute', 'Recorder', 'Pan Flute',
+	'Blown Bottle', 'Shakuhachi', 'Whistle', 'Ocarina',
+	'Lead 1 (square)', 'Lead 2 (sawtooth)', 'Lead 3 (calliope)', 'Lead 4 (chiff)',
+	'Lead 5 (charang)', 'Lead 6 (voice)', 'Lead 7 (fifths)', 'Lead 8 (bass + lead)',
+	'Pad 1 (new age)', 'Pad 2 (warm)', 'Pad 3 (polysynth)', 'Pad 4 (choir)',
+	'Pad 5 (bowed)', 'Pad 6 (metallic)', 'Pad 7 (halo)', 'Pad 8 (sweep)',
+	'FX 1 (rain)', 'FX 2 (soundtrack)', 'FX 3 (crystal)', 'FX 4 (atmosphere)',
+	'FX 5 (brightness)', 'FX 6 (goblins)', 'FX 7 (echoes)', 'FX 8 (sci-fi)',
+	'Sitar', 'Banjo', 'Shamisen', 'Koto',
+	'Kalimba', 'Bagpipe', 'Fiddle', 'Shanai',
+	'Tinkle Bell', 'Agogo', 'Steel Drums', 'Woodblock',
+	'Taiko Drum', 'Melodic Tom', 'Synth Drum', 'Reverse Cymbal',
+	'Guitar Fret Noise', 'Breath Noise', 'Seashore', 'Bird Tweet',
+	'Telephone Ring', 'Helicopter', 'Applause', 'Gunshot'
+];
+
+/** Names a General MIDI program (0-127); percussion channels play a drum kit whatever the program. */
+export function gmProgramName(program: number, percussion = false): string {
+	if (percussion) return 'Drum Kit';
+	return GM_PROGRAM_NAMES[program] ?? `Program ${program}`;
+}
+
+/** Converts a GP3/GP4/GP5 mixer level (0-16, balance 8 = centre) to the MIDI controller scale (0-127, pan 64 = centre). */
+export function midiLevelFromGp(value: number): number {
+	return Math.max(0, Math.min(127, Math.round((value * 127) / 16)));
+}
+
+/** Converts a MIDI controller level (0-127) back to the GP3/GP4/GP5 mixer scale (0-16). */
+export function gpLevelFromMidi(value: number): number {
+	return Math.max(0, Math.min(16, Math.round((value * 16) / 127)));
+}
@@ -0,0 +1,55 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Lyrics : splits Guitar Pro lyric text into syllables and aligns them to the
+ * beats they are sung on. Shared by every parser.
+ *
+ * Guitar Pro convention: a line starts at its start bar and each syllable
+ * advances one non-rest beat of the primary voice. Syllables are separated by
+ * whitespace and hyphens ("Hel-lo" → "Hel-", "lo"), a "+" keeps several words
+ * on one beat ("to+the" → "to the") and "[...]" is a comment taking no beat.
+ */
+
+import type { TabBar, TabLyricLine, TabLyricSyllable } from './types.js';
+
+/** Splits lyric text into syllables, keeping each hyphen on the syllable it ends. */
+export function splitSyllables(text: string): string[] {
+	const syllables: string[] = [];
+	const words = text.replace(/\[[^\]]*\]/g, ' ').split(/\s+/);
+	for (const word of words) {
+		for (const part of word.replace(/-/g, '-\n').split('\n')) {
+			if (part.replace(/-/g, '').length === 0) continue;
+			syllables.push(part.replace(/\+/g, ' '));
+		}
+	}
+	return syllables;
+}
+
+/** Builds a lyric line starting at `startBar`, aligning its syllables to the track's non-rest beats. */
+export function alignLyricLine(bars: TabBar[], startBar: number, text: string): TabLyricLine {
+	const pending = splitSyllables(text);
+	const syllables: TabLyricSyllable[] = [];
+
+	for (let barIndex = Math.max(0, startBar); barIndex < bars.length && syllables.length < pending.length; barIndex++) {
+		bars[barIndex].beats.forEach((beat, beatIndex) => {
+			if (beat.isRest || syllables.length >= pending.length) return;
+			syllables.push({ text: pending[syllables.length], barIndex, beatIndex });
+		});
+	}
+
+	return { startBar, text, syllables };
+}
@@ -0,0 +1,379 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * MIDI writer : renders a TabSong as a Type-1 Standard MIDI File.
+ * Pure, zero native dependencies — runs in the browser like the parsers.
+ *
+ * Pipeline: TabSong → playback order → timed note/meta events → SMF bytes
+ *
+ * The first MTrk is a conductor track holding tempo and time signature
+ * meta events; it is followed by one MTrk per TabTrack.
+ */
+
+import type { AutomationType, TabBar, TabTrack, TabSong } from './types.js';
+import { durationToBeats, graceNoteBeats, barLengthInQuarters, swingPosition } from './timing.js';
+import { playbackOrder } from './playback.js';
+
+/** Ticks per quarter note */
+const PPQ = 960;
+
+const DEAD_NOTE_VELOCITY = 40;
+/** Dead notes sound as a short click (a 32nd note) whatever their written value */
+const DEAD_NOTE_TICKS = PPQ / 8;
+const GRACE_NOTE_VELOCITY = 80;
+
+type MixerLevel = Exclude<AutomationType, 'program'>;
+
+/** Controller numbers of the mixer levels (GM: volume, pan, effects 1-5 depth) */
+const LEVEL_CONTROLLERS: Record<MixerLevel, number> = {
+	volume: 7,
+	pan: 10,
+	reverb: 91,
+	tremolo: 92,
+	chorus: 93,
+	phaser: 95
+};
+/** Level ramps move in steps of a 16th note */
+const RAMP_STEPS_PER_QUARTER = 4;
+
+// ---------------------------------------------------------------------------
+// Byte buffer
+// ---------------------------------------------------------------------------
+
+class MidiWriter {
+	private bytes: number[] = [];
+
+	byte(v: number): this {
+		this.bytes.push(v & 0xff);
+		return this;
+	}
+
+	data(values: ArrayLike<number>): this {
+		for (let i = 0; i < values.length; i++) this.byte(values[i]);
+		return this;
+	}
+
+	uint16(v: number): this {
+		return this.byte(v >> 8).byte(v);
+	}
+
+	uint32(v: number): this {
+		return this.byte(v >>> 24).byte(v >>> 16).byte(v >>> 8).byte(v);
+	}
+
+	chars(s: string): this {
+		for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+		return this;
+	}
+
+	/** Variable-length quantity (7 bits per byte, high bit = continuation). */
+	varLen(v: number): this {
+		const groups = [v & 0x7f];
+		while ((v >>= 7) > 0) groups.unshift((v & 0x7f) | 0x80);
+		return this.data(groups);
+	}
+
+	get length(): number {
+		return this.bytes.length;
+	}
+
+	toArray(): number[] {
+		return this.bytes;
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Event timeline
+// ---------------------------------------------------------------------------
+
+/** A timed MIDI event; `order` sorts simultaneous events (note-offs before note-ons). */
+interface MidiEvent {
+	tick: number;
+	order: number;
+	data: number[];
+}
+
+const ORDER_NOTE_OFF = 0;
+const ORDER_META = 1;
+const ORDER_NOTE_ON = 2;
+
+interface SoundingNote {
+	pitch: number;
+	velocity: number;
+	start: number;
+	end: number;
+}
+
+/** The last note on a voice's string, still open to ties and let ring. */
+interface OpenNote {
+	sounding: SoundingNote;
+	/** Tick where its written value ends; a tie destination starting here continues it */
+	writtenEnd: number;
+	/** Rings on until the next note on its string */
+	letRing: boolean;
+}
+
+/** A played bar: its index in the track and its start tick in the unrolled timeline. */
+interface PlayedBar {
+	index: number;
+	start: number;
+}
+
+function unrollBars(bars: TabBar[], order: number[]): PlayedBar[] {
+	const played: PlayedBar[] = [];
+	let tick = 0;
+	for (const index of order) {
+		const bar = bars[index];
+		if (!bar) continue;
+		played.push({ index, start: tick });
+		tick += Math.round(barLengthInQuarters(bar.timeSignature) * PPQ);
+	}
+	return played;
+}
+
+/** Tick a straight position in a bar (quarter notes from its start) is played at, after the bar's triplet feel. */
+function swungTick(bar: TabBar, barStart: number, position: number): number {
+	return barStart + Math.round(swingPosition(position, bar.tripletFeel) * PPQ);
+}
+
+function metaEvent(tick: number, type: number, payload: number[]): MidiEvent {
+	return { tick, order: ORDER_META, data: [0xff, type, ...varLenBytes(payload.length), ...payload] };
+}
+
+function varLenBytes(v: number): number[] {
+	return new MidiWriter().varLen(v).toArray();
+}
+
+function textBytes(s: string): number[] {
+	// Meta text is Latin-1 by convention; replace anything wider
+	return Array.from(s, (c) => {
+		const code = c.charCodeAt(0);
+		return code < 256 ? code : 0x3f;
+	});
+}
+
+/** Tempo and time signature changes, taken from the first track as every track shares them. */
+function conductorEvents(song: TabSong, played: PlayedBar[]): MidiEvent[] {
+	const events: MidiEvent[] = [metaEvent(0, 0x03, textBytes(song.title))];
+	if (song.copyright) events.push(metaEvent(0, 0x02, textBytes(song.copyright)));
+	const bars = song.tracks[0]?.bars ?? [];
+
+	let currentTempo = -1;
+	let currentTimeSig = '';
+	const pushTempo = (tick: number, tempo: number): void => {
+		if (tempo <= 0 || tempo === currentTempo) return;
+		currentTempo = tempo;
+		const mpq = Math.round(60000000 / tempo);
+		events.push(metaEvent(tick, 0x51, [(mpq >> 16) & 0xff, (mpq >> 8) & 0xff, mpq & 0xff]));
+	};
+
+	pushTempo(0, song.tempo);
+	for (const { index, start } of played) {
+		const bar = bars[index];
+		const { numerator, denominator } = bar.timeSignature;
+		const timeSig = `${numerator}/${denominator}`;
+		if (timeSig !== currentTimeSig) {
+			currentTimeSig = timeSig;
+			const denominatorPower = Math.max(0, Math.round(Math.log2(denominator)));
+			events.push(metaEvent(start, 0x58, [numerator, denominatorPower, 24, 8]));
+		}
+
+		let position = 0;
+		for (const beat of bar.beats) {
+			pushTempo(swungTick(bar, start, position), beat.tempo);
+			position += durationToBeats(beat.duration, beat.dotted, beat.tuplet);
+		}
+	}
+
+	return events;
+}
+
+/**
+ * Collects the notes of one track, merging tied notes into the note they continue.
+ * Notes sound for their sounding length; let ring holds them until the next note on the string.
+ */
+function collectNotes(track: TabTrack, played: PlayedBar[]): SoundingNote[] {
+	const notes: SoundingNote[] = [];
+	// Last note per voice and string, so tie destinations can extend it
+	const lastNotes = new Map<string, OpenNote>();
+
+	for (const { index, start } of played) {
+		const bar = track.bars[index];
+		if (!bar) continue;
+
+		bar.voices.forEach((voice, vIdx) => {
+			let position = 0;
+			for (const beat of voice) {
+				const beats = durationToBeats(beat.duration, beat.dotted, beat.tuplet);
+				const tick = swungTick(bar, start, position);
+				const length = swungTick(bar, start, position + beats) - tick;
+				position += beats;
+
+				for (const note of beat.notes) {
+					const key = `${vIdx}:${note.string}`;
+					const open = lastNotes.get(key);
+					// Staccato and duration percent shorten the note within its written value
+					const soundingTicks = Math.max(1, Math.round(length * note.soundingLength));
+					if (note.tie.destination && open && open.writtenEnd === tick) {
+						open.sounding.end = tick + soundingTicks;
+						open.writtenEnd = tick + length;
+						open.letRing = note.letRing;
+						continue;
+					}
+					const previous = open?.sounding;
+					if (previous && open.letRing) previous.end = Math.max(previous.end, tick);
+
+					const openPitch = track.tuningMidi[note.string];
+					if (openPitch === undefined) continue;
+					// Drum hits sound their GM percussion key, other notes their sounding pitch (harmonics included)
+					const pitch = note.drum?.key ?? note.midi;
+					if (pitch < 0 || pitch > 127) continue;
+
+					// A grace note sounds before the beat, cutting the previous note short,
+					// or on the beat, delaying the note it leads into
+					let start = tick;
+					const grace = note.graceNote;
+					if (grace) {
+						const graceLength = Math.min(Math.round(graceNoteBeats(grace) * PPQ), length - 1);
+						const graceStart = grace.onBeat ? tick : Math.max(0, tick - graceLength);
+						// A flam or drag on a drum hits the same drum
+						const gracePitch = note.drum?.key ?? openPitch + track.capoFret + grace.fret;
+						if (previous && previous.end > graceStart) previous.end = Math.max(previous.start + 1, graceStart);
+						if (gracePitch >= 0 && gracePitch <= 127 && graceLength > 0) {
+							notes.push({
+								pitch: gracePitch,
+								velocity: grace.dead ? DEAD_NOTE_VELOCITY : GRACE_NOTE_VELOCITY,
+								start: graceStart,
+								end: graceStart + graceLength
+							});
+						}
+						if (grace.onBeat && graceLength > 0) start = tick + graceLength;
+					}
+
+					const end = Math.max(start + 1, tick + soundingTicks);
+					const sounding: SoundingNote = note.muted
+						? { pitch, velocity: DEAD_NOTE_VELOCITY, start, end: Math.min(end, start + DEAD_NOTE_TICKS) }
+						: { pitch, velocity: note.velocity, start, end };
+					notes.push(sounding);
+					lastNotes.set(key, { sounding, writtenEnd: tick + length, letRing: note.letRing && !note.muted });
+				}
+			}
+		});
+	}
+
+	return notes;
+}
+
+/**
+ * The track's sound and mixer at the start, then its automations each time
+ * their bar is played. Level transitions ramp from the level in effect.
+ */
+function mixerEvents(track: TabTrack, channel: number, played: PlayedBar[]): MidiEvent[] {
+	const { midi } = track;
+	const event = (tick: number, data: number[]): MidiEvent => ({ tick, order: ORDER_META, data });
+	const levels = new Map<MixerLevel, number>(
+		(Object.keys(LEVEL_CONTROLLERS) as MixerLevel[]).map((type) => [type, midi[type]])
+	);
+
+	const events: MidiEvent[] = [];
+	if (midi.bank > 0) events.push(event(0, [0xb0 | channel, 0x00, midi.bank]));
+	events.push(event(0, [0xc0 | channel, midi.program]));
+	for (const [type, value] of levels) {
+		events.push(event(0, [0xb0 | channel, LEVEL_CONTROLLERS[type], value]));
+	}
+
+	for (const { index, start } of played) {
+		const bar = track.bars[index];
+		if (!bar) continue;
+		for (const automation of midi.automations) {
+			if (automation.barIndex !== index) continue;
+			const tick = swungTick(bar, start, automation.position);
+			if (automation.type === 'program') {
+				events.push(event(tick, [0xc0 | channel, automation.value]));
+				continue;
+			}
+
+			const controller = LEVEL_CONTROLLERS[automation.type];
+			const from = levels.get(automation.type) ?? automation.value;
+			const steps = Math.max(1, Math.round(automation.transition * RAMP_STEPS_PER_QUARTER));
+			for (let step = 1; step <= steps; step++) {
+				const value = Math.round(from + ((automation.value - from) * step) / steps);
+				const stepTick = tick + Math.round(((step - 1) / RAMP_STEPS_PER_QUARTER) * PPQ);
+				events.push(event(stepTick, [0xb0 | channel, controller, value]));
+			}
+			levels.set(automation.type, automation.value);
+		}
+	}
+
+	return events;
+}
+
+function trackEvents(track: TabTrack, channel: number, played: PlayedBar[]): MidiEvent[] {
+	const events: MidiEvent[] = [metaEvent(0, 0x03, textBytes(track.name)), ...mixerEvents(track, channel, played)];
+
+	for (const note of collectNotes(track, played)) {
+		events.push({ tick: note.start, order: ORDER_NOTE_ON, data: [0x90 | channel, note.pitch, note.velocity] });
+		events.push({ tick: note.end, order: ORDER_NOTE_OFF, data: [0x80 | channel, note.pitch, 0] });
+	}
+
+	return events;
+}
+
+// ---------------------------------------------------------------------------
+// Chunk serialization
+// ---------------------------------------------------------------------------
+
+function writeTrackChunk(w: MidiWriter, events: MidiEvent[]): void {
+	const sorted = events
+		.map((event, i) => ({ event, i }))
+		.sort((a, b) => a.event.tick - b.event.tick || a.event.order - b.event.order || a.i - b.i)
+		.map(({ event }) => event);
+
+	const body = new MidiWriter();
+	let lastTick = 0;
+	for (const event of sorted) {
+		body.varLen(event.tick - lastTick).data(event.data);
+		lastTick = event.tick;
+	}
+	body.varLen(0).data([0xff, 0x2f, 0x00]); // end of track
+
+	w.chars('MTrk').uint32(body.length).data(body.toArray());
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders a TabSong as a Type-1 Standard MIDI File.
+ *
+ * Repeats, alternate endings and D.C./D.S. directions are unrolled with
+ * playbackOrder; tied notes sound as one note and dead notes as short, soft clicks.
+ */
+export function toMidiFile(song: TabSong): Uint8Array {
+	const played = unrollBars(song.tracks[0]?.bars ?? [], playbackOrder(song));
+
+	const w = new MidiWriter();
+	w.chars('MThd').uint32(6).uint16(1).uint16(song.tracks.length + 1).uint16(PPQ);
+
+	writeTrackChunk(w, conductorEvents(song, played));
+	for (const track of song.tracks) {
+		writeTrackChunk(w, trackEvents(track, track.midi.channel, played));
+	}
+
+	return new Uint8Array(w.toArray());
+}
@@ -0,0 +1,583 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * MusicXML writer : renders a TabSong as a MusicXML 4.0 partwise document.
+ * Pure string building, zero dependencies.
+ *
+ * Each TabTrack becomes a part with a single TAB staff; every note carries its
+ * sounding pitch plus `<technical>` string/fret so notation editors can show
+ * both the tablature and the standard notation.
+ */
+
+import type { Duration, Ornament, KeySignature, TabNote, TabBend, TabBeat, TabBar, TabTrack, TabSong } from './types.js';
+import { spellMidi } from './pitch.js';
+
+// ---------------------------------------------------------------------------
+// XML building
+// ---------------------------------------------------------------------------
+
+function escapeXml(s: string): string {
+	return s
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/** Line-based XML builder with two-space indentation. */
+class XmlWriter {
+	private lines: string[] = [];
+	private depth = 0;
+
+	raw(line: string): this {
+		this.lines.push(line);
+		return this;
+	}
+
+	open(tag: string, attrs = ''): this {
+		this.lines.push(`${'  '.repeat(this.depth)}<${tag}${attrs}>`);
+		this.depth++;
+		return this;
+	}
+
+	close(tag: string): this {
+		this.depth--;
+		this.lines.push(`${'  '.repeat(this.depth)}</${tag}>`);
+		return this;
+	}
+
+	/** Writes `<tag>text</tag>`, or a self-closing `<tag/>` without text. */
+	leaf(tag: string, text?: string | number, attrs = ''): this {
+		const body = text === undefined ? `<${tag}${attrs}/>` : `<${tag}${attrs}>${escapeXml(String(text))}</${tag}>`;
+		this.lines.push(`${'  '.repeat(this.depth)}${body}`);
+		return this;
+	}
+
+	toString(): string {
+		return this.lines.join('\n') + '\n';
+	}
+}
+
+function attr(name: string, value: string | number): string {
+	return ` ${name}="${escapeXml(String(value))}"`;
+}
+
+// ---------------------------------------------------------------------------
+// Durations
+// ---------------------------------------------------------------------------
+
+/** Power-of-two denominator of each note value, relative to a whole note. */
+const DURATION_DENOMINATORS: Record<Duration, number> = {
+	whole: 1,
+	half: 2,
+	quarter: 4,
+	eighth: 8,
+	'16th': 16,
+	'32nd': 32,
+	'64th': 64,
+	'128th': 128
+};
+
+function gcd(a: number, b: number): number {
+	while (b) [a, b] = [b, a % b];
+	return a;
+}
+
+/** Beat length in quarter notes as an exact fraction [numerator, denominator]. */
+function beatQuarters(beat: TabBeat): [number, number] {
+	// 4 / d quarters, × (2^(dots+1) - 1) / 2^dots for dots, × den / num for tuplets
+	let num = 4 * (2 ** (beat.dotted + 1) - 1);
+	let den = DURATION_DENOMINATORS[beat.duration] * 2 ** beat.dotted;
+	if (beat.tuplet && beat.tuplet.num > 0) {
+		num *= beat.tuplet.den;
+		den *= beat.tuplet.num;
+	}
+	const g = gcd(num, den);
+	return [num / g, den / g];
+}
+
+/** Smallest divisions-per-quarter value that expresses every beat as an integer. */
+function songDivisions(song: TabSong): number {
+	let divisions = 1;
+	for (const track of song.tracks) {
+		for (const bar of track.bars) {
+			for (const voice of bar.voices) {
+				for (const beat of voice) {
+					const den = beatQuarters(beat)[1];
+					divisions = (divisions * den) / gcd(divisions, den);
+				}
+			}
+		}
+	}
+	return divisions;
+}
+
+function beatDivisions(beat: TabBeat, divisions: number): number {
+	const [num, den] = beatQuarters(beat);
+	return (num * divisions) / den;
+}
+
+function barDivisions(bar: TabBar, divisions: number): number {
+	return Math.round((bar.timeSignature.numerator * 4 * divisions) / bar.timeSignature.denominator);
+}
+
+// ---------------------------------------------------------------------------
+// Pitch
+// ---------------------------------------------------------------------------
+
+interface Pitch {
+	step: string;
+	alter: number;
+	octave: number;
+}
+
+/** Spells a MIDI pitch in the key in force, as the parsers spell note names. */
+function midiToPitch(midi: number, key: KeySignature | null): Pitch {
+	const note = spellMidi(midi, key);
+	const alter = note.accidental === 'sharp' ? 1 : note.accidental === 'flat' ? -1 : 0;
+	return { step: note.name[0], alter, octave: note.octave ?? 4 };
+}
+
+function writePitch(w: XmlWriter, tag: 'pitch' | 'staff-tuning', midi: number, key: KeySignature | null, prefix = '', attrs = ''): void {
+	const pitch = midiToPitch(midi, key);
+	w.open(tag, attrs);
+	w.leaf(`${prefix}step`, pitch.step);
+	if (pitch.alter !== 0) w.leaf(`${prefix}alter`, pitch.alter);
+	w.leaf(`${prefix}octave`, pitch.octave);
+	w.close(tag);
+}
+
+// ---------------------------------------------------------------------------
+// Note relationships (ties, slurred techniques)
+// ---------------------------------------------------------------------------
+
+/** Maps every note to the next note played on the same string in the same voice. */
+function nextNotesOnString(track: TabTrack): Map<TabNote, TabNote> {
+	const next = new Map<TabNote, TabNote>();
+	const last = new Map<string, TabNote>();
+	for (const bar of track.bars) {
+		bar.voices.forEach((voice, vIdx) => {
+			for (const beat of voice) {
+				for (const note of beat.notes) {
+					const key = `${vIdx}:${note.string}`;
+					const previous = last.get(key);
+					if (previous) next.set(previous, note);
+					last.set(key, note);
+				}
+			}
+		});
+	}
+	return next;
+}
+
+/** Slide flag bits shared by the parsers (GPIF Slide flags). */
+const SLIDE_SHIFT = 0x01;
+const SLIDE_LEGATO = 0x02;
+const SLIDE_OUT_DOWN = 0x04;
+const SLIDE_OUT_UP = 0x08;
+const SLIDE_IN_BELOW = 0x10;
+const SLIDE_IN_ABOVE = 0x20;
+
+/** Tremolo picking duration → number of tremolo strokes through the stem */
+const TREMOLO_MARKS: Partial<Record<Duration, number>> = { eighth: 1, '16th': 2, '32nd': 3 };
+
+const ORNAMENT_TAGS: Record<Ornament, string> = {
+	turn: 'turn',
+	invertedTurn: 'inverted-turn',
+	upperMordent: 'inverted-mordent',
+	lowerMordent: 'mordent'
+};
+
+interface NoteContext {
+	next: Map<TabNote, TabNote>;
+	/** Notes that close a hammer-on/pull-off or slide started on the previous note */
+	slurStops: Map<TabNote, 'hammer-on' | 'pull-off'>;
+	slideStops: Set<TabNote>;
+}
+
+function buildNoteContext(track: TabTrack): NoteContext {
+	const next = nextNotesOnString(track);
+	const slurStops = new Map<TabNote, 'hammer-on' | 'pull-off'>();
+	const slideStops = new Set<TabNote>();
+	for (const [note, following] of next) {
+		const kind = legatoKind(note);
+		if (kind) slurStops.set(following, kind);
+		if (note.slide !== null && note.slide & (SLIDE_SHIFT | SLIDE_LEGATO)) slideStops.add(following);
+	}
+	return { next, slurStops, slideStops };
+}
+
+/** Hammer-on or pull-off into the following note; parsers resolve the direction. */
+function legatoKind(note: TabNote): 'hammer-on' | 'pull-off' | null {
+	if (note.pullOff) return 'pull-off';
+	return note.hammerOn ? 'hammer-on' : null;
+}
+
+// ---------------------------------------------------------------------------
+// Measure content
+// ---------------------------------------------------------------------------
+
+/**
+ * Writes divisions, clef and staff details on the first measure, then key and time
+ * whenever they change. A bar without a key signature keeps the active key.
+ */
+function writeAttributes(
+	w: XmlWriter,
+	track: TabTrack,
+	bar: TabBar,
+	previous: TabBar | null,
+	activeKey: KeySignature | null,
+	divisions: number
+): void {
+	const first = previous === null;
+	const ts = bar.timeSignature;
+	const keyChanged = first || (bar.keySignature !== null
+		&& (bar.keySignature.accidentalCount !== activeKey?.accidentalCount || bar.keySignature.mode !== activeKey?.mode));
+	const timeChanged = first || ts.numerator !== previous.timeSignature.numerator
+		|| ts.denominator !== previous.timeSignature.denominator;
+	if (!keyChanged && !timeChanged) return;
+
+	w.open('attributes');
+	if (first) w.leaf('divisions', divisions);
+	if (keyChanged) {
+		w.open('key');
+		w.leaf('fifths', bar.keySignature?.accidentalCount ?? 0);
+		w.leaf('mode', bar.keySignature?.mode ?? 'major');
+		w.close('key');
+	}
+	if (timeChanged) {
+		w.open('time');
+		w.leaf('beats', ts.numerator);
+		w.leaf('beat-type', ts.denominator);
+		w.close('time');
+	}
+	if (first) {
+		w.open('clef');
+		w.leaf('sign', 'TAB');
+		w.leaf('line', 5);
+		w.close('clef');
+
+		// MusicXML staff lines count from the bottom; tuningMidi index 0 is the highest string
+		const stringCount = track.tuningMidi.length;
+		w.open('staff-details');
+		w.leaf('staff-lines', stringCount);
+		track.tuningMidi.forEach((midi, idx) => {
+			writePitch(w, 'staff-tuning', midi, bar.keySignature, 'tuning-', attr('line', stringCount - idx));
+		});
+		if (track.capoFret > 0) w.leaf('capo', track.capoFret);
+		w.close('staff-details');
+	}
+	w.close('attributes');
+}
+
+function writeLeftBarline(w: XmlWriter, bars: TabBar[], bar: TabBar): void {
+	const previous = bars[bar.index - 1];
+	const endingStart = bar.alternateEndings.length > 0
+		&& (!previous || previous.alternateEndings.join() !== bar.alternateEndings.join());
+	if (!bar.repeatStart && !endingStart) return;
+
+	w.open('barline', attr('location', 'left'));
+	if (endingStart) w.leaf('ending', undefined, attr('number', bar.alternateEndings.join(', ')) + attr('type', 'start'));
+	if (bar.repeatStart) w.leaf('repeat', undefined, attr('direction', 'forward'));
+	w.close('barline');
+}
+
+function writeRightBarline(w: XmlWriter, bars: TabBar[], bar: TabBar): void {
+	const following = bars[bar.index + 1];
+	const endingStop = bar.alternateEndings.length > 0
+		&& (!following || following.alternateEndings.join() !== bar.alternateEndings.join());
+	if (!bar.repeatEnd && !endingStop) return;
+
+	w.open('barline', attr('location', 'right'));
+	if (endingStop) {
+		// Endings that lead back into the repeat are closed; the last one is left open
+		const type = bar.repeatEnd ? 'stop' : 'discontinue';
+		w.leaf('ending', undefined, attr('number', bar.alternateEndings.join(', ')) + attr('type', type));
+	}
+	if (bar.repeatEnd) {
+		const times = bar.repeatCount > 0 ? attr('times', bar.repeatCount) : '';
+		w.leaf('repeat', undefined, attr('direction', 'backward') + times);
+	}
+	w.close('barline');
+}
+
+function writeSection(w: XmlWriter, bar: TabBar): void {
+	if (!bar.section || (!bar.section.letter && !bar.section.text)) return;
+	w.open('direction', attr('placement', 'above'));
+	w.open('direction-type');
+	if (bar.section.letter) w.leaf('rehearsal', bar.section.letter);
+	if (bar.section.text) w.leaf('words', bar.section.text);
+	w.close('direction-type');
+	w.close('direction');
+}
+
+function writeTimeModification(w: XmlWriter, beat: TabBeat): void {
+	if (!beat.tuplet || beat.tuplet.num <= 0) return;
+	w.open('time-modification');
+	w.leaf('actual-notes', beat.tuplet.num);
+	w.leaf('normal-notes', beat.tuplet.den);
+	w.close('time-modification');
+}
+
+function writeRest(w: XmlWriter, beat: TabBeat, voice: number, divisions: number): void {
+	w.open('note');
+	w.leaf('rest');
+	w.leaf('duration', beatDivisions(beat, divisions));
+	w.leaf('voice', voice + 1);
+	w.leaf('type', beat.duration);
+	for (let d = 0; d < beat.dotted; d++) w.leaf('dot');
+	writeTimeModification(w, beat);
+	w.close('note');
+}
+
+/** MusicXML holds one bend per note: its highest point, in semitones above the start (or the fret for pre-bends). */
+function writeBend(w: XmlWriter, bend: TabBend): void {
+	const origin = bend.points[0]?.value ?? 0;
+	const peak = Math.max(...bend.points.map((p) => p.value));
+	const preBend = bend.kind.startsWith('preBend');
+	w.open('bend');
+	w.leaf('bend-alter', preBend ? peak : peak - origin);
+	if (preBend) w.leaf('pre-bend');
+	else if (bend.kind === 'bendRelease') w.leaf('release');
+	w.close('bend');
+}
+
+function writeNote(
+	w: XmlWriter,
+	track: TabTrack,
+	beat: TabBeat,
+	note: TabNote,
+	chord: boolean,
+	ctx: NoteContext,
+	divisions: number,
+	key: KeySignature | null
+): void {
+	const midi = (track.tuningMidi[note.string] ?? 0) + track.capoFret + note.fret;
+	const following = ctx.next.get(note);
+	const tieStart = note.tie.origin || (following?.tie.destination ?? false);
+	const tieStop = note.tie.destination;
+
+	w.open('note');
+	if (chord) w.leaf('chord');
+	writePitch(w, 'pitch', midi, key);
+	w.leaf('duration', beatDivisions(beat, divisions));
+	if (tieStop) w.leaf('tie', undefined, attr('type', 'stop'));
+	if (tieStart) w.leaf('tie', undefined, attr('type', 'start'));
+	w.leaf('voice', beat.voice + 1);
+	w.leaf('type', beat.duration);
+	for (let d = 0; d < beat.dotted; d++) w.leaf('dot');
+	writeTimeModification(w, beat);
+	if (note.muted || note.ghost) {
+		w.leaf('notehead', note.muted ? 'x' : 'normal', note.ghost ? attr('parentheses', 'yes') : '');
+	}
+
+	w.open('notations');
+	if (tieStop) w.leaf('tied', undefined, attr('type', 'stop'));
+	if (tieStart) w.leaf('tied', undefined, attr('type', 'start'));
+
+	const slide = note.slide ?? 0;
+	if (ctx.slideStops.has(note)) w.leaf('slide', undefined, attr('type', 'stop'));
+	if (slide & (SLIDE_SHIFT | SLIDE_LEGATO) && following) {
+		w.leaf('slide', undefined, attr('type', 'start') + attr('line-type', 'solid'));
+	}
+
+	const tremoloMarks = note.tremoloPicking ? TREMOLO_MARKS[note.tremoloPicking] : undefined;
+	if (note.vibrato || note.trill || note.ornament || tremoloMarks) {
+		w.open('ornaments');
+		if (note.trill) w.leaf('trill-mark');
+		if (note.ornament) w.leaf(ORNAMENT_TAGS[note.ornament]);
+		if (note.vibrato) {
+			w.leaf('wavy-line', undefined, attr('type', 'start'));
+			w.leaf('wavy-line', undefined, attr('type', 'stop'));
+		}
+		if (tremoloMarks) w.leaf('tremolo', tremoloMarks, attr('type', 'single'));
+		w.close('ornaments');
+	}
+
+	const articulations: string[] = [];
+	if (slide & SLIDE_IN_BELOW) articulations.push('scoop');
+	if (slide & SLIDE_IN_ABOVE) articulations.push('plop');
+	if (slide & SLIDE_OUT_DOWN) articulations.push('falloff');
+	if (slide & SLIDE_OUT_UP) articulations.push('doit');
+	if (note.staccato) articulations.push('staccato');
+	if (note.accent === 1) articulations.push('accent');
+	if (note.accent === 2) articulations.push('strong-accent');
+	if (articulations.length > 0) {
+		w.open('articulations');
+		for (const a of articulations) w.leaf(a);
+		w.close('articulations');
+	}
+
+	w.open('technical');
+	const slurStop = ctx.slurStops.get(note);
+	if (slurStop) w.leaf(slurStop, undefined, attr('type', 'stop'));
+	const slurStart = following ? legatoKind(note) : null;
+	if (slurStart) w.leaf(slurStart, slurStart === 'hammer-on' ? 'H' : 'P', attr('type', 'start'));
+	if (note.harmonic) {
+		w.open('harmonic');
+		w.leaf(note.harmonic === 'Natural' ? 'natural' : 'artificial');
+		w.close('harmonic');
+	}
+	if (note.bend) writeBend(w, note.bend);
+	if (note.palmMute) w.leaf('other-technical', 'palm mute');
+	if (note.tapped) w.leaf('tap');
+	// MusicXML string 1 is the highest string, matching TabNote.string 0
+	w.leaf('string', note.string + 1);
+	w.leaf('fret', note.fret);
+	w.close('technical');
+	w.close('notations');
+	w.close('note');
+}
+
+/** Grace notes take no duration; before-beat ones are drawn slashed. */
+function writeGraceNotes(w: XmlWriter, track: TabTrack, beat: TabBeat, key: KeySignature | null): void {
+	const graced = beat.notes.filter((note) => note.graceNote !== null);
+	graced.forEach((note, nIdx) => {
+		const grace = note.graceNote!;
+		w.open('note');
+		w.leaf('grace', undefined, grace.onBeat ? '' : attr('slash', 'yes'));
+		if (nIdx > 0) w.leaf('chord');
+		writePitch(w, 'pitch', (track.tuningMidi[note.string] ?? 0) + track.capoFret + grace.fret, key);
+		w.leaf('voice', beat.voice + 1);
+		w.leaf('type', grace.duration);
+		if (grace.tuplet) {
+			w.open('time-modification');
+			w.leaf('actual-notes', grace.tuplet.num);
+			w.leaf('normal-notes', grace.tuplet.den);
+			w.close('time-modification');
+		}
+		if (grace.dead) w.leaf('notehead', 'x');
+		w.open('notations');
+		w.open('technical');
+		w.leaf('string', note.string + 1);
+		w.leaf('fret', grace.fret);
+		w.close('technical');
+		w.close('notations');
+		w.close('note');
+	});
+}
+
+function writeMeasure(
+	w: XmlWriter,
+	track: TabTrack,
+	bar: TabBar,
+	ctx: NoteContext,
+	divisions: number,
+	key: KeySignature | null
+): void {
+	const measureLength = barDivisions(bar, divisions);
+
+	bar.voices.forEach((voice, vIdx) => {
+		if (vIdx > 0) {
+			w.open('backup');
+			w.leaf('duration', measureLength);
+			w.close('backup');
+		}
+
+		if (voice.length === 0) {
+			w.open('note');
+			w.leaf('rest', undefined, attr('measure', 'yes'));
+			w.leaf('duration', measureLength);
+			w.leaf('voice', vIdx + 1);
+			w.close('note');
+			return;
+		}
+
+		let written = 0;
+		for (const beat of voice) {
+			if (beat.notes.length === 0) {
+				writeRest(w, beat, vIdx, divisions);
+			} else {
+				writeGraceNotes(w, track, beat, key);
+				beat.notes.forEach((note, nIdx) => {
+					writeNote(w, track, beat, note, nIdx > 0, ctx, divisions, key);
+				});
+			}
+			written += beatDivisions(beat, divisions);
+		}
+
+		// Keep later voices aligned when a voice is shorter than the bar
+		if (vIdx < bar.voices.length - 1 && written < measureLength) {
+			w.open('forward');
+			w.leaf('duration', measureLength - written);
+			w.close('forward');
+		}
+	});
+}
+
+function writePart(w: XmlWriter, track: TabTrack, partId: string, divisions: number): void {
+	const ctx = buildNoteContext(track);
+	let activeKey: KeySignature | null = null;
+	w.open('part', attr('id', partId));
+	track.bars.forEach((bar, idx) => {
+		w.open('measure', attr('number', idx + 1));
+		writeLeftBarline(w, track.bars, bar);
+		writeAttributes(w, track, bar, idx > 0 ? track.bars[idx - 1] : null, activeKey, divisions);
+		if (bar.keySignature) activeKey = bar.keySignature;
+		writeSection(w, bar);
+		writeMeasure(w, track, bar, ctx, divisions, activeKey);
+		writeRightBarline(w, track.bars, bar);
+		w.close('measure');
+	});
+	w.close('part');
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Renders a TabSong as a MusicXML 4.0 partwise document, one TAB part per track. */
+export function toMusicXml(song: TabSong): string {
+	const divisions = songDivisions(song);
+	const w = new XmlWriter();
+
+	w.raw('<?xml version="1.0" encoding="UTF-8" standalone="no"?>');
+	w.raw('<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">');
+	w.open('score-partwise', attr('version', '4.0'));
+
+	w.open('work');
+	w.leaf('work-title', song.title);
+	w.close('work');
+	if (song.subtitle) w.leaf('movement-title', song.subtitle);
+	w.open('identification');
+	// Scores without a music credit name the artist as composer
+	const composer = song.music || song.artist;
+	if (composer) w.leaf('creator', composer, attr('type', 'composer'));
+	if (song.words) w.leaf('creator', song.words, attr('type', 'lyricist'));
+	if (song.tabber) w.leaf('creator', song.tabber, attr('type', 'arranger'));
+	if (song.copyright) w.leaf('rights', song.copyright);
+	w.open('encoding');
+	w.leaf('software', 'guitarpro-parser');
+	w.close('encoding');
+	w.close('identification');
+
+	w.open('part-list');
+	song.tracks.forEach((track, idx) => {
+		w.open('score-part', attr('id', `P${idx + 1}`));
+		w.leaf('part-name', track.name);
+		if (track.shortName) w.leaf('part-abbreviation', track.shortName);
+		w.close('score-part');
+	});
+	w.close('part-list');
+
+	song.tracks.forEach((track, idx) => {
+		writePart(w, track, `P${idx + 1}`, divisions);
+	});
+
+	w.close('score-partwise');
+	return w.toString();
+}
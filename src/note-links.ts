@@ -0,0 +1,56 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Note links : resolves the parts of a TabNote that depend on the next note
+ * played on the same string. Shared by every parser.
+ *
+ * Formats mark legato once, on the note it starts from: GP3/GP4/GP5 with one
+ * flag for both directions, GPIF with HopoOrigin. Once parsed, hammerOn means
+ * the next note on the string is higher (or the same fret), pullOff that it is
+ * lower. Ties are marked on the note they continue into; tie.origin is set on
+ * the note they continue from, across bar lines.
+ */
+
+import type { TabBar, TabNote } from './types.js';
+
+/** Calls `fn` for every note and the next note on the same string of the same voice. */
+function forEachNoteLink(bars: TabBar[], fn: (note: TabNote, following: TabNote) => void): void {
+	const last = new Map<string, TabNote>();
+	for (const bar of bars) {
+		bar.voices.forEach((voice, vIdx) => {
+			for (const beat of voice) {
+				for (const note of beat.notes) {
+					const key = `${vIdx}:${note.string}`;
+					const previous = last.get(key);
+					if (previous) fn(previous, note);
+					last.set(key, note);
+				}
+			}
+		});
+	}
+}
+
+/** Sets legato direction and tie origins from the notes that follow on each string. */
+export function resolveNoteLinks(bars: TabBar[]): void {
+	forEachNoteLink(bars, (note, following) => {
+		if (note.hammerOn || note.pullOff) {
+			note.pullOff = following.fret < note.fret;
+			note.hammerOn = !note.pullOff;
+		}
+		if (following.tie.destination) note.tie.origin = true;
+	});
+}
@@ -19,6 +19,8 @@
  * this package fully self-contained with zero external dependencies.
  */
 
+import type { KeySignature, TabBar } from './types.js';
+
 /** Chromatic pitch class: 0 = C, 1 = C#/Db, ..., 11 = B */
 export type PitchClass = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11;
 
@@ -61,6 +63,14 @@ const FLAT_NAMES: Record<PitchClass, string> = {
 	11: 'B'
 };
 
+/** Letters of the natural notes from C, with their pitch classes */
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCH_CLASSES: PitchClass[] = [0, 2, 4, 5, 7, 9, 11];
+
+/** Letters sharpened or flattened by a key signature, in the order they are added */
+const SHARP_ORDER = 'FCGDAEB';
+const FLAT_ORDER = 'BEADGCF';
+
 const NATURAL_PITCH_CLASSES = new Set<PitchClass>([0, 2, 4, 5, 7, 9, 11]);
 
 function resolveAccidental(pc: PitchClass, preferFlats: boolean): Accidental {
@@ -87,3 +97,133 @@ export function noteFromPitchClass(
 export function midiToPitchClass(midi: number): PitchClass {
 	return (((midi % 12) + 12) % 12) as PitchClass;
 }
+
+/** Builds a Note from a MIDI note number, with its octave in scientific pitch notation (60 = C4). */
+export function noteFromMidi(midi: number, preferFlats = false): Note {
+	return noteFromPitchClass(midiToPitchClass(midi), preferFlats, Math.floor(midi / 12) - 1);
+}
+
+/** Spells the seven notes of a key's scale (as written by its signature), keyed by pitch class. */
+function scaleSpellings(accidentalCount: number): Map<PitchClass, Note> {
+	const count = Math.max(-7, Math.min(7, accidentalCount));
+	const spellings = new Map<PitchClass, Note>();
+	LETTERS.forEach((letter, i) => {
+		const alter = count > 0 && SHARP_ORDER.indexOf(letter) < count
+			? 1
+			: count < 0 && FLAT_ORDER.indexOf(letter) < -count
+				? -1
+				: 0;
+		const pc = midiToPitchClass(LETTER_PITCH_CLASSES[i] + alter);
+		spellings.set(pc, {
+			pitchClass: pc,
+			name: letter + (alter > 0 ? '#' : alter < 0 ? 'b' : ''),
+			accidental: alter > 0 ? 'sharp' : alter < 0 ? 'flat' : 'natural'
+		});
+	});
+	return spellings;
+}
+
+/**
+ * Spells a pitch class in a key: notes of the scale as the signature writes them
+ * (Cb in Gb major, E# in F# major), other notes with flats in flat keys and sharps
+ * otherwise. Minor keys raise their 7th degree with a sharp (C# in D minor).
+ * Without a key, notes are spelled with sharps.
+ */
+export function spellPitch(pc: PitchClass, key: KeySignature | null): Note {
+	if (!key) return noteFromPitchClass(pc, false);
+	const scale = scaleSpellings(key.accidentalCount);
+	const inScale = scale.get(pc);
+	if (inScale) return inScale;
+
+	if (key.mode === 'minor') {
+		// The minor tonic sits a minor third below its relative major
+		const tonic = midiToPitchClass(key.accidentalCount * 7 + 9);
+		const seventh = scale.get(midiToPitchClass(tonic - 2));
+		if (pc === midiToPitchClass(tonic - 1) && seventh?.accidental === 'natural') {
+			return { pitchClass: pc, name: `${seventh.name}#`, accidental: 'sharp' };
+		}
+	}
+	return noteFromPitchClass(pc, key.accidentalCount < 0);
+}
+
+/** Spells a MIDI note number in a key, with the octave of its written letter (Cb4 = 59, B#3 = 60). */
+export function spellMidi(midi: number, key: KeySignature | null): Note {
+	const note = spellPitch(midiToPitchClass(midi), key);
+	let octave = Math.floor(midi / 12) - 1;
+	if (note.name === 'Cb') octave += 1;
+	if (note.name === 'B#') octave -= 1;
+	return { ...note, octave };
+}
+
+// ---------------------------------------------------------------------------
+// Sounding pitch and key spelling (shared by all parsers)
+// ---------------------------------------------------------------------------
+
+/** Highest partial whose nodes harmonics sound at */
+const MAX_HARMONIC_PARTIAL = 8;
+
+/** Frets a harmonic may be touched away from a node and still sound its partial */
+const HARMONIC_NODE_TOLERANCE = 0.5;
+
+/**
+ * Semitones a harmonic touched `fret` frets above the point it is played from
+ * sounds above that point: partial n has nodes at k/n of the string, 12·log2(n/(n-k))
+ * frets along it. The nearest node wins, the lowest partial where nodes coincide;
+ * null when no node lies within the tolerance.
+ */
+function harmonicNodeOffset(fret: number): number | null {
+	let offset: number | null = null;
+	let distance = HARMONIC_NODE_TOLERANCE;
+	for (let partial = 2; partial <= MAX_HARMONIC_PARTIAL; partial++) {
+		for (let k = 1; k < partial; k++) {
+			const nodeDistance = Math.abs(12 * Math.log2(partial / (partial - k)) - fret);
+			if (nodeDistance < distance) {
+				distance = nodeDistance;
+				offset = Math.round(12 * Math.log2(partial));
+			}
+		}
+	}
+	return offset;
+}
+
+/** Artificial, pinch, tapped and semi harmonics are touched an octave above the fretted note unless stated */
+const DEFAULT_HARMONIC_FRET = 12;
+
+/**
+ * Sounding MIDI pitch of a note. Natural harmonics sound the partial of the open
+ * string at the node they are played on (12th fret +12, 7th +19, 5th +24); other
+ * harmonics the partial of the fretted note touched `harmonicFret` frets higher.
+ * Frets off a node fall back to the fretted pitch.
+ */
+export function soundingMidi(openMidi: number, capoFret: number, fret: number, harmonic: string | null, harmonicFret: number | null = null): number {
+	const fretted = openMidi + capoFret + fret;
+	if (!harmonic) return fretted;
+	if (harmonic === 'Natural') {
+		const offset = harmonicNodeOffset(harmonicFret ?? fret);
+		return offset === null ? fretted : openMidi + capoFret + offset;
+	}
+	return fretted + (harmonicNodeOffset(harmonicFret ?? DEFAULT_HARMONIC_FRET) ?? 12);
+}
+
+/** Respells every note from the key signature in force at its bar; bars without one keep the previous key. */
+export function spellFromKeySignatures(bars: TabBar[]): void {
+	let key: KeySignature | null = null;
+	for (const bar of bars) {
+		key = bar.keySignature ?? key;
+		for (const voice of bar.voices) {
+			for (const beat of voice) {
+				for (const note of beat.notes) {
+					note.pitch = spellMidi(note.midi, key);
+					note.pitchClass = note.pitch.pitchClass;
+					note.noteName = note.pitch.name;
+				}
+			}
+		}
+	}
+}
+
+/** Spells open-string pitches in the key of the first bar. */
+export function spellTuning(tuningPitches: number[], bars: TabBar[]): Note[] {
+	const key = bars[0]?.keySignature ?? null;
+	return tuningPitches.map((midi) => spellMidi(midi, key));
+}
@@ -0,0 +1,158 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Playback order : unrolls repeats, alternate endings and musical directions
+ * (D.C., D.S., al Coda, al Fine) into the sequence of bars as performed.
+ *
+ * Works on the normalized TabBar fields, so the result is the same for every
+ * source format.
+ */
+
+import type { TabBar, TabTrack, TabSong, DirectionTarget, DirectionJump } from './types.js';
+
+/** How playback continues after a D.C./D.S. jump has been taken */
+type JumpMode = 'none' | 'plain' | 'coda' | 'doubleCoda' | 'fine' | 'done';
+
+/**
+ * Returns the indices of the bars in the order they are played.
+ *
+ * A song is unrolled from its first track's bars, since every track shares
+ * the same bar structure. Once a D.C./D.S. jump is taken, repeats are no
+ * longer honoured and only the last alternate ending of each repeat is played.
+ */
+export function playbackOrder(source: TabTrack | TabSong): number[] {
+	const bars: TabBar[] = 'bars' in source ? source.bars : source.tracks[0]?.bars ?? [];
+	const lastEndings = lastAlternateEndings(bars);
+
+	const order: number[] = [];
+	const repeatJumps = new Map<number, number>();
+	const takenDirections = new Set<number>();
+	let repeatStart = 0;
+	let pass = 1;
+	let mode: JumpMode = 'none';
+	let i = 0;
+
+	while (i < bars.length) {
+		const bar = bars[i];
+		const jumped = mode !== 'none';
+
+		if (!jumped && opensRepeatSection(bars, i) && i !== repeatStart) {
+			repeatStart = i;
+			pass = 1;
+		}
+
+		// Alternate endings only play on their own passes
+		if (bar.alternateEndings.length > 0) {
+			const playedPass = jumped ? lastEndings[i] : pass;
+			if (!bar.alternateEndings.includes(playedPass)) {
+				i++;
+				continue;
+			}
+		}
+
+		order.push(i);
+
+		const targets = bar.directions?.targets ?? [];
+		const jumps = bar.directions?.jumps ?? [];
+
+		if (mode === 'fine' && targets.includes('Fine')) break;
+
+		if ((mode === 'coda' && jumps.includes('DaCoda')) || (mode === 'doubleCoda' && jumps.includes('DaDoubleCoda'))) {
+			const coda = findTarget(bars, mode === 'coda' ? 'Coda' : 'DoubleCoda');
+			if (coda >= 0) {
+				mode = 'done';
+				i = coda;
+				continue;
+			}
+		}
+
+		if (!jumped && bar.repeatEnd) {
+			const taken = repeatJumps.get(i) ?? 0;
+			if (taken < Math.max(bar.repeatCount, 2) - 1) {
+				repeatJumps.set(i, taken + 1);
+				pass++;
+				i = repeatStart;
+				continue;
+			}
+			repeatStart = i + 1;
+			pass = 1;
+		}
+
+		const jump = jumps.find((j) => j !== 'DaCoda' && j !== 'DaDoubleCoda');
+		if (jump && !takenDirections.has(i)) {
+			const target = jumpTarget(bars, jump);
+			if (target >= 0) {
+				takenDirections.add(i);
+				mode = jumpMode(jump);
+				i = target;
+				continue;
+			}
+		}
+
+		i++;
+	}
+
+	return order;
+}
+
+/**
+ * Whether a repeat section starts at the bar: at a repeat start, or right after
+ * an alternate ending group, which closes the section it belongs to.
+ */
+function opensRepeatSection(bars: TabBar[], i: number): boolean {
+	if (bars[i].repeatStart) return true;
+	return i > 0 && bars[i - 1].alternateEndings.length > 0 && bars[i].alternateEndings.length === 0;
+}
+
+/** Index of the first bar carrying the given target, or -1. */
+function findTarget(bars: TabBar[], target: DirectionTarget): number {
+	return bars.findIndex((bar) => bar.directions?.targets.includes(target) ?? false);
+}
+
+/** Bar a D.C./D.S. jump lands on, or -1 when its sign is missing. */
+function jumpTarget(bars: TabBar[], jump: DirectionJump): number {
+	if (jump.startsWith('DaCapo')) return 0;
+	if (jump.startsWith('DaSegnoSegno')) return findTarget(bars, 'SegnoSegno');
+	return findTarget(bars, 'Segno');
+}
+
+function jumpMode(jump: DirectionJump): JumpMode {
+	if (jump.endsWith('AlDoubleCoda')) return 'doubleCoda';
+	if (jump.endsWith('AlCoda')) return 'coda';
+	if (jump.endsWith('AlFine')) return 'fine';
+	return 'plain';
+}
+
+/**
+ * For every bar, the highest alternate ending number of its repeat section
+ * (sections start at each repeat start bar and after each alternate ending group).
+ */
+function lastAlternateEndings(bars: TabBar[]): number[] {
+	const result = new Array<number>(bars.length).fill(0);
+	let sectionStart = 0;
+	for (let i = 0; i <= bars.length; i++) {
+		if (i === bars.length || (opensRepeatSection(bars, i) && i > sectionStart)) {
+			let last = 0;
+			for (let j = sectionStart; j < i; j++) {
+				last = Math.max(last, ...bars[j].alternateEndings);
+			}
+			result.fill(last, sectionStart, i);
+			sectionStart = i;
+		}
+	}
+	return result;
+}
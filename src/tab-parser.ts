@@ -22,6 +22,7 @@
  * - .gpx  → BCFZ/BCFS container (Guitar Pro 6)
  * - .gp   → ZIP container with Content/score.gpif (Guitar Pro 7+)
  * - .gp5  → Legacy sequential binary (Guitar Pro 5)
+ * - .gp4  → Legacy sequential binary (Guitar Pro 4)
  * - .gp3  → Legacy sequential binary (Guitar Pro 3)
  *
  * Pure, zero native dependencies.
@@ -29,8 +30,9 @@
 
 import type { TabSong } from './types.js';
 import { parseGpxFile, gpifToTabSong } from './gpx-parser.js';
-import { parseGp5File } from './gp5-parser.js';
+import { parseGp5File, parseGp4File } from './gp5-parser.js';
 import { parseGp3File } from './gp3-parser.js';
+import { tabSongToGpif } from './gpif-writer.js';
 import { getDOMParser } from './dom.js';
 
 // ---------------------------------------------------------------------------
@@ -325,6 +327,215 @@ function inflate(compressed: Uint8Array, expectedSize: number): Uint8Array {
 	return output.subarray(0, outPos);
 }
 
+// ---------------------------------------------------------------------------
+// Minimal ZIP writer — STORE and DEFLATE (fixed Huffman) methods
+// ---------------------------------------------------------------------------
+
+/** A file to pack into a ZIP archive; `compress` selects DEFLATE instead of STORE. */
+interface ZipInputEntry {
+	fileName: string;
+	data: Uint8Array;
+	compress: boolean;
+}
+
+/** MS-DOS date of 1980-01-01, so identical songs always produce identical archives */
+const ZIP_DOS_DATE = (1 << 5) | 1;
+
+const CRC32_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		table[n] = c;
+	}
+	return table;
+})();
+
+function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Bit writer for DEFLATE streams (bits are packed least significant first). */
+class BitWriter {
+	private bytes: number[] = [];
+	private current = 0;
+	private bitCount = 0;
+
+	writeBits(value: number, count: number): void {
+		for (let i = 0; i < count; i++) {
+			this.current |= ((value >> i) & 1) << this.bitCount;
+			this.bitCount++;
+			if (this.bitCount === 8) {
+				this.bytes.push(this.current);
+				this.current = 0;
+				this.bitCount = 0;
+			}
+		}
+	}
+
+	/** Writes a Huffman code, most significant bit first. */
+	writeCode(code: number, length: number): void {
+		for (let i = length - 1; i >= 0; i--) this.writeBits((code >> i) & 1, 1);
+	}
+
+	finish(): Uint8Array {
+		if (this.bitCount > 0) this.bytes.push(this.current);
+		return new Uint8Array(this.bytes);
+	}
+}
+
+/** Writes a literal/length symbol with the fixed Huffman code of RFC 1951. */
+function writeFixedSymbol(bits: BitWriter, sym: number): void {
+	if (sym <= 143) bits.writeCode(0x30 + sym, 8);
+	else if (sym <= 255) bits.writeCode(0x190 + sym - 144, 9);
+	else if (sym <= 279) bits.writeCode(sym - 256, 7);
+	else bits.writeCode(0xc0 + sym - 280, 8);
+}
+
+/** Index of the last base not greater than value. */
+function baseIndex(bases: number[], value: number): number {
+	let idx = 0;
+	while (idx + 1 < bases.length && bases[idx + 1] <= value) idx++;
+	return idx;
+}
+
+const DEFLATE_WINDOW = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+/** Hash chain candidates examined per position; trades ratio for speed */
+const MAX_CHAIN = 64;
+
+/** Compresses data as a single fixed-Huffman DEFLATE block, with LZ77 matches from hash chains. */
+function deflate(data: Uint8Array): Uint8Array {
+	const bits = new BitWriter();
+	bits.writeBits(1, 1); // BFINAL
+	bits.writeBits(1, 2); // BTYPE = fixed Huffman
+
+	const head = new Int32Array(1 << 15).fill(-1);
+	const prev = new Int32Array(DEFLATE_WINDOW).fill(-1);
+	const hash = (i: number): number => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & 0x7fff;
+	const insert = (i: number): void => {
+		if (i + MIN_MATCH > data.length) return;
+		const h = hash(i);
+		prev[i % DEFLATE_WINDOW] = head[h];
+		head[h] = i;
+	};
+
+	let pos = 0;
+	while (pos < data.length) {
+		let bestLength = 0;
+		let bestDistance = 0;
+
+		if (pos + MIN_MATCH <= data.length) {
+			const maxLength = Math.min(MAX_MATCH, data.length - pos);
+			let candidate = head[hash(pos)];
+			let chain = MAX_CHAIN;
+			while (candidate >= 0 && pos - candidate <= DEFLATE_WINDOW && chain-- > 0) {
+				let length = 0;
+				while (length < maxLength && data[candidate + length] === data[pos + length]) length++;
+				if (length > bestLength) {
+					bestLength = length;
+					bestDistance = pos - candidate;
+					if (length === maxLength) break;
+				}
+				candidate = prev[candidate % DEFLATE_WINDOW];
+			}
+		}
+
+		if (bestLength >= MIN_MATCH) {
+			const lengthIdx = baseIndex(LENGTH_BASE, bestLength);
+			writeFixedSymbol(bits, 257 + lengthIdx);
+			bits.writeBits(bestLength - LENGTH_BASE[lengthIdx], LENGTH_EXTRA[lengthIdx]);
+
+			const distIdx = baseIndex(DIST_BASE, bestDistance);
+			bits.writeCode(distIdx, 5);
+			bits.writeBits(bestDistance - DIST_BASE[distIdx], DIST_EXTRA[distIdx]);
+
+			for (let i = 0; i < bestLength; i++) insert(pos + i);
+			pos += bestLength;
+		} else {
+			writeFixedSymbol(bits, data[pos]);
+			insert(pos);
+			pos++;
+		}
+	}
+
+	writeFixedSymbol(bits, 256); // end of block
+	return bits.finish();
+}
+
+/**
+ * Packs entries into a ZIP archive. Entries asking for compression fall back
+ * to STORE when DEFLATE would not make them smaller.
+ */
+function writeZip(entries: ZipInputEntry[]): Uint8Array {
+	const encoder = new TextEncoder();
+	const localParts: Uint8Array[] = [];
+	const centralParts: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.fileName);
+		const deflated = entry.compress ? deflate(entry.data) : null;
+		const useDeflate = deflated !== null && deflated.length < entry.data.length;
+		const body = useDeflate ? deflated : entry.data;
+		const method = useDeflate ? 8 : 0;
+		const crc = crc32(entry.data);
+
+		const local = new Uint8Array(30 + name.length);
+		const lv = new DataView(local.buffer);
+		lv.setUint32(0, 0x04034b50, true);
+		lv.setUint16(4, 20, true); // version needed
+		lv.setUint16(8, method, true);
+		lv.setUint16(12, ZIP_DOS_DATE, true);
+		lv.setUint32(14, crc, true);
+		lv.setUint32(18, body.length, true);
+		lv.setUint32(22, entry.data.length, true);
+		lv.setUint16(26, name.length, true);
+		local.set(name, 30);
+
+		const central = new Uint8Array(46 + name.length);
+		const cv = new DataView(central.buffer);
+		cv.setUint32(0, 0x02014b50, true);
+		cv.setUint16(4, 20, true); // version made by
+		cv.setUint16(6, 20, true); // version needed
+		cv.setUint16(10, method, true);
+		cv.setUint16(14, ZIP_DOS_DATE, true);
+		cv.setUint32(16, crc, true);
+		cv.setUint32(20, body.length, true);
+		cv.setUint32(24, entry.data.length, true);
+		cv.setUint16(28, name.length, true);
+		cv.setUint32(42, offset, true);
+		central.set(name, 46);
+
+		localParts.push(local, body);
+		centralParts.push(central);
+		offset += local.length + body.length;
+	}
+
+	const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+	const eocd = new Uint8Array(22);
+	const ev = new DataView(eocd.buffer);
+	ev.setUint32(0, 0x06054b50, true);
+	ev.setUint16(8, entries.length, true);
+	ev.setUint16(10, entries.length, true);
+	ev.setUint32(12, centralSize, true);
+	ev.setUint32(16, offset, true);
+
+	const parts = [...localParts, ...centralParts, eocd];
+	const output = new Uint8Array(offset + centralSize + eocd.length);
+	let pos = 0;
+	for (const part of parts) {
+		output.set(part, pos);
+		pos += part.length;
+	}
+	return output;
+}
+
 // ---------------------------------------------------------------------------
 // GP7+ ZIP parser — extracts score.gpif and delegates to GPIF transformer
 // ---------------------------------------------------------------------------
@@ -351,12 +562,54 @@ function parseGp7File(data: Uint8Array): TabSong {
 	return gpifToTabSong(doc);
 }
 
+// ---------------------------------------------------------------------------
+// GP7+ ZIP writer — serializes score.gpif and packs the container
+// ---------------------------------------------------------------------------
+
+/** PartConfiguration flags per track: standard notation (0x01) + tablature (0x02) */
+const PART_NOTATION_AND_TAB = 0x03;
+
+/**
+ * Binary Content/PartConfiguration: big-endian score view count, then per view
+ * a multi-rest flag and one notation flag byte per track. Guitar Pro expects a
+ * full-score view followed by one view per track.
+ */
+function partConfiguration(trackCount: number): Uint8Array {
+	const views = [trackCount, ...new Array<number>(trackCount).fill(1)];
+	const bytes: number[] = [];
+	const int32 = (v: number): void => {
+		bytes.push((v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff);
+	};
+
+	int32(views.length);
+	for (const groupCount of views) {
+		bytes.push(0); // multi-rest off
+		int32(groupCount);
+		for (let i = 0; i < groupCount; i++) bytes.push(PART_NOTATION_AND_TAB);
+	}
+	return new Uint8Array(bytes);
+}
+
+/**
+ * Writes a TabSong as a Guitar Pro 7+ (.gp) file: a ZIP holding VERSION,
+ * Content/score.gpif and Content/PartConfiguration. Reading it back with
+ * parseTabFile yields an equal song.
+ */
+export function writeGp7File(song: TabSong): Uint8Array {
+	const encoder = new TextEncoder();
+	return writeZip([
+		{ fileName: 'VERSION', data: encoder.encode('7.0'), compress: false },
+		{ fileName: 'Content/score.gpif', data: encoder.encode(tabSongToGpif(song)), compress: true },
+		{ fileName: 'Content/PartConfiguration', data: partConfiguration(song.tracks.length), compress: false }
+	]);
+}
+
 // ---------------------------------------------------------------------------
 // Format detection
 // ---------------------------------------------------------------------------
 
 /** Detects file format from header bytes and filename. */
-function detectFormat(data: Uint8Array, fileName?: string): 'gpx' | 'gp7' | 'gp5' | 'gp3' {
+function detectFormat(data: Uint8Array, fileName?: string): 'gpx' | 'gp7' | 'gp5' | 'gp4' | 'gp3' {
 	if (data.length < 4) {
 		throw new Error('File too small to be a valid Guitar Pro file');
 	}
@@ -379,6 +632,7 @@ function detectFormat(data: Uint8Array, fileName?: string): 'gpx' | 'gp7' | 'gp5
 		const versionStr = String.fromCharCode(...Array.from(data.subarray(1, 1 + Math.min(strLen, 40))));
 		if (versionStr.includes('GUITAR PRO')) {
 			if (versionStr.includes('v3.')) return 'gp3';
+			if (versionStr.includes('v4.')) return 'gp4';
 			return 'gp5';
 		}
 	}
@@ -388,7 +642,8 @@ function detectFormat(data: Uint8Array, fileName?: string): 'gpx' | 'gp7' | 'gp5
 		const ext = fileName.toLowerCase();
 		if (ext.endsWith('.gpx')) return 'gpx';
 		if (ext.endsWith('.gp3')) return 'gp3';
-		if (ext.endsWith('.gp5') || ext.endsWith('.gp4')) return 'gp5';
+		if (ext.endsWith('.gp5')) return 'gp5';
+		if (ext.endsWith('.gp4')) return 'gp4';
 		if (ext.endsWith('.gp')) return 'gp7';
 	}
 
@@ -403,7 +658,7 @@ function detectFormat(data: Uint8Array, fileName?: string): 'gpx' | 'gp7' | 'gp5
  * Parses any supported Guitar Pro file format into a TabSong.
  * Detects format automatically from file header bytes.
  *
- * Supported: .gpx (GP6), .gp (GP7+), .gp5 (GP5), .gp3 (GP3)
+ * Supported: .gpx (GP6), .gp (GP7+), .gp5 (GP5), .gp4 (GP4), .gp3 (GP3)
  */
 export function parseTabFile(data: Uint8Array, fileName?: string): TabSong {
 	const format = detectFormat(data, fileName);
@@ -415,6 +670,8 @@ export function parseTabFile(data: Uint8Array, fileName?: string): TabSong {
 			return parseGp7File(data);
 		case 'gp5':
 			return parseGp5File(data);
+		case 'gp4':
+			return parseGp4File(data);
 		case 'gp3':
 			return parseGp3File(data);
 	}
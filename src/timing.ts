@@ -0,0 +1,269 @@
+/**
+ * Copyright 2026 Emilien Bevierre
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Timing : note durations, swing, bar lengths and the tempo map. Shared by every
+ * parser, writer and the playback helpers.
+ *
+ * Positions are measured in quarter notes. GPIF stores tempo as automations at
+ * bar positions, GP3/GP4/GP5 as mix table changes on beats; both become tempo
+ * points that set each beat's tempo.
+ */
+
+import type { Duration, TabBar, TabBeat, TabGraceNote, TripletFeel } from './types.js';
+
+// ---------------------------------------------------------------------------
+// Duration helpers (public — used by playback engine)
+// ---------------------------------------------------------------------------
+
+/** Maps Duration enum to beat fraction (quarter note = 1.0). */
+const DURATION_BEATS: Record<string, number> = {
+	whole: 4,
+	half: 2,
+	quarter: 1,
+	eighth: 0.5,
+	'16th': 0.25,
+	'32nd': 0.125,
+	'64th': 0.0625,
+	'128th': 0.03125
+};
+
+/** Converts a rhythm value to a beat fraction accounting for dots and tuplets. */
+export function durationToBeats(
+	duration: Duration,
+	dotCount: number,
+	tuplet: { num: number; den: number } | null
+): number {
+	let beats = DURATION_BEATS[duration] ?? 1;
+
+	// Augmentation dots: each dot adds half of the previous value
+	let dotValue = beats;
+	for (let i = 0; i < dotCount; i++) {
+		dotValue /= 2;
+		beats += dotValue;
+	}
+
+	// Tuplet: e.g. triplet = 3 notes in the space of 2 → multiply by den/num
+	if (tuplet && tuplet.num > 0) {
+		beats *= tuplet.den / tuplet.num;
+	}
+
+	return beats;
+}
+
+/**
+ * Length of a grace note in quarter notes. It takes no time of its own in the bar:
+ * a before-beat grace note borrows it from the end of the previous beat, an on-beat
+ * one from the start of its principal note.
+ */
+export function graceNoteBeats(grace: TabGraceNote): number {
+	return durationToBeats(grace.duration, 0, grace.tuplet);
+}
+
+/** Share of a swung pair played by its first note, and the pair's length in quarter notes. */
+const SWING_PAIRS: Record<Exclude<TripletFeel, 'none'>, { first: number; pair: number }> = {
+	triplet8th: { first: 2 / 3, pair: 1 },
+	triplet16th: { first: 2 / 3, pair: 0.5 },
+	dotted8th: { first: 3 / 4, pair: 1 },
+	dotted16th: { first: 3 / 4, pair: 0.5 },
+	scottish8th: { first: 1 / 4, pair: 1 },
+	scottish16th: { first: 1 / 4, pair: 0.5 }
+};
+
+/**
+ * Moves a straight position in a bar (quarter notes from its start) to where the
+ * triplet feel plays it: the middle of each eighth or sixteenth pair is shifted, the
+ * pair boundaries stay in place.
+ */
+export function swingPosition(position: number, feel: TripletFeel): number {
+	if (feel === 'none') return position;
+	const { first, pair } = SWING_PAIRS[feel];
+	const pairStart = Math.floor(position / pair) * pair;
+	const offset = (position - pairStart) / pair;
+	const swung = offset < 0.5 ? offset * 2 * first : first + (offset - 0.5) * 2 * (1 - first);
+	return pairStart + swung * pair;
+}
+
+/**
+ * Computes the duration in milliseconds for a beat at its tempo. Pass the bar
+ * holding the beat to play it with the bar's triplet feel.
+ */
+export function beatDurationMs(beat: TabBeat, bar?: TabBar): number {
+	let beatFraction = durationToBeats(beat.duration, beat.dotted, beat.tuplet);
+	const voice = bar?.voices[beat.voice] ?? [];
+	const beatIdx = voice.indexOf(beat);
+	if (bar && bar.tripletFeel !== 'none' && beatIdx >= 0) {
+		let start = 0;
+		for (const b of voice.slice(0, beatIdx)) start += durationToBeats(b.duration, b.dotted, b.tuplet);
+		beatFraction = swingPosition(start + beatFraction, bar.tripletFeel) - swingPosition(start, bar.tripletFeel);
+	}
+	const quarterNoteMs = 60000 / beat.tempo;
+	return beatFraction * quarterNoteMs;
+}
+
+/**
+ * Computes which musical beat (1-based) a tab-beat falls on within its bar.
+ * Musical beats are defined by the time signature: in 4/4 there are 4 beats,
+ * in 6/8 there are 6 beats, etc. A "beat" in the time signature has a duration
+ * of (4 / denominator) quarter notes (e.g. 1.0 for /4, 0.5 for /8).
+ *
+ * @param bar       The bar containing the beat
+ * @param beatIdx   Index of the tab-beat within bar.beats
+ * @returns 1-based musical beat number (clamped to numerator)
+ */
+export function musicalBeatPosition(bar: TabBar, beatIdx: number): number {
+	const { numerator, denominator } = bar.timeSignature;
+	const musicalBeatDuration = 4 / denominator; // in quarter notes
+	let cumulative = 0;
+	for (let i = 0; i < beatIdx && i < bar.beats.length; i++) {
+		const b = bar.beats[i];
+		cumulative += durationToBeats(b.duration, b.dotted, b.tuplet);
+	}
+	const musicalBeat = Math.floor(cumulative / musicalBeatDuration) + 1;
+	return Math.min(musicalBeat, numerator);
+}
+
+/** Returns the number of musical beats in a bar (the time signature numerator). */
+export function barMusicalBeatCount(bar: TabBar): number {
+	return bar.timeSignature.numerator;
+}
+
+// ---------------------------------------------------------------------------
+// Tempo helpers
+// ---------------------------------------------------------------------------
+
+/** A tempo anchored at an absolute song position, measured in quarter notes from the start. */
+export interface TempoPoint {
+	position: number;
+	tempo: number;
+	/** When true, the tempo ramps linearly from this point to the next one. */
+	linear: boolean;
+}
+
+/** A tempo change as stored by the legacy formats: a target tempo reached over `transition` quarter notes. */
+export interface TempoChange {
+	position: number;
+	tempo: number;
+	transition: number;
+}
+
+/** Returns the length of a bar in quarter notes according to its time signature. */
+export function barLengthInQuarters(timeSignature: { numerator: number; denominator: number }): number {
+	return (timeSignature.numerator * 4) / timeSignature.denominator;
+}
+
+/** Resolves the tempo at an absolute position, interpolating across linear ramps. */
+export function tempoAtPosition(points: TempoPoint[], position: number, defaultTempo: number): number {
+	let idx = -1;
+	for (let i = 0; i < points.length; i++) {
+		if (points[i].position <= position + 1e-9) idx = i;
+		else break;
+	}
+	if (idx === -1) return defaultTempo;
+
+	const point = points[idx];
+	const next = points[idx + 1];
+	if (!point.linear || !next || next.position <= point.position) return point.tempo;
+
+	const ratio = (position - point.position) / (next.position - point.position);
+	return point.tempo + (next.tempo - point.tempo) * Math.min(1, Math.max(0, ratio));
+}
+
+/**
+ * Turns legacy tempo changes into tempo points. A change with a transition
+ * ramps linearly from the tempo in effect at its position to the new tempo.
+ */
+export function tempoPointsFromChanges(initialTempo: number, changes: TempoChange[]): TempoPoint[] {
+	const points: TempoPoint[] = [{ position: 0, tempo: initialTempo, linear: false }];
+	const sorted = [...changes].sort((a, b) => a.position - b.position);
+
+	for (const change of sorted) {
+		// Later changes at the same position override earlier ones (e.g. the same change on several tracks)
+		while (points.length > 1 && points[points.length - 1].position >= change.position) {
+			points.pop();
+		}
+		if (points[0].position >= change.position) points.length = 0;
+
+		if (change.transition > 0) {
+			const from = tempoAtPosition(points, change.position, initialTempo);
+			points.push({ position: change.position, tempo: from, linear: true });
+			points.push({ position: change.position + change.transition, tempo: change.tempo, linear: false });
+		} else {
+			points.push({ position: change.position, tempo: change.tempo, linear: false });
+		}
+	}
+
+	return points;
+}
+
+/** Sets every beat's tempo (in every voice) to the tempo in effect at its onset. */
+export function applyTempoPoints(bars: TabBar[], points: TempoPoint[], defaultTempo: number): void {
+	let barStart = 0;
+	for (const bar of bars) {
+		for (const voice of bar.voices) {
+			let offset = 0;
+			for (const beat of voice) {
+				beat.tempo = tempoAtPosition(points, barStart + offset, defaultTempo);
+				offset += durationToBeats(beat.duration, beat.dotted, beat.tuplet);
+			}
+		}
+		barStart += barLengthInQuarters(bar.timeSignature);
+	}
+}
+
+/** A beat as the legacy parsers read it, as far as its length and mix table tempo go */
+export interface LegacyTempoBeat {
+	duration: Duration;
+	dotted: boolean;
+	tuplet: { num: number; den: number } | null;
+	isEmpty: boolean;
+	tempoChange: { tempo: number; duration: number } | null;
+}
+
+/**
+ * Collects mix table tempo changes from every track and voice. Tempo is song-wide,
+ * so a change written on any track applies to all of them from its beat onward.
+ * Empty beats are skipped, as they are dropped from the bars the tempo map is applied to.
+ */
+export function collectTempoChanges(
+	timeSignatures: { numerator: number; denominator: number }[],
+	parsedMeasures: LegacyTempoBeat[][][][]
+): TempoChange[] {
+	const changes: TempoChange[] = [];
+	let barStart = 0;
+
+	for (let mIdx = 0; mIdx < timeSignatures.length; mIdx++) {
+		for (const trackMeasures of parsedMeasures) {
+			for (const voice of trackMeasures[mIdx] ?? []) {
+				let offset = 0;
+				for (const beat of voice) {
+					if (beat.isEmpty) continue;
+					if (beat.tempoChange) {
+						changes.push({
+							position: barStart + offset,
+							tempo: beat.tempoChange.tempo,
+							transition: Math.max(0, beat.tempoChange.duration)
+						});
+					}
+					offset += durationToBeats(beat.duration, beat.dotted ? 1 : 0, beat.tuplet);
+				}
+			}
+		}
+		barStart += barLengthInQuarters(timeSignatures[mIdx]);
+	}
+
+	return changes;
+}
@@ -24,49 +24,313 @@ import type { PitchClass, Note } from './pitch.js';
 /** Duration values matching Guitar Pro's rhythm notation */
 export type Duration = 'whole' | 'half' | 'quarter' | 'eighth' | '16th' | '32nd' | '64th' | '128th';
 
+/** Dynamic markings, softest to loudest */
+export type Dynamic = 'ppp' | 'pp' | 'p' | 'mp' | 'mf' | 'f' | 'ff' | 'fff';
+
 /** A single note on a specific string/fret with technique annotations */
 export interface TabNote {
 	string: number;
 	fret: number;
 	pitchClass: PitchClass;
 	noteName: string;
+	/** Sounding MIDI pitch: open string + capo + fret, or the sounding partial for harmonics */
+	midi: number;
+	/** `midi` as a note with its octave (scientific pitch notation, C4 = 60) */
+	pitch: Note;
 	slide: number | null;
 	harmonic: string | null;
 	palmMute: boolean;
 	muted: boolean;
 	letRing: boolean;
-	bend: { origin: number; destination: number; middle: number } | null;
+	bend: TabBend | null;
+	/** origin: tied into the next note on the string; destination: tied from the previous one */
 	tie: { origin: boolean; destination: boolean };
 	vibrato: string | null;
+	/** Legato into the next note on the string, which is higher (or the same fret) */
 	hammerOn: boolean;
+	/** Legato into the next note on the string, which is lower */
 	pullOff: boolean;
 	tapped: boolean;
+	/** 1 = accent, 2 = heavy accent */
 	accent: number | null;
+	/** Ornamental note leading into this one, null when none */
+	graceNote: TabGraceNote | null;
+	staccato: boolean;
+	/** Rapid alternation with another fret on the same string, null when none */
+	trill: TabTrill | null;
+	/** Rhythmic value of each repeated stroke of tremolo picking, null when none */
+	tremoloPicking: Duration | null;
+	ornament: Ornament | null;
+	/** The drum piece struck, on percussion tracks; null on stringed ones */
+	drum: TabDrumHit | null;
+	/** Dynamic the note is played at ('f' when the file marks none) */
+	dynamic: Dynamic;
+	/** MIDI velocity (1-127): the dynamic, raised by accents and lowered for ghost notes */
+	velocity: number;
+	/** Ghost note: played softly, written in parentheses */
+	ghost: boolean;
+	/** Fraction of its written value the note sounds for: the GP5 duration percent, halved when staccato */
+	soundingLength: number;
+}
+
+/** A General MIDI drum-kit piece */
+export type DrumPiece =
+	| 'kick'
+	| 'snare'
+	| 'hiHat'
+	| 'highTom'
+	| 'midTom'
+	| 'lowTom'
+	| 'floorTom'
+	| 'crash'
+	| 'ride'
+	| 'china'
+	| 'splash'
+	| 'cowbell'
+	| 'tambourine'
+	| 'handClap'
+	| 'vibraslap'
+	| 'bongo'
+	| 'conga'
+	| 'timbale'
+	| 'agogo'
+	| 'cabasa'
+	| 'maracas'
+	| 'whistle'
+	| 'guiro'
+	| 'claves'
+	| 'woodBlock'
+	| 'cuica'
+	| 'triangle'
+	| 'other';
+
+/** How a drum piece is played, e.g. a closed or open hi-hat, a ride bell or a snare side stick */
+export type DrumArticulation =
+	| 'hit'
+	| 'sideStick'
+	| 'electric'
+	| 'closed'
+	| 'open'
+	| 'pedal'
+	| 'bell'
+	| 'mute'
+	| 'high'
+	| 'low'
+	| 'short'
+	| 'long';
+
+/** A percussion note: the GM drum key and the piece and articulation it plays */
+export interface TabDrumHit {
+	/** General MIDI percussion key (35 = acoustic bass drum ... 81 = open triangle) */
+	key: number;
+	piece: DrumPiece;
+	articulation: DrumArticulation;
+}
+
+/** A trill: the note alternates with `fret` on its string, one stroke per `speed` */
+export interface TabTrill {
+	fret: number;
+	speed: Duration;
+}
+
+/** Ornaments written above a note (GPIF only) */
+export type Ornament = 'turn' | 'invertedTurn' | 'upperMordent' | 'lowerMordent';
+
+/** Shape of a bend, named as Guitar Pro does; 'custom' when the curve fits none of them */
+export type BendKind = 'bend' | 'bendRelease' | 'bendReleaseBend' | 'preBend' | 'preBendBend' | 'preBendRelease' | 'custom';
+
+/** A point of a bend curve */
+export interface TabBendPoint {
+	/** Time within the note, from 0 (onset) to 1 (end of its written duration) */
+	position: number;
+	/** Pitch offset above the fretted note, in semitones */
+	value: number;
+	vibrato: boolean;
+}
+
+/** A bend as a curve of time-positioned points, in time order */
+export interface TabBend {
+	kind: BendKind;
+	points: TabBendPoint[];
+}
+
+/** How a grace note moves into its principal note */
+export type GraceNoteTransition = 'none' | 'slide' | 'bend' | 'hammer';
+
+/** A grace note, played on the same string just before (or on) the beat of its principal note */
+export interface TabGraceNote {
+	fret: number;
+	duration: Duration;
+	tuplet: { num: number; den: number } | null;
+	transition: GraceNoteTransition;
+	/** True when played on the beat, delaying the principal note; false when it takes its time from the previous beat */
+	onBeat: boolean;
+	dead: boolean;
 }
 
 /** A beat = a rhythmic moment containing 0..N simultaneous notes */
 export interface TabBeat {
+	/** Sequential index within the track, counted separately for each voice */
 	index: number;
+	/** 0-based voice this beat belongs to (0 = primary voice) */
+	voice: number;
 	barIndex: number;
 	notes: TabNote[];
 	duration: Duration;
 	tuplet: { num: number; den: number } | null;
 	dotted: number;
 	isRest: boolean;
-	dynamic: string | null;
+	/** Dynamic marked on the beat (GPIF), or of its first note (GP3/GP4/GP5); null when it has none */
+	dynamic: Dynamic | null;
 	tempo: number;
+	/** Id of the TabChord shown above this beat (see TabTrack.chords), null when none */
+	chordId: string | null;
+	/** Tremolo bar curve in semitones (negative below the written pitch), null when none */
+	whammy: TabBendPoint[] | null;
+	/** Strum spreading the beat's notes over a short duration, null when they start together */
+	stroke: TabStroke | null;
+	pickStroke: StrokeDirection | null;
+	slapPop: SlapPop | null;
+}
+
+/** Direction of a strum or pick stroke, as Guitar Pro names it */
+export type StrokeDirection = 'up' | 'down';
+
+/** A strum (brush): the beat's notes start one after another within `duration` */
+export interface TabStroke {
+	direction: StrokeDirection;
+	duration: Duration;
+}
+
+/** Bass techniques applied to a whole beat */
+export type SlapPop = 'tap' | 'slap' | 'pop';
+
+/** Navigation marks a jump can land on (GPIF naming) */
+export type DirectionTarget = 'Coda' | 'DoubleCoda' | 'Segno' | 'SegnoSegno' | 'Fine';
+
+/** Navigation jumps, performed after the bar carrying them has been played (GPIF naming) */
+export type DirectionJump =
+	| 'DaCapo'
+	| 'DaCapoAlCoda'
+	| 'DaCapoAlDoubleCoda'
+	| 'DaCapoAlFine'
+	| 'DaSegno'
+	| 'DaSegnoAlCoda'
+	| 'DaSegnoAlDoubleCoda'
+	| 'DaSegnoAlFine'
+	| 'DaSegnoSegno'
+	| 'DaSegnoSegnoAlCoda'
+	| 'DaSegnoSegnoAlDoubleCoda'
+	| 'DaSegnoSegnoAlFine'
+	| 'DaCoda'
+	| 'DaDoubleCoda';
+
+/** Key signature: sharps (positive) or flats (negative) and mode */
+export interface KeySignature {
+	accidentalCount: number;
+	mode: 'major' | 'minor';
 }
 
+/** Swing played over eighths or sixteenths written straight (GP "triplet feel") */
+export type TripletFeel = 'none' | 'triplet8th' | 'triplet16th' | 'dotted8th' | 'dotted16th' | 'scottish8th' | 'scottish16th';
+
 /** A bar with time signature and key info */
 export interface TabBar {
 	index: number;
 	timeSignature: { numerator: number; denominator: number };
-	keySignature: { accidentalCount: number; mode: 'major' | 'minor' } | null;
+	keySignature: KeySignature | null;
+	/** Swing applied to the bar's straight eighths or sixteenths on playback */
+	tripletFeel: TripletFeel;
 	section: { letter?: string; text?: string } | null;
+	/** Primary voice — same array as voices[0] */
 	beats: TabBeat[];
+	/** Every voice in the bar, indexed by voice number; trailing empty voices are omitted */
+	voices: TabBeat[][];
 	repeatStart: boolean;
 	repeatEnd: boolean;
+	/** Total number of times the repeated section is played (2 = play twice); 0 when not a repeat end */
 	repeatCount: number;
+	/** 1-based alternate ending (volta) numbers this bar belongs to; empty when not an alternate ending */
+	alternateEndings: number[];
+	/** Musical directions (segno, coda, D.C., D.S., ...) placed on this bar */
+	directions: { targets: DirectionTarget[]; jumps: DirectionJump[] } | null;
+}
+
+/** A chord diagram drawn above the tab */
+export interface TabChord {
+	/** Referenced by TabBeat.chordId */
+	id: string;
+	name: string;
+	/** First fret shown by the diagram (1 = nut) */
+	baseFret: number;
+	/** Absolute fret per string, index 0 = highest string (matching TabNote.string); -1 = not played, 0 = open */
+	frets: number[];
+	/** Barres by absolute fret, spanning strings firstString..lastString (TabNote.string indices) */
+	barres: Array<{ fret: number; firstString: number; lastString: number }>;
+	/** Finger per string, same indexing as frets: 0 = thumb, 1 = index ... 4 = little, -1 = unspecified */
+	fingering: number[];
+}
+
+/** A lyric syllable and the primary-voice beat it is sung on */
+export interface TabLyricSyllable {
+	text: string;
+	barIndex: number;
+	/** Position of the beat in its bar's `beats` (voice 1) */
+	beatIndex: number;
+}
+
+/** One lyric line of a track, as entered in Guitar Pro */
+export interface TabLyricLine {
+	/** 0-based bar the line starts in */
+	startBar: number;
+	/** Raw line text, including hyphens, "+" joins and [comments] */
+	text: string;
+	/** Syllables in sung order, one per non-rest beat; syllables past the last beat are dropped */
+	syllables: TabLyricSyllable[];
+}
+
+/** Stringed tracks are tablature; percussion tracks hold drum hits (TabNote.drum) */
+export type TrackKind = 'stringed' | 'percussion';
+
+/** Mixer settings a track can change mid-song */
+export type AutomationType = 'program' | 'volume' | 'pan' | 'chorus' | 'reverb' | 'phaser' | 'tremolo';
+
+/** A mid-song change of a track's MIDI program or mixer level */
+export interface TabAutomation {
+	type: AutomationType;
+	/** GM program number, or level on the MIDI controller scale (0-127, pan 64 = centre) */
+	value: number;
+	/** 0-based bar the change happens in */
+	barIndex: number;
+	/** Quarter notes from the start of the bar */
+	position: number;
+	/** Quarter notes over which a level moves to its new value (0 = immediate) */
+	transition: number;
+}
+
+/** A track's MIDI output: the sound it plays and its mixer levels at the start of the song */
+export interface TabMidi {
+	/** General MIDI program (0-127) */
+	program: number;
+	/** GM name of the program, "Drum Kit" on percussion tracks */
+	programName: string;
+	/** Bank select (0 = General MIDI) */
+	bank: number;
+	/** 0-based MIDI port */
+	port: number;
+	/** 0-based MIDI channel (9 = GM percussion) */
+	channel: number;
+	/** 0-based channel for effects (bends and whammy) when the format sets one, otherwise `channel` */
+	effectChannel: number;
+	/** Levels on the MIDI controller scale (0-127); pan 64 = centre */
+	volume: number;
+	pan: number;
+	chorus: number;
+	reverb: number;
+	phaser: number;
+	tremolo: number;
+	/** Program and level changes over the song, in playing order */
+	automations: TabAutomation[];
 }
 
 /** A track (instrument) with its tuning and bars */
@@ -74,19 +338,37 @@ export interface TabTrack {
 	id: string;
 	name: string;
 	shortName: string;
+	/** GP3-GP5: the GM name of the opening program; GP6/GP7: the instrument set reference */
 	instrument: string | null;
+	kind: TrackKind;
+	midi: TabMidi;
 	tuning: Note[];
 	/** Raw MIDI pitch numbers per string (index 0 = highest pitch string, matching TabNote.string). Used for audio synthesis. */
 	tuningMidi: number[];
 	capoFret: number;
 	bars: TabBar[];
+	/** Chord diagrams used by this track's beats */
+	chords: TabChord[];
+	/** Lyric lines sung over this track; empty when it has none */
+	lyrics: TabLyricLine[];
 }
 
 /** Top-level parsed song */
 export interface TabSong {
 	title: string;
+	subtitle: string;
 	artist: string;
 	album: string;
+	/** Lyricist; GP3/GP4 share one field for words and music, reported in both */
+	words: string;
+	/** Composer */
+	music: string;
+	copyright: string;
+	/** Who transcribed the tab */
+	tabber: string;
+	instructions: string;
+	/** Free-text notice lines shown with the score */
+	notices: string[];
 	tempo: number;
 	tracks: TabTrack[];
 }
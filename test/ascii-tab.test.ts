@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { renderAsciiTab } from '../src/index.js';
+import type { TabBar, TabBeat, TabNote, TabTrack } from '../src/index.js';
+import { tabNote, tabBeat, tabBar, tabTrack } from './helpers.js';
+
+// ---------------------------------------------------------------------------
+// Synthetic track
+// ---------------------------------------------------------------------------
+
+function beat(notes: TabNote[], duration: TabBeat['duration'] = 'quarter'): TabBeat {
+	return tabBeat(notes, { duration });
+}
+
+function bar(index: number, beats: TabBeat[], extra: Partial<TabBar> = {}): TabBar {
+	return tabBar(index, [beats], extra);
+}
+
+function makeTrack(bars: TabBar[], tuningMidi = [64, 59, 55, 50, 45, 40]): TabTrack {
+	return tabTrack('Guitar', tuningMidi, bars);
+}
+
+// ---------------------------------------------------------------------------
+// renderAsciiTab
+// ---------------------------------------------------------------------------
+
+describe('renderAsciiTab', () => {
+	it('renders tuning labels, sections and rhythmic spacing', () => {
+		const track = makeTrack([
+			bar(0, [
+				beat([tabNote(5, 3, { hammerOn: true, palmMute: true })], 'eighth'),
+				beat([tabNote(5, 5, { palmMute: true })], 'eighth'),
+				beat([tabNote(4, 7, { slide: 0x02 })]),
+				beat([tabNote(4, 5)]),
+				beat([tabNote(0, 12, { harmonic: 'Natural', letRing: true }), tabNote(1, 0, { muted: true, letRing: true })])
+			], { section: { letter: 'A', text: 'Intro' } })
+		]);
+		expect(renderAsciiTab(track)).toBe([
+			'  [A] Intro',
+			'   PM---',
+			'                LR---',
+			'E|--------------<12>-|',
+			'B|--------------x----|',
+			'G|-------------------|',
+			'D|-------------------|',
+			'A|------7\\--5--------|',
+			'E|-3h-5--------------|',
+			''
+		].join('\n'));
+	});
+
+	it('marks pull-offs, bends and slides out of a note', () => {
+		const track = makeTrack([
+			bar(0, [
+				beat([tabNote(0, 7, { pullOff: true })]),
+				beat([tabNote(0, 5, { bend: { kind: 'bend', points: [{ position: 0, value: 0, vibrato: false }, { position: 1, value: 2, vibrato: false }] } })]),
+				beat([tabNote(0, 5, { slide: 0x04 })]),
+				beat([tabNote(0, 3, { slide: 0x10 })])
+			])
+		], [64]);
+		expect(renderAsciiTab(track)).toBe('E|-7p--5b--5\\--/3--|\n');
+	});
+
+	it('writes ghost notes in parentheses', () => {
+		const track = makeTrack([
+			bar(0, [beat([tabNote(0, 5, { ghost: true })]), beat([tabNote(0, 0, { ghost: true, muted: true })])])
+		], [64]);
+		expect(renderAsciiTab(track)).toBe('E|-(5)-(x)-|\n');
+	});
+
+	it('writes let ring in full when the span is long enough', () => {
+		const track = makeTrack([
+			bar(0, [beat([tabNote(0, 0, { letRing: true })], 'whole')])
+		], [64]);
+		expect(renderAsciiTab(track)).toBe('   let ring--------\nE|-0---------------|\n');
+	});
+
+	it('wraps systems after the configured number of bars', () => {
+		const track = makeTrack([bar(0, []), bar(1, []), bar(2, [])], [64, 59]);
+		const text = renderAsciiTab(track, { barsPerLine: 2, charsPerQuarter: 1 });
+		expect(text).toBe('E|-----|-----|\nB|-----|-----|\n\nE|-----|\nB|-----|\n');
+	});
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import { parseTabFile, parseGp4File, detectFormat } from '../src/index.js';
+
+// ---------------------------------------------------------------------------
+// Synthetic GP4 builder — no GP4 fixture ships with the repo, so the tests
+// assemble a minimal file byte by byte following the GP4 layout.
+// ---------------------------------------------------------------------------
+
+class Gp4Builder {
+	private bytes: number[] = [];
+
+	byte(v: number): this {
+		this.bytes.push(v & 0xff);
+		return this;
+	}
+
+	int(v: number): this {
+		this.bytes.push(v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >> 24) & 0xff);
+		return this;
+	}
+
+	chars(s: string): this {
+		for (const c of s) this.bytes.push(c.charCodeAt(0));
+		return this;
+	}
+
+	byteSizeString(s: string, fixedLen: number): this {
+		this.byte(s.length).chars(s);
+		for (let i = s.length; i < fixedLen; i++) this.byte(0);
+		return this;
+	}
+
+	intByteSizeString(s: string): this {
+		return this.int(s.length + 1).byte(s.length).chars(s);
+	}
+
+	intString(s: string): this {
+		return this.int(s.length).chars(s);
+	}
+
+	repeat(count: number, fn: (i: number) => void): this {
+		for (let i = 0; i < count; i++) fn(i);
+		return this;
+	}
+
+	build(): Uint8Array {
+		return new Uint8Array(this.bytes);
+	}
+}
+
+/**
+ * One 6-string track, two 3/4 measures: a chord + effects beat, a mix table beat, then rests with a tempo ramp,
+ * optionally led by an empty beat.
+ */
+function buildGp4Song(harmonicCode = 17, leadingEmptyBeat = false): Uint8Array {
+	const w = new Gp4Builder();
+	w.byteSizeString('FICHIER GUITAR PRO v4.06', 30);
+	for (const s of ['Title', 'Subtitle', 'Artist', 'Album', 'Words', 'Copyright', 'Tab', 'Instructions']) {
+		w.intByteSizeString(s);
+	}
+	w.int(0); // notice lines
+	w.byte(1); // triplet feel
+	w.int(1).int(1).intString('Hel-lo [verse] my+old world').repeat(4, () => w.int(1).intString('')); // lyrics on track 1
+	w.int(100).int(0).byte(0); // tempo, key, octave
+	w.repeat(64, () => w.int(25).repeat(8, () => w.byte(0))); // MIDI channels
+	w.int(2).int(1); // measure count, track count
+
+	// Measure headers
+	w.byte(0x03 | 0x04).byte(3).byte(4); // 3/4, repeat open
+	w.byte(0x08 | 0x10).byte(2).byte(1); // repeat close (two jumps back), first ending
+
+	// Track header
+	w.byte(0).byteSizeString('Guitar', 40).int(6);
+	for (const p of [64, 59, 55, 50, 45, 40, 0]) w.int(p);
+	w.int(1).int(1).int(2).int(24).int(0).int(0);
+
+	// Measure 1 — beat 1: new-format chord, beat effects, slid artificial harmonic on string 6
+	w.int(2);
+	w.byte(0x02 | 0x08).byte(0);
+	w.byte(1).byte(0).chars('   ').byte(0).byte(0).byte(0).int(0).int(0).byte(0);
+	w.byteSizeString('Am', 22).byte(0).byte(0).byte(0).int(1);
+	for (const fret of [0, 1, 2, 2, 0, -1, -1]) w.int(fret);
+	w.byte(1); // one barre: fret 1 across GP strings 1-2
+	for (const v of [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 2, 0, 0, 0, 0]) w.byte(v); // barre frets, starts, ends
+	w.repeat(7, () => w.byte(1)).byte(0);
+	for (const finger of [-1, 1, 3, 2, -1, -2, -2]) w.byte(finger);
+	w.byte(1);
+	w.byte(0x20 | 0x40).byte(0x04 | 0x02).byte(1); // tap, stroke, tremolo bar, pick stroke
+	w.byte(6).int(-100).int(2).int(0).int(0).byte(0).int(30).int(-100).byte(1); // dive to -2 semitones
+	w.byte(0).byte(3).byte(2); // upward stroke over a 32nd, pick stroke down
+	w.byte(0x02); // GP string 6
+	w.byte(0x20 | 0x08 | 0x01).byte(1).byte(0).byte(0).byte(3);
+	w.byte(0x02 | 0x10).byte(0x01 | 0x04 | 0x08 | 0x10 | 0x20); // hammer, grace note, staccato, tremolo, slide, harmonic, trill
+	w.byte(1).byte(6).byte(1).byte(2); // grace note: fret 1, forte, slide transition, 24th
+	w.byte(2); // tremolo picking in sixteenths
+	w.byte(2).byte(harmonicCode); // legato slide, artificial harmonic
+	w.byte(5).byte(3); // trill with fret 5 in 64ths
+
+	// Measure 1 — beat 2: mix table tempo change, fret 5 on string 2
+	w.byte(0x10).byte(0);
+	w.byte(0xff).repeat(6, () => w.byte(0xff)).int(90).byte(0).byte(0);
+	w.byte(0x20);
+	w.byte(0x20).byte(1).byte(5);
+
+	// Measure 2 — three quarter rests, the first ramping the tempo to 120 over two beats
+	w.int(leadingEmptyBeat ? 4 : 3);
+	if (leadingEmptyBeat) w.byte(0x40).byte(0).byte(0).byte(0);
+	w.byte(0x40 | 0x10).byte(2).byte(0);
+	w.byte(0xff).repeat(6, () => w.byte(0xff)).int(120).byte(2).byte(0);
+	w.byte(0);
+	w.repeat(2, () => w.byte(0x40).byte(2).byte(0).byte(0));
+
+	return w.build();
+}
+
+describe('parseGp4File', () => {
+	const gp4Data = buildGp4Song();
+
+	it('detects GP4 version string as gp4', () => {
+		expect(detectFormat(gp4Data)).toBe('gp4');
+	});
+
+	it('parses score information and tracks', () => {
+		const song = parseGp4File(gp4Data);
+		expect(song.title).toBe('Title');
+		expect(song.artist).toBe('Artist');
+		expect(song.album).toBe('Album');
+		expect(song.subtitle).toBe('Subtitle');
+		// GP4 has one field for words and music
+		expect([song.words, song.music, song.copyright, song.tabber, song.instructions]).toEqual(['Words', 'Words', 'Copyright', 'Tab', 'Instructions']);
+		expect(song.notices).toEqual([]);
+		expect(song.tempo).toBe(100);
+		expect(song.tracks.length).toBe(1);
+		expect(song.tracks[0].name).toBe('Guitar');
+		expect(song.tracks[0].tuningMidi).toEqual([64, 59, 55, 50, 45, 40]);
+	});
+
+	it('reads single-voice measures through chords, effects and mix tables', () => {
+		const track = parseGp4File(gp4Data).tracks[0];
+		expect(track.bars.length).toBe(2);
+		expect(track.bars[0].timeSignature).toEqual({ numerator: 3, denominator: 4 });
+
+		const [first, second] = track.bars[0].beats;
+		expect(first.notes[0].string).toBe(5);
+		expect(first.notes[0].fret).toBe(3);
+		expect(first.notes[0].hammerOn).toBe(true);
+		expect(first.notes[0].slide).toBe(0x02);
+		expect(first.notes[0].harmonic).toBe('Artificial');
+		expect(first.notes[0].graceNote).toEqual({
+			fret: 1,
+			duration: '16th',
+			tuplet: { num: 3, den: 2 },
+			transition: 'slide',
+			onBeat: false,
+			dead: false
+		});
+		expect(second.notes[0].graceNote).toBeNull();
+		expect(second.notes[0].string).toBe(1);
+		expect(second.notes[0].fret).toBe(5);
+
+		expect(track.bars[1].beats[0].isRest).toBe(true);
+		expect(track.bars[1].beats[0].duration).toBe('quarter');
+	});
+
+	it('computes sounding pitches with their octave', () => {
+		const [first, second] = parseGp4File(gp4Data).tracks[0].bars[0].beats;
+		// Low E (40) fret 3, artificial harmonic code 17 touched 5 frets higher: two octaves up
+		expect(first.notes[0].midi).toBe(67);
+		expect(first.notes[0].pitch).toEqual({ pitchClass: 7, name: 'G', accidental: 'natural', octave: 4 });
+		expect(second.notes[0].midi).toBe(64);
+		expect(second.notes[0].noteName).toBe('E');
+		expect(parseGp4File(gp4Data).tracks[0].tuning.map((n) => `${n.name}${n.octave}`)).toEqual(['E4', 'B3', 'G3', 'D3', 'A2', 'E2']);
+	});
+
+	it('sounds each artificial harmonic code at its own interval', () => {
+		// Code 15 is touched 7 frets higher: an octave and a fifth above fret 3 (43)
+		expect(parseGp4File(buildGp4Song(15)).tracks[0].bars[0].beats[0].notes[0].midi).toBe(62);
+		// Code 22 is touched 12 frets higher: an octave up
+		expect(parseGp4File(buildGp4Song(22)).tracks[0].bars[0].beats[0].notes[0].midi).toBe(55);
+	});
+
+	it('reads staccato, tremolo picking and trills', () => {
+		const [first, second] = parseGp4File(gp4Data).tracks[0].bars[0].beats;
+		expect(first.notes[0].staccato).toBe(true);
+		expect(first.notes[0].tremoloPicking).toBe('16th');
+		expect(first.notes[0].trill).toEqual({ fret: 5, speed: '64th' });
+		expect(first.notes[0].ornament).toBeNull();
+		expect(second.notes[0]).toMatchObject({ staccato: false, trill: null, tremoloPicking: null });
+	});
+
+	it('reads beat effects', () => {
+		const [first, second] = parseGp4File(gp4Data).tracks[0].bars[0].beats;
+		expect(first.whammy).toEqual([
+			{ position: 0, value: 0, vibrato: false },
+			{ position: 0.5, value: -2, vibrato: true }
+		]);
+		expect(first.stroke).toEqual({ direction: 'up', duration: '32nd' });
+		expect(first.pickStroke).toBe('down');
+		expect(first.slapPop).toBe('tap');
+		expect([second.whammy, second.stroke, second.pickStroke, second.slapPop]).toEqual([null, null, null, null]);
+	});
+
+	it('reads chord diagrams into the track and references them from beats', () => {
+		const track = parseGp4File(gp4Data).tracks[0];
+		expect(track.chords).toEqual([
+			{
+				id: '0',
+				name: 'Am',
+				baseFret: 1,
+				frets: [0, 1, 2, 2, 0, -1],
+				barres: [{ fret: 1, firstString: 0, lastString: 1 }],
+				fingering: [-1, 1, 3, 2, -1, -1]
+			}
+		]);
+		expect(track.bars[0].beats.map((b) => b.chordId)).toEqual(['0', null]);
+	});
+
+	it('applies mix table tempo changes from the beat where they happen', () => {
+		const song = parseGp4File(gp4Data);
+		const [bar1, bar2] = song.tracks[0].bars;
+		expect(song.tempo).toBe(100);
+		expect(bar1.beats.map((b) => b.tempo)).toEqual([100, 90]);
+		// Ramp from 90 to 120 across two quarter notes
+		expect(bar2.beats.map((b) => b.tempo)).toEqual([90, 105, 120]);
+	});
+
+	it('places tempo changes without counting empty beats', () => {
+		const bar2 = parseGp4File(buildGp4Song(17, true)).tracks[0].bars[1];
+		expect(bar2.beats.map((b) => b.tempo)).toEqual([90, 105, 120]);
+	});
+
+	it('normalizes repeats and alternate endings', () => {
+		const bars = parseGp4File(gp4Data).tracks[0].bars;
+		expect(bars[0].repeatStart).toBe(true);
+		expect(bars[1].repeatEnd).toBe(true);
+		expect(bars[1].repeatCount).toBe(3);
+		expect(bars[1].alternateEndings).toEqual([1]);
+		expect(bars[1].directions).toBeNull();
+	});
+
+	it('applies the global triplet feel to every measure', () => {
+		const song = parseGp4File(gp4Data);
+		expect(song.tracks[0].bars.map((b) => b.tripletFeel)).toEqual(['triplet8th', 'triplet8th']);
+	});
+
+	it('exposes its single voice as voices[0]', () => {
+		for (const bar of parseGp4File(gp4Data).tracks[0].bars) {
+			expect(bar.voices.length).toBe(1);
+			expect(bar.beats).toBe(bar.voices[0]);
+		}
+	});
+
+	it('aligns lyric syllables to non-rest beats from the start bar', () => {
+		const [line] = parseGp4File(gp4Data).tracks[0].lyrics;
+		expect(line.startBar).toBe(0);
+		expect(line.text).toBe('Hel-lo [verse] my+old world');
+		// Bar 2 holds only rests, so "my old" and "world" find no beat
+		expect(line.syllables).toEqual([
+			{ text: 'Hel-', barIndex: 0, beatIndex: 0 },
+			{ text: 'lo', barIndex: 0, beatIndex: 1 }
+		]);
+	});
+
+	it('is reachable through parseTabFile', () => {
+		expect(parseTabFile(gp4Data).title).toBe('Title');
+	});
+
+	it('throws on non-GP4 data', () => {
+		const gp5Header = new Gp4Builder().byteSizeString('FICHIER GUITAR PRO v5.00', 30).build();
+		expect(() => parseGp4File(gp5Header)).toThrow('expected GP4');
+	});
+});
@@ -0,0 +1,280 @@
+import { describe, it, expect } from 'vitest';
+import { writeGp5File, parseGp5File, parseTabFile, detectFormat } from '../src/index.js';
+import type { TabBeat, TabNote, TabSong } from '../src/index.js';
+import { tabNote, tabBeat, tabBar, trackMidi, tabTrack, tabSong } from './helpers.js';
+
+// ---------------------------------------------------------------------------
+// Synthetic song
+// ---------------------------------------------------------------------------
+
+function buildSong(): TabSong {
+	const guitar = tabTrack('Lead Guitar', [64, 59, 55, 50, 45, 40], [
+		tabBar(0, [
+			[
+				tabBeat([tabNote(5, 3, { hammerOn: true, palmMute: true, dynamic: 'mp', velocity: 63 }), tabNote(4, 5, {
+					accent: 1,
+					velocity: 111,
+					// No GP5 bend type covers a pre-bend bent further: it is stored untyped
+					bend: { kind: 'preBendBend', points: [{ position: 0, value: 1, vibrato: false }, { position: 1, value: 1.5, vibrato: false }] }
+				})]),
+				tabBeat([tabNote(5, 5, { vibrato: 'slight', letRing: true, ghost: true, velocity: 79 })], {
+					duration: 'eighth',
+					dotted: 1,
+					whammy: [
+						{ position: 0, value: 0, vibrato: false },
+						{ position: 0.5, value: -3, vibrato: true },
+						{ position: 1, value: -1.5, vibrato: false }
+					],
+					stroke: { direction: 'down', duration: '64th' },
+					pickStroke: 'up',
+					slapPop: 'pop'
+				}),
+				tabBeat([tabNote(2, 7, {
+					soundingLength: 0.75,
+					bend: {
+						kind: 'bendReleaseBend',
+						points: [
+							{ position: 0, value: 0, vibrato: false },
+							{ position: 0.25, value: 2, vibrato: false },
+							{ position: 0.5, value: 2, vibrato: false },
+							{ position: 0.75, value: 0, vibrato: false },
+							{ position: 1, value: 2, vibrato: true }
+						]
+					}
+				})], { duration: '16th' }),
+				tabBeat([tabNote(1, 12, { harmonic: 'Natural', trill: { fret: 14, speed: '32nd' } })], { duration: 'eighth', tuplet: { num: 3, den: 2 } }),
+				tabBeat([tabNote(0, 5, { slide: 0x02, muted: true, staccato: true, soundingLength: 0.5, tremoloPicking: '16th' })], { duration: 'eighth', tuplet: { num: 3, den: 2 } }),
+				tabBeat([], { duration: 'eighth', tuplet: { num: 3, den: 2 } }),
+				tabBeat([tabNote(0, 7, {
+					accent: 2,
+					velocity: 127,
+					tie: { origin: true, destination: false },
+					graceNote: { fret: 5, duration: '32nd', tuplet: null, transition: 'hammer', onBeat: true, dead: false }
+				})])
+			],
+			[tabBeat([tabNote(5, 0)], { voice: 1, duration: 'whole' })]
+		], {
+			keySignature: { accidentalCount: -2, mode: 'minor' },
+			section: { text: 'Intro' },
+			repeatStart: true,
+			directions: { targets: ['Segno'], jumps: [] }
+		}),
+		tabBar(1, [[
+			tabBeat([tabNote(0, 7, { tie: { origin: false, destination: true } })], { duration: 'half', tempo: 90 }),
+			tabBeat([tabNote(3, 9, { harmonic: 'Artificial' })], { duration: 'half', tempo: 90, chordId: '0' })
+		]], { alternateEndings: [1, 2], repeatEnd: true, repeatCount: 3, tripletFeel: 'triplet16th' }),
+		tabBar(2, [[tabBeat([], { duration: 'whole', tempo: 90 })]], {
+			timeSignature: { numerator: 3, denominator: 4 },
+			alternateEndings: [3],
+			directions: { targets: ['Fine'], jumps: ['DaSegnoAlFine'] }
+		})
+	], { capoFret: 2, midi: trackMidi(29, 'Overdriven Guitar', 0, {
+		// Bar 1 opens with a tempo change: both share the beat's mix table
+		automations: [
+			{ type: 'reverb', value: 64, barIndex: 1, position: 0, transition: 0 },
+			{ type: 'chorus', value: 32, barIndex: 1, position: 2, transition: 1 }
+		]
+	}), chords: [{
+		id: '0',
+		name: 'F',
+		baseFret: 1,
+		frets: [1, 1, 2, 3, 3, 1],
+		barres: [{ fret: 1, firstString: 0, lastString: 5 }],
+		fingering: [1, 1, 2, 4, 3, 1]
+	}], lyrics: [{
+		startBar: 0,
+		text: 'Hel-lo dear+old world',
+		syllables: [
+			{ text: 'Hel-', barIndex: 0, beatIndex: 0 },
+			{ text: 'lo', barIndex: 0, beatIndex: 1 },
+			{ text: 'dear old', barIndex: 0, beatIndex: 2 },
+			{ text: 'world', barIndex: 0, beatIndex: 3 }
+		]
+	}] });
+
+	const bass = tabTrack('Bass', [43, 38, 33, 28], [
+		tabBar(0, [[tabBeat([tabNote(3, 3)], { duration: 'whole' })]]),
+		tabBar(1, [[]]),
+		tabBar(2, [[tabBeat([tabNote(0, 5)], { duration: 'half', dotted: 1, tempo: 90 })]], {
+			timeSignature: { numerator: 3, denominator: 4 }
+		})
+	], {
+		instrument: 'Electric Bass (finger)',
+		midi: trackMidi(33, 'Electric Bass (finger)', 2, {
+			automations: [
+				{ type: 'program', value: 34, barIndex: 0, position: 0, transition: 0 },
+				{ type: 'volume', value: 127, barIndex: 2, position: 0, transition: 2 },
+				{ type: 'pan', value: 0, barIndex: 2, position: 0, transition: 0 }
+			]
+		})
+	});
+
+	return {
+		title: 'Round Trip',
+		subtitle: 'Live',
+		artist: 'Band',
+		album: 'Record',
+		words: 'Lyricist',
+		music: 'Composer',
+		copyright: '(c) 2026 Band',
+		tabber: 'Tabber',
+		instructions: 'Play it loud',
+		notices: ['First notice', 'Second notice'],
+		tempo: 120,
+		tracks: [guitar, bass]
+	};
+}
+
+// ---------------------------------------------------------------------------
+// writeGp5File
+// ---------------------------------------------------------------------------
+
+describe('writeGp5File', () => {
+	const song = buildSong();
+	const data = writeGp5File(song);
+	const parsed = parseGp5File(data);
+
+	it('writes a GP5 header detected as gp5', () => {
+		expect(detectFormat(data)).toBe('gp5');
+		expect(parseTabFile(data).title).toBe('Round Trip');
+	});
+
+	it('round-trips score information and tracks', () => {
+		expect(parsed.title).toBe('Round Trip');
+		expect(parsed.artist).toBe('Band');
+		expect(parsed.album).toBe('Record');
+		const { subtitle, words, music, copyright, tabber, instructions, notices } = parsed;
+		expect({ subtitle, words, music, copyright, tabber, instructions, notices }).toEqual({
+			subtitle: 'Live',
+			words: 'Lyricist',
+			music: 'Composer',
+			copyright: '(c) 2026 Band',
+			tabber: 'Tabber',
+			instructions: 'Play it loud',
+			notices: ['First notice', 'Second notice']
+		});
+		expect(parsed.tempo).toBe(120);
+		expect(parsed.tracks.map((t) => [t.name, t.tuningMidi, t.capoFret, t.instrument])).toEqual([
+			['Lead Guitar', [64, 59, 55, 50, 45, 40], 2, 'Overdriven Guitar'],
+			['Bass', [43, 38, 33, 28], 0, 'Electric Bass (finger)']
+		]);
+	});
+
+	it('reads the subtitle as title when the score has none', () => {
+		const untitled = buildSong();
+		untitled.title = '';
+		const reparsed = parseGp5File(writeGp5File(untitled));
+		expect([reparsed.title, reparsed.subtitle]).toEqual(['Live', 'Live']);
+	});
+
+	it('round-trips MIDI channels, mixer levels and mix table automations', () => {
+		expect(parsed.tracks.map((t) => t.midi)).toEqual(song.tracks.map((t) => t.midi));
+	});
+
+	it('round-trips bar structure', () => {
+		const bars = parsed.tracks[0].bars;
+		expect(bars.map((b) => b.timeSignature.numerator)).toEqual([4, 4, 3]);
+		expect(bars[0].keySignature).toEqual({ accidentalCount: -2, mode: 'minor' });
+		expect(bars[0].section).toEqual({ text: 'Intro' });
+		expect(bars.map((b) => b.tripletFeel)).toEqual(['none', 'triplet16th', 'none']);
+		expect(bars.map((b) => [b.repeatStart, b.repeatEnd, b.repeatCount])).toEqual([
+			[true, false, 0],
+			[false, true, 3],
+			[false, false, 0]
+		]);
+		expect(bars.map((b) => b.alternateEndings)).toEqual([[], [1, 2], [3]]);
+		expect(bars.map((b) => b.directions)).toEqual([
+			{ targets: ['Segno'], jumps: [] },
+			null,
+			{ targets: ['Fine'], jumps: ['DaSegnoAlFine'] }
+		]);
+	});
+
+	it('round-trips rhythms, voices and tempo changes', () => {
+		const rhythm = (b: TabBeat) => [b.duration, b.dotted, b.tuplet, b.isRest, b.tempo];
+		song.tracks.forEach((t, tIdx) => {
+			t.bars.forEach((b, bIdx) => {
+				const parsedBar = parsed.tracks[tIdx].bars[bIdx];
+				expect(parsedBar.voices.map((v) => v.map(rhythm))).toEqual(b.voices.map((v) => v.map(rhythm)));
+			});
+		});
+	});
+
+	it('round-trips notes and their effects', () => {
+		const strip = (n: TabNote) => ({ ...n, pitchClass: 0, noteName: '', midi: 0, pitch: null });
+		// Notes come back in string order, highest string first
+		const notes = (b: TabBeat) => b.notes.map(strip).sort((x, y) => x.string - y.string);
+		expect(parsed.tracks[0].bars[0].beats.map(notes)).toEqual(song.tracks[0].bars[0].beats.map(notes));
+		expect(parsed.tracks[0].bars[1].beats[0].notes[0].tie.destination).toBe(true);
+		expect(parsed.tracks[0].bars[1].beats[1].notes[0].harmonic).toBe('Artificial');
+	});
+
+	it('round-trips the lyrics of the first track carrying them', () => {
+		expect(parsed.tracks.map((t) => t.lyrics)).toEqual([song.tracks[0].lyrics, []]);
+	});
+
+	it('round-trips beat effects', () => {
+		const effects = (b: TabBeat) => [b.whammy, b.stroke, b.pickStroke, b.slapPop];
+		expect(parsed.tracks[0].bars[0].beats.map(effects)).toEqual(song.tracks[0].bars[0].beats.map(effects));
+	});
+
+	it('round-trips chord diagrams and the beats naming them', () => {
+		expect(parsed.tracks[0].chords).toEqual(song.tracks[0].chords);
+		expect(parsed.tracks[0].bars[1].beats.map((b) => b.chordId)).toEqual([null, '0']);
+	});
+
+	it('is stable when written again from the parsed song', () => {
+		expect(writeGp5File(parsed)).toEqual(data);
+	});
+});
+
+describe('GP5 beat strokes', () => {
+	// Beat effect flags (stroke, no second-byte effects), then the upward and downward strum speeds
+	const downStroke = [0x40, 0x00, 0x00, 0x02];
+	const song = tabSong([tabTrack('Guitar', [64, 59, 55, 50, 45, 40], [
+		tabBar(0, [[tabBeat([tabNote(5, 0)], { duration: 'whole', stroke: { direction: 'down', duration: '64th' } })]])
+	])]);
+	const data = writeGp5File(song);
+
+	function indexOfBytes(bytes: Uint8Array, pattern: number[]): number[] {
+		const found: number[] = [];
+		for (let i = 0; i + pattern.length <= bytes.length; i++) {
+			if (pattern.every((b, j) => bytes[i + j] === b)) found.push(i);
+		}
+		return found;
+	}
+
+	it('stores the upward strum speed before the downward one', () => {
+		expect(indexOfBytes(data, downStroke)).toHaveLength(1);
+	});
+
+	it('reads the upward strum speed first', () => {
+		const [at] = indexOfBytes(data, downStroke);
+		const upStroke = data.slice();
+		upStroke.set([0x40, 0x00, 0x02, 0x00], at);
+		expect(parseGp5File(upStroke).tracks[0].bars[0].beats[0].stroke).toEqual({ direction: 'up', duration: '64th' });
+		expect(parseGp5File(data).tracks[0].bars[0].beats[0].stroke).toEqual({ direction: 'down', duration: '64th' });
+	});
+});
+
+describe('writeGp5File percussion', () => {
+	const song = buildSong();
+	song.tracks[1] = tabTrack('Drums', [0, 0, 0, 0, 0, 0], [
+		tabBar(0, [[tabBeat([tabNote(5, 36), tabNote(0, 42)], { duration: 'whole' })]]),
+		tabBar(1, [[tabBeat([tabNote(1, 38, { drum: { key: 38, piece: 'snare', articulation: 'hit' } })], { duration: 'whole' })]]),
+		tabBar(2, [[]], { timeSignature: { numerator: 3, denominator: 4 } })
+	], { kind: 'percussion', instrument: 'Drum Kit', midi: trackMidi(0, 'Drum Kit', 9, { effectChannel: 9 }) });
+	const parsed = parseGp5File(writeGp5File(song));
+
+	it('marks the track as percussion and names its GM drum keys', () => {
+		const drums = parsed.tracks[1];
+		expect(drums.kind).toBe('percussion');
+		expect(drums.instrument).toBe('Drum Kit');
+		expect(parsed.tracks[0].kind).toBe('stringed');
+		expect(drums.bars[0].beats[0].notes.map((n) => [n.fret, n.midi, n.drum])).toEqual([
+			[42, 42, { key: 42, piece: 'hiHat', articulation: 'closed' }],
+			[36, 36, { key: 36, piece: 'kick', articulation: 'hit' }]
+		]);
+		expect(drums.bars[1].beats[0].notes[0].drum?.piece).toBe('snare');
+	});
+});
@@ -0,0 +1,300 @@
+import { describe, it, expect } from 'vitest';
+import { writeGp7File, tabSongToGpif, parseTabFile, detectFormat, spellMidi, drumHit } from '../src/index.js';
+import type { KeySignature, TabBar, TabBeat, TabNote, TabSong, TabTrack } from '../src/index.js';
+import { soundingNote, tabBeat, tabBar, trackMidi, tabTrack } from './helpers.js';
+
+// ---------------------------------------------------------------------------
+// Synthetic song — built exactly as the GPIF reader reports it
+// ---------------------------------------------------------------------------
+
+/** Spells a bar's notes as the reader does in the key in force there. */
+function spellBar(b: TabBar, key: KeySignature): void {
+	for (const n of b.voices.flat().flatMap((bt) => bt.notes)) {
+		n.pitch = spellMidi(n.midi, key);
+		n.noteName = n.pitch.name;
+	}
+}
+
+function beat(index: number, barIndex: number, notes: TabNote[], extra: Partial<TabBeat> = {}): TabBeat {
+	return tabBeat(notes, { index, barIndex, ...extra });
+}
+
+function track(id: string, name: string, tuningMidi: number[], bars: TabBar[], extra: Partial<TabTrack> = {}): TabTrack {
+	return tabTrack(name, tuningMidi, bars, { id, ...extra });
+}
+
+function buildSong(): TabSong {
+	const gt = [64, 59, 55, 50, 45, 40];
+	// Capo 2: notes sound two semitones above the open strings
+	const sounding = gt.map((p) => p + 2);
+	const guitar = track('0', 'Lead & Rhythm', gt, [
+		tabBar(0, [
+			[
+				beat(0, 0, [
+					soundingNote(sounding, 5, 7, { pullOff: true, palmMute: true, dynamic: 'mf', velocity: 79 }),
+					soundingNote(sounding, 4, 5, { accent: 1, dynamic: 'mf', velocity: 95 })
+				], { dynamic: 'mf' }),
+				beat(1, 0, [soundingNote(sounding, 5, 5, { vibrato: 'Slight', letRing: true })], {
+					duration: 'eighth',
+					dotted: 1,
+					whammy: [
+						{ position: 0, value: 0, vibrato: false },
+						{ position: 0.3, value: -4, vibrato: false },
+						{ position: 0.6, value: -4, vibrato: false },
+						{ position: 1, value: 0, vibrato: false }
+					],
+					stroke: { direction: 'up', duration: '32nd' },
+					pickStroke: 'down',
+					slapPop: 'slap'
+				}),
+				beat(2, 0, [soundingNote(sounding, 2, 7, {
+					bend: {
+						kind: 'bendRelease',
+						points: [
+							{ position: 0, value: 0, vibrato: false },
+							{ position: 0.15, value: 2, vibrato: false },
+							{ position: 0.6, value: 2, vibrato: false },
+							{ position: 1, value: 0, vibrato: false }
+						]
+					}
+				})], { duration: '16th' }),
+				beat(3, 0, [soundingNote(sounding, 1, 12, { harmonic: 'Natural', trill: { fret: 14, speed: '32nd' }, ornament: 'upperMordent' })], { duration: 'eighth', tuplet: { num: 3, den: 2 } }),
+				beat(4, 0, [soundingNote(sounding, 0, 5, { slide: 0x02, muted: true, tapped: true, staccato: true, soundingLength: 0.5, accent: 1, velocity: 111, tremoloPicking: '16th' })], { duration: 'eighth', tuplet: { num: 3, den: 2 } }),
+				beat(5, 0, [], { duration: 'eighth', tuplet: { num: 3, den: 2 } }),
+				beat(6, 0, [soundingNote(sounding, 0, 7, {
+					accent: 2,
+					velocity: 127,
+					tie: { origin: true, destination: false },
+					graceNote: { fret: 9, duration: '16th', tuplet: null, transition: 'slide', onBeat: false, dead: true }
+				})], { tempo: 96 })
+			],
+			[beat(0, 0, [soundingNote(sounding, 5, 0)], { voice: 1, duration: 'whole' })]
+		], {
+			keySignature: { accidentalCount: -2, mode: 'minor' },
+			section: { letter: 'A', text: 'Intro' },
+			repeatStart: true,
+			directions: { targets: ['Segno'], jumps: [] }
+		}),
+		tabBar(1, [[
+			beat(7, 1, [soundingNote(sounding, 0, 7, { tie: { origin: false, destination: true } })], { duration: 'half', tempo: 96 }),
+			beat(8, 1, [soundingNote(sounding, 3, 9, { harmonic: 'Artificial' })], { duration: 'half', tempo: 90, chordId: '0' })
+		]], { alternateEndings: [1, 2], repeatEnd: true, repeatCount: 3, tripletFeel: 'scottish8th' }),
+		tabBar(2, [[beat(9, 2, [], { duration: 'half', dotted: 1, tempo: 90 })]], {
+			timeSignature: { numerator: 3, denominator: 4 },
+			keySignature: { accidentalCount: 1, mode: 'major' },
+			alternateEndings: [3],
+			directions: { targets: ['Fine'], jumps: ['DaSegnoAlFine'] }
+		})
+	], { capoFret: 2, chords: [{
+		id: '0',
+		name: 'F',
+		baseFret: 1,
+		frets: [1, 1, 2, 3, 3, 1],
+		barres: [{ fret: 1, firstString: 0, lastString: 5 }],
+		fingering: [1, 1, 2, 4, 3, 1]
+	}], lyrics: [
+		{
+			startBar: 0,
+			text: 'Hel-lo dear+old world',
+			syllables: [
+				{ text: 'Hel-', barIndex: 0, beatIndex: 0 },
+				{ text: 'lo', barIndex: 0, beatIndex: 1 },
+				{ text: 'dear old', barIndex: 0, beatIndex: 2 },
+				{ text: 'world', barIndex: 0, beatIndex: 3 }
+			]
+		},
+		{
+			startBar: 1,
+			text: 'Yeah yeah yeah',
+			syllables: [
+				{ text: 'Yeah', barIndex: 1, beatIndex: 0 },
+				{ text: 'yeah', barIndex: 1, beatIndex: 1 }
+			]
+		}
+	] });
+
+	// Bar 0's G minor signature stays in force through bar 1
+	guitar.bars.slice(0, 2).forEach((b) => spellBar(b, { accidentalCount: -2, mode: 'minor' }));
+
+	const bs = [43, 38, 33, 28];
+	const bass = track('1', 'Bass', bs, [
+		tabBar(0, [[beat(0, 0, [soundingNote(bs, 3, 3)], { duration: 'whole' })]]),
+		tabBar(1, [[]]),
+		tabBar(2, [[beat(1, 2, [soundingNote(bs, 0, 5)], { duration: 'half', dotted: 1, tempo: 90 })]], {
+			timeSignature: { numerator: 3, denominator: 4 }
+		})
+	], {
+		instrument: null,
+		midi: trackMidi(33, 'Electric Bass (finger)', 2, {
+			bank: 8,
+			pan: 20,
+			automations: [
+				{ type: 'program', value: 34, barIndex: 0, position: 0, transition: 0 },
+				{ type: 'pan', value: 100, barIndex: 1, position: 0, transition: 0 },
+				{ type: 'volume', value: 90, barIndex: 2, position: 1.5, transition: 0 }
+			]
+		})
+	});
+
+	// Key, sections, repeats and directions belong to the master bar, shared by every track
+	bass.bars.forEach((b, i) => {
+		const { keySignature, tripletFeel, section, repeatStart, repeatEnd, repeatCount, alternateEndings, directions } = guitar.bars[i];
+		Object.assign(b, { keySignature, tripletFeel, section, repeatStart, repeatEnd, repeatCount, alternateEndings, directions });
+	});
+
+	return {
+		title: 'Round <Trip>',
+		subtitle: 'Live',
+		artist: 'Band',
+		album: 'Record',
+		words: 'Lyricist',
+		music: 'Composer',
+		copyright: '(c) 2026 Band',
+		tabber: 'Tabber',
+		instructions: 'Play it loud',
+		notices: ['First notice', 'Second notice'],
+		tempo: 120,
+		tracks: [guitar, bass]
+	};
+}
+
+/** Compression method of a ZIP entry, read from its central directory record. */
+function zipMethods(data: Uint8Array): Record<string, number> {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const methods: Record<string, number> = {};
+	for (let i = 0; i + 46 <= data.length; i++) {
+		if (view.getUint32(i, true) !== 0x02014b50) continue;
+		const nameLength = view.getUint16(i + 28, true);
+		const name = new TextDecoder().decode(data.subarray(i + 46, i + 46 + nameLength));
+		methods[name] = view.getUint16(i + 10, true);
+	}
+	return methods;
+}
+
+// ---------------------------------------------------------------------------
+// writeGp7File
+// ---------------------------------------------------------------------------
+
+describe('writeGp7File', () => {
+	const song = buildSong();
+	const data = writeGp7File(song);
+
+	it('writes a ZIP container detected as gp7', () => {
+		expect(detectFormat(data)).toBe('gp7');
+		expect(zipMethods(data)).toEqual({
+			VERSION: 0,
+			'Content/score.gpif': 8,
+			'Content/PartConfiguration': 0
+		});
+	});
+
+	it('round-trips through parseTabFile to an equal song', () => {
+		expect(parseTabFile(data)).toEqual(song);
+	});
+
+	it('is stable when written again from the parsed song', () => {
+		expect(writeGp7File(parseTabFile(data))).toEqual(data);
+	});
+
+	it('round-trips long, repetitive scores through DEFLATE', () => {
+		const long = buildSong();
+		const template = long.tracks[0].bars[1];
+		long.tracks[0].lyrics = [];
+		for (let i = 3; i < 200; i++) {
+			const copy = structuredClone(template);
+			copy.index = i;
+			copy.alternateEndings = [];
+			copy.repeatEnd = false;
+			copy.repeatCount = 0;
+			copy.voices.forEach((v) => v.forEach((b, j) => Object.assign(b, { barIndex: i, index: 10 + (i - 3) * 2 + j, tempo: 90 })));
+			copy.beats = copy.voices[0];
+			spellBar(copy, { accidentalCount: 1, mode: 'major' });
+			long.tracks[0].bars.push(copy);
+			long.tracks[1].bars.push(tabBar(i, [[]], { tripletFeel: copy.tripletFeel }));
+		}
+		// Each copy opens on a tied note, so every earlier one becomes a tie origin
+		for (const b of long.tracks[0].bars.slice(1, -1)) {
+			const tied = b.voices[0][0].notes[0];
+			if (tied) tied.tie.origin = true;
+		}
+
+		const written = writeGp7File(long);
+		expect(written.length).toBeLessThan(tabSongToGpif(long).length / 4);
+		expect(parseTabFile(written)).toEqual(long);
+	});
+});
+
+describe('writeGp7File percussion', () => {
+	// Drum notes store the GM key as the fret of an open string, as GP5 does
+	const kit = [0, 0, 0, 0, 0, 0];
+	const hit = (string: number, key: number) => soundingNote(kit, string, key, { drum: drumHit(key) });
+	const drums = track('0', 'Drums', kit, [
+		tabBar(0, [[
+			beat(0, 0, [hit(5, 36), hit(0, 42)]),
+			beat(1, 0, [hit(1, 38), hit(0, 46)]),
+			beat(2, 0, [hit(5, 36), hit(0, 42)], { duration: 'half' })
+		]])
+	], { kind: 'percussion', instrument: null, midi: trackMidi(0, 'Drum Kit', 9, { effectChannel: 9 }) });
+	const song = { ...buildSong(), tracks: [drums] };
+	const gpif = tabSongToGpif(song);
+
+	it('writes the kit as a drumKit InstrumentSet on the percussion channel', () => {
+		expect(gpif).toContain('<Type>drumKit</Type>');
+		expect(gpif.match(/<OutputMidiNumber>\d+<\/OutputMidiNumber>/g)).toEqual([
+			'<OutputMidiNumber>36</OutputMidiNumber>',
+			'<OutputMidiNumber>38</OutputMidiNumber>',
+			'<OutputMidiNumber>42</OutputMidiNumber>',
+			'<OutputMidiNumber>46</OutputMidiNumber>'
+		]);
+		expect(gpif).toContain('<PrimaryChannel>9</PrimaryChannel>');
+	});
+
+	it('round-trips drum hits through parseTabFile', () => {
+		const parsed = parseTabFile(writeGp7File(song));
+		expect(parsed.tracks[0].kind).toBe('percussion');
+		expect(parsed.tracks[0].bars[0].beats[1].notes.map((n) => n.drum)).toEqual([
+			{ key: 38, piece: 'snare', articulation: 'hit' },
+			{ key: 46, piece: 'hiHat', articulation: 'open' }
+		]);
+		expect(parsed).toEqual(song);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// tabSongToGpif
+// ---------------------------------------------------------------------------
+
+describe('tabSongToGpif', () => {
+	const gpif = tabSongToGpif(buildSong());
+
+	it('shares one Rhythm between beats of equal duration', () => {
+		const rhythms = gpif.match(/<Rhythm id=/g) ?? [];
+		expect(rhythms.length).toBe(7);
+	});
+
+	it('writes GPIF string numbers from the lowest string', () => {
+		expect(gpif).toMatch(/<Property name="String">\s*<String>0<\/String>/);
+		expect(gpif).toContain('<Pitches>40 45 50 55 59 64</Pitches>');
+	});
+
+	it('writes trills as the sounding pitch of the trilled note', () => {
+		// B string (59) + capo 2 + fret 14
+		expect(gpif).toContain('<Trill>75</Trill>');
+	});
+
+	it('writes grace notes as a grace beat before their principal beat', () => {
+		expect(gpif.match(/<GraceNotes>\w+<\/GraceNotes>/g)).toEqual(['<GraceNotes>BeforeBeat</GraceNotes>']);
+	});
+
+	it('writes tempo changes as MasterTrack automations', () => {
+		expect(gpif.match(/<Value>[\d.]+ 2<\/Value>/g)).toEqual(['<Value>120 2</Value>', '<Value>96 2</Value>', '<Value>90 2</Value>']);
+		expect(gpif).toContain('<Position>0.75</Position>');
+	});
+
+	it('writes one Sound per program and switches them with track automations', () => {
+		expect(gpif.match(/<Path>[^<]+<\/Path>/g)).toEqual(['<Path>Midi/29</Path>', '<Path>Midi/33</Path>', '<Path>Midi/34</Path>']);
+		expect(gpif).toContain('<Type>Sound</Type>');
+		expect(gpif).toContain('<Value>Midi/34;Electric Bass (pick);User</Value>');
+		expect(gpif).toContain('<SecondaryChannel>3</SecondaryChannel>');
+	});
+});
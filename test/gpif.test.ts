@@ -0,0 +1,777 @@
+import { describe, it, expect } from 'vitest';
+import { DOMParser } from 'linkedom';
+import { gpifToTabSong } from '../src/index.js';
+import type { TabSong } from '../src/index.js';
+
+// ---------------------------------------------------------------------------
+// Synthetic GPIF documents — small hand-written scores exercising one
+// feature at a time through the same ID graph the real files use.
+// ---------------------------------------------------------------------------
+
+interface GpifParts {
+	score?: string;
+	masterTrack?: string;
+	tracks?: string;
+	masterBars: string;
+	bars: string;
+	voices: string;
+	beats: string;
+	notes?: string;
+	rhythms?: string;
+}
+
+const DEFAULT_TRACK = `
+	<Track id="0">
+		<Name>Guitar</Name>
+		<Properties>
+			<Property name="Tuning"><Pitches>40 45 50 55 59 64</Pitches></Property>
+		</Properties>
+	</Track>`;
+
+const DEFAULT_RHYTHMS = `
+	<Rhythm id="0"><NoteValue>Quarter</NoteValue></Rhythm>
+	<Rhythm id="1"><NoteValue>Half</NoteValue></Rhythm>
+	<Rhythm id="2"><NoteValue>Whole</NoteValue></Rhythm>`;
+
+/** Builds a note element on a GPIF string (0 = lowest) and fret. */
+function note(id: number, string: number, fret: number, extra = ''): string {
+	return `
+	<Note id="${id}">
+		${extra}
+		<Properties>
+			<Property name="String"><String>${string}</String></Property>
+			<Property name="Fret"><Fret>${fret}</Fret></Property>
+		</Properties>
+	</Note>`;
+}
+
+function parseGpif(parts: GpifParts): TabSong {
+	const xml = `<?xml version="1.0" encoding="utf-8"?>
+<GPIF>
+	<Score>${parts.score ?? '<Title>Synthetic</Title>'}</Score>
+	<MasterTrack>${parts.masterTrack ?? ''}</MasterTrack>
+	<Tracks>${parts.tracks ?? DEFAULT_TRACK}</Tracks>
+	<MasterBars>${parts.masterBars}</MasterBars>
+	<Bars>${parts.bars}</Bars>
+	<Voices>${parts.voices}</Voices>
+	<Beats>${parts.beats}</Beats>
+	<Notes>${parts.notes ?? ''}</Notes>
+	<Rhythms>${parts.rhythms ?? DEFAULT_RHYTHMS}</Rhythms>
+</GPIF>`;
+	const doc = new DOMParser().parseFromString(xml, 'text/xml') as unknown as Document;
+	return gpifToTabSong(doc);
+}
+
+// ---------------------------------------------------------------------------
+// Voices
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong voices', () => {
+	const song = parseGpif({
+		masterBars: '<MasterBar><Time>4/4</Time><Bars>0</Bars></MasterBar>',
+		bars: '<Bar id="0"><Voices>0 1 -1 -1</Voices></Bar>',
+		voices: `
+			<Voice id="0"><Beats>0 1</Beats></Voice>
+			<Voice id="1"><Beats>2</Beats></Voice>`,
+		beats: `
+			<Beat id="0"><Rhythm ref="1" /><Notes>0</Notes></Beat>
+			<Beat id="1"><Rhythm ref="1" /><Notes>1</Notes></Beat>
+			<Beat id="2"><Rhythm ref="2" /><Notes>2</Notes></Beat>`,
+		notes: note(0, 5, 0) + note(1, 5, 3) + note(2, 0, 0)
+	});
+
+	it('keeps every voice with beats and leaves beats as voice 1', () => {
+		const bar = song.tracks[0].bars[0];
+		expect(bar.voices.length).toBe(2);
+		expect(bar.beats).toBe(bar.voices[0]);
+		expect(bar.voices[0].map((b) => b.notes[0].fret)).toEqual([0, 3]);
+		expect(bar.voices[1][0].duration).toBe('whole');
+	});
+
+	it('tags beats with their voice and numbers each voice separately', () => {
+		const bar = song.tracks[0].bars[0];
+		expect(bar.voices[0].map((b) => [b.voice, b.index])).toEqual([[0, 0], [0, 1]]);
+		expect(bar.voices[1].map((b) => [b.voice, b.index])).toEqual([[1, 0]]);
+	});
+
+	it('normalizes string order on secondary voices too', () => {
+		const bar = song.tracks[0].bars[0];
+		expect(bar.voices[0][0].notes[0].string).toBe(0);
+		expect(bar.voices[1][0].notes[0].string).toBe(5);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Tempo automations
+// ---------------------------------------------------------------------------
+
+function tempoAutomation(bar: number, position: number, value: string, linear = false): string {
+	return `
+	<Automation>
+		<Type>Tempo</Type>
+		<Linear>${linear}</Linear>
+		<Bar>${bar}</Bar>
+		<Position>${position}</Position>
+		<Visible>true</Visible>
+		<Value>${value}</Value>
+	</Automation>`;
+}
+
+describe('gpifToTabSong tempo automations', () => {
+	const quarterBar = (id: number) => `<Bar id="${id}"><Voices>${id} -1 -1 -1</Voices></Bar>`;
+	const quarterVoice = (id: number) => `<Voice id="${id}"><Beats>${[0, 1, 2, 3].map((b) => id * 4 + b).join(' ')}</Beats></Voice>`;
+	const song = parseGpif({
+		masterTrack: `<Automations>
+			${tempoAutomation(0, 0, '100 2')}
+			${tempoAutomation(0, 0.5, '80 2')}
+			${tempoAutomation(1, 0, '100 2', true)}
+			${tempoAutomation(2, 0, '70 4')}
+		</Automations>`,
+		masterBars: [0, 1, 2].map((i) => `<MasterBar><Time>4/4</Time><Bars>${i}</Bars></MasterBar>`).join(''),
+		bars: [0, 1, 2].map(quarterBar).join(''),
+		voices: [0, 1, 2].map(quarterVoice).join(''),
+		beats: Array.from({ length: 12 }, (_, i) => `<Beat id="${i}"><Rhythm ref="0" /></Beat>`).join('')
+	});
+	const tempos = song.tracks[0].bars.map((bar) => bar.beats.map((b) => b.tempo));
+
+	it('uses the first automation as the song tempo', () => {
+		expect(song.tempo).toBe(100);
+	});
+
+	it('applies a mid-bar automation from its position, not the bar start', () => {
+		expect(tempos[0]).toEqual([100, 100, 80, 80]);
+	});
+
+	it('interpolates linear automations across beats', () => {
+		expect(tempos[1]).toEqual([100, 110, 120, 130]);
+	});
+
+	it('converts the tempo reference unit to quarter-note BPM', () => {
+		expect(tempos[2]).toEqual([140, 140, 140, 140]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Repeats, alternate endings and directions
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong navigation', () => {
+	const song = parseGpif({
+		masterBars: `
+			<MasterBar><Time>4/4</Time><Bars>0</Bars><Repeat start="true" end="false" count="0" /></MasterBar>
+			<MasterBar><Time>4/4</Time><Bars>1</Bars><AlternateEndings>1 2</AlternateEndings><Repeat start="false" end="true" count="3" /></MasterBar>
+			<MasterBar><Time>4/4</Time><Bars>-1</Bars><AlternateEndings>3</AlternateEndings>
+				<Directions><Target>Segno</Target><Jump>DaCapoAlFine</Jump></Directions>
+			</MasterBar>`,
+		bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar><Bar id="1"><Voices>0 -1 -1 -1</Voices></Bar>',
+		voices: '<Voice id="0"><Beats>0</Beats></Voice>',
+		beats: '<Beat id="0"><Rhythm ref="2" /></Beat>'
+	});
+	const bars = song.tracks[0].bars;
+
+	it('reads repeat marks with the total play count', () => {
+		expect(bars[0].repeatStart).toBe(true);
+		expect(bars[1].repeatEnd).toBe(true);
+		expect(bars[1].repeatCount).toBe(3);
+	});
+
+	it('reads alternate endings as 1-based numbers', () => {
+		expect(bars[0].alternateEndings).toEqual([]);
+		expect(bars[1].alternateEndings).toEqual([1, 2]);
+	});
+
+	it('keeps navigation on bars the track has no content for', () => {
+		expect(bars[2].alternateEndings).toEqual([3]);
+		expect(bars[2].directions).toEqual({ targets: ['Segno'], jumps: ['DaCapoAlFine'] });
+		expect(bars[0].directions).toBeNull();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Lyrics
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong lyrics', () => {
+	const song = parseGpif({
+		tracks: `
+			<Track id="0">
+				<Name>Vocals</Name>
+				<Lyrics dispatched="true">
+					<Line><Text><![CDATA[Sing a-long]]></Text><Offset>1</Offset></Line>
+					<Line><Text><![CDATA[]]></Text><Offset>0</Offset></Line>
+				</Lyrics>
+			</Track>`,
+		masterBars: `
+			<MasterBar><Time>4/4</Time><Bars>0</Bars></MasterBar>
+			<MasterBar><Time>4/4</Time><Bars>1</Bars></MasterBar>
+			<MasterBar><Time>4/4</Time><Bars>0</Bars></MasterBar>`,
+		bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar><Bar id="1"><Voices>1 -1 -1 -1</Voices></Bar>',
+		voices: '<Voice id="0"><Beats>0</Beats></Voice><Voice id="1"><Beats>1 2 3</Beats></Voice>',
+		beats: `
+			<Beat id="0"><Rhythm ref="2" /><Notes>0</Notes></Beat>
+			<Beat id="1"><Rhythm ref="1" /><Notes>1</Notes></Beat>
+			<Beat id="2"><Rhythm ref="0" /></Beat>
+			<Beat id="3"><Rhythm ref="0" /><Notes>2</Notes></Beat>`,
+		notes: note(0, 0, 3) + note(1, 1, 2) + note(2, 2, 0)
+	});
+	const [line] = song.tracks[0].lyrics;
+
+	it('reads non-empty lines with their bar offset', () => {
+		expect(song.tracks[0].lyrics.length).toBe(1);
+		expect(line.startBar).toBe(1);
+		expect(line.text).toBe('Sing a-long');
+	});
+
+	it('skips rests and carries syllables into the next bar', () => {
+		expect(line.syllables).toEqual([
+			{ text: 'Sing', barIndex: 1, beatIndex: 0 },
+			{ text: 'a-', barIndex: 1, beatIndex: 2 },
+			{ text: 'long', barIndex: 2, beatIndex: 0 }
+		]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Chord diagrams
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong chords', () => {
+	const song = parseGpif({
+		tracks: `
+			<Track id="0">
+				<Name>Guitar</Name>
+				<Staves><Staff><Properties>
+					<Property name="Tuning"><Pitches>40 45 50 55 59 64</Pitches></Property>
+					<Property name="DiagramCollection"><Items>
+						<Item id="3" name="Bm7">
+							<Diagram stringCount="6" fretCount="5" baseFret="1">
+								<Fret string="1" fret="1" /><Fret string="2" fret="3" /><Fret string="3" fret="1" />
+								<Fret string="4" fret="2" /><Fret string="5" fret="1" />
+								<Fingering>
+									<Position finger="Index" fret="2" string="1" /><Position finger="Annular" fret="4" string="2" />
+									<Position finger="Index" fret="2" string="3" /><Position finger="Middle" fret="3" string="4" />
+									<Position finger="Index" fret="2" string="5" />
+								</Fingering>
+							</Diagram>
+						</Item>
+					</Items></Property>
+				</Properties></Staff></Staves>
+			</Track>`,
+		masterBars: '<MasterBar><Time>4/4</Time><Bars>0</Bars></MasterBar>',
+		bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar>',
+		voices: '<Voice id="0"><Beats>0 1</Beats></Voice>',
+		beats: `
+			<Beat id="0"><Rhythm ref="1" /><Chord>3</Chord><Notes>0</Notes></Beat>
+			<Beat id="1"><Rhythm ref="1" /><Chord>9</Chord><Notes>1</Notes></Beat>`,
+		notes: note(0, 1, 2) + note(1, 1, 2)
+	});
+	const track = song.tracks[0];
+
+	it('reads diagrams from the staff DiagramCollection, highest string first', () => {
+		expect(track.chords).toEqual([
+			{
+				id: '3',
+				name: 'Bm7',
+				baseFret: 2,
+				frets: [2, 3, 2, 4, 2, -1],
+				barres: [{ fret: 2, firstString: 0, lastString: 4 }],
+				fingering: [1, 2, 1, 3, 1, -1]
+			}
+		]);
+	});
+
+	it('references known diagrams from beats', () => {
+		expect(track.bars[0].beats.map((b) => b.chordId)).toEqual(['3', null]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Grace notes
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong grace notes', () => {
+	const graceNote = (id: number, string: number, fret: number, property: string) => `
+	<Note id="${id}">
+		<Properties>
+			<Property name="String"><String>${string}</String></Property>
+			<Property name="Fret"><Fret>${fret}</Fret></Property>
+			<Property name="${property}"><Enable /></Property>
+		</Properties>
+	</Note>`;
+	const song = parseGpif({
+		masterTrack: `<Automations>${tempoAutomation(0, 0, '100 2')}${tempoAutomation(0, 0.5, '80 2')}</Automations>`,
+		masterBars: '<MasterBar><Time>4/4</Time><Bars>0</Bars></MasterBar>',
+		bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar>',
+		voices: '<Voice id="0"><Beats>0 1 2 3</Beats></Voice>',
+		beats: `
+			<Beat id="0"><GraceNotes>BeforeBeat</GraceNotes><Rhythm ref="3" /><Notes>0</Notes></Beat>
+			<Beat id="1"><Rhythm ref="1" /><Notes>1</Notes></Beat>
+			<Beat id="2"><GraceNotes>OnBeat</GraceNotes><Rhythm ref="4" /><Notes>2</Notes></Beat>
+			<Beat id="3"><Rhythm ref="1" /><Notes>3 4</Notes></Beat>`,
+		notes: graceNote(0, 0, 1, 'HopoOrigin') + note(1, 0, 3) + graceNote(2, 5, 0, 'Muted') + note(3, 5, 2) + note(4, 0, 0),
+		rhythms: DEFAULT_RHYTHMS + `
+			<Rhythm id="3"><NoteValue>16th</NoteValue><PrimaryTuplet num="3" den="2" /></Rhythm>
+			<Rhythm id="4"><NoteValue>32nd</NoteValue></Rhythm>`
+	});
+	const beats = song.tracks[0].bars[0].beats;
+
+	it('folds grace beats into the notes they lead into', () => {
+		expect(beats.map((b) => b.index)).toEqual([0, 1]);
+		expect(beats[0].notes[0].graceNote).toEqual({
+			fret: 1,
+			duration: '16th',
+			tuplet: { num: 3, den: 2 },
+			transition: 'hammer',
+			onBeat: false,
+			dead: false
+		});
+	});
+
+	it('matches grace notes to the principal note on the same string', () => {
+		const [high, low] = beats[1].notes;
+		expect(high.string).toBe(0);
+		expect(high.graceNote).toEqual({ fret: 0, duration: '32nd', tuplet: null, transition: 'none', onBeat: true, dead: true });
+		expect(low.graceNote).toBeNull();
+	});
+
+	it('keeps grace beats out of beat positions', () => {
+		expect(beats.map((b) => b.tempo)).toEqual([100, 80]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Bends
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong bends', () => {
+	const bendNote = (id: number, props: Record<string, number>) => `
+	<Note id="${id}">
+		<Properties>
+			<Property name="String"><String>0</String></Property>
+			<Property name="Fret"><Fret>7</Fret></Property>
+			<Property name="Bended"><Enable /></Property>
+			${Object.entries(props).map(([name, value]) => `<Property name="${name}"><Float>${value}</Float></Property>`).join('')}
+		</Properties>
+	</Note>`;
+	const song = parseGpif({
+		masterBars: '<MasterBar><Time>4/4</Time><Bars>0</Bars></MasterBar>',
+		bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar>',
+		voices: '<Voice id="0"><Beats>0 1 2 3</Beats></Voice>',
+		beats: [0, 1, 2, 3].map((i) => `<Beat id="${i}"><Rhythm ref="0" /><Notes>${i}</Notes></Beat>`).join(''),
+		notes: bendNote(0, { BendOriginValue: 0, BendOriginOffset: 0, BendDestinationValue: 100, BendDestinationOffset: 40 })
+			+ bendNote(1, { BendOriginValue: 0, BendMiddleValue: 100, BendMiddleOffset1: 20, BendMiddleOffset2: 70, BendDestinationValue: 0 })
+			+ bendNote(2, { BendOriginValue: 50, BendDestinationValue: 50 })
+			+ bendNote(3, { BendOriginValue: 100, BendMiddleValue: 100, BendMiddleOffset1: 30, BendDestinationValue: 25, BendDestinationOffset: 90 })
+	});
+	const bends = song.tracks[0].bars[0].beats.map((b) => b.notes[0].bend);
+
+	it('places each point at its offset, in semitones', () => {
+		expect(bends[0]).toEqual({
+			kind: 'bend',
+			points: [
+				{ position: 0, value: 0, vibrato: false },
+				{ position: 0.4, value: 2, vibrato: false }
+			]
+		});
+		expect(bends[1]?.points.map((p) => [p.position, p.value])).toEqual([[0, 0], [0.2, 2], [0.7, 2], [1, 0]]);
+	});
+
+	it('names the bend from its curve', () => {
+		expect(bends.map((b) => b?.kind)).toEqual(['bend', 'bendRelease', 'preBend', 'preBendRelease']);
+		expect(bends[3]?.points.map((p) => [p.position, p.value])).toEqual([[0, 2], [0.3, 2], [0.9, 0.5]]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Beat effects
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong beat effects', () => {
+	const song = parseGpif({
+		masterBars: '<MasterBar><Time>4/4</Time><Bars>0</Bars></MasterBar>',
+		bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar>',
+		voices: '<Voice id="0"><Beats>0 1 2 3</Beats></Voice>',
+		beats: `
+			<Beat id="0">
+				<Rhythm ref="0" />
+				<Whammy originValue="0" middleValue="-100" destinationValue="0" originOffset="0" middleOffset1="25" middleOffset2="25" destinationOffset="50" />
+				<Notes>0</Notes>
+				<Properties><Property name="Brush"><Direction>Down</Direction></Property></Properties>
+				<XProperties><XProperty id="687935489"><Int>240</Int></XProperty></XProperties>
+			</Beat>
+			<Beat id="1">
+				<Rhythm ref="0" />
+				<Notes>1</Notes>
+				<Properties>
+					<Property name="WhammyBar"><Enable /></Property>
+					<Property name="WhammyBarOriginValue"><Float>0</Float></Property>
+					<Property name="WhammyBarDestinationValue"><Float>-25</Float></Property>
+					<Property name="PickStroke"><Direction>Up</Direction></Property>
+					<Property name="Popped"><Enable /></Property>
+				</Properties>
+			</Beat>
+			<Beat id="2"><Rhythm ref="0" /><Notes>2</Notes><Properties><Property name="Slapped"><Enable /></Property></Properties></Beat>
+			<Beat id="3"><Rhythm ref="0" /><Notes>3</Notes></Beat>`,
+		notes: note(0, 0, 0) + note(1, 0, 0) + note(2, 0, 0) + note(3, 0, 0)
+	});
+	const beats = song.tracks[0].bars[0].beats;
+
+	it('reads whammy curves from the Whammy element or the WhammyBar properties', () => {
+		expect(beats[0].whammy?.map((p) => [p.position, p.value])).toEqual([[0, 0], [0.25, -2], [0.5, 0]]);
+		expect(beats[1].whammy?.map((p) => [p.position, p.value])).toEqual([[0, 0], [1, -0.5]]);
+		expect(beats[2].whammy).toBeNull();
+	});
+
+	it('reads brushes with their length, pick strokes and slap/pop', () => {
+		expect(beats.map((b) => b.stroke)).toEqual([{ direction: 'down', duration: '16th' }, null, null, null]);
+		expect(beats.map((b) => b.pickStroke)).toEqual([null, 'up', null, null]);
+		expect(beats.map((b) => b.slapPop)).toEqual([null, 'pop', 'slap', null]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Note techniques
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong note techniques', () => {
+	const song = parseGpif({
+		masterBars: '<MasterBar><Time>4/4</Time><Bars>0</Bars></MasterBar>',
+		bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar>',
+		voices: '<Voice id="0"><Beats>0 1 2</Beats></Voice>',
+		beats: `
+			<Beat id="0">
+				<Rhythm ref="0" />
+				<Notes>0</Notes>
+				<XProperties><XProperty id="688062467"><Int>120</Int></XProperty></XProperties>
+			</Beat>
+			<Beat id="1"><Rhythm ref="0" /><Tremolo>1/8</Tremolo><Notes>1 2</Notes></Beat>
+			<Beat id="2"><Rhythm ref="0" /><Notes>3</Notes></Beat>`,
+		notes: note(0, 1, 5, '<Accent>9</Accent><Trill>52</Trill>')
+			+ note(1, 0, 3, '<Accent>4</Accent><Ornament>InvertedTurn</Ornament>')
+			+ note(2, 1, 3)
+			+ note(3, 2, 0, '<Trill>52</Trill>')
+	});
+	const beats = song.tracks[0].bars[0].beats;
+
+	it('splits the Accent flags into staccato and accent strength', () => {
+		expect(beats[0].notes[0]).toMatchObject({ staccato: true, accent: 1 });
+		expect(beats[1].notes.map((n) => [n.staccato, n.accent])).toEqual([[false, 2], [false, null]]);
+	});
+
+	it('sounds staccato notes for half their value', () => {
+		expect(beats.map((b) => b.notes.map((n) => n.soundingLength))).toEqual([[0.5], [1, 1], [1]]);
+	});
+
+	it('reads trills as a fret on the same string, with the speed from the beat', () => {
+		// A string (45) + 7 = E (52), at 120 ticks = a 32nd
+		expect(beats[0].notes[0].trill).toEqual({ fret: 7, speed: '32nd' });
+		// D string (50) + 2, at the default speed
+		expect(beats[2].notes[0].trill).toEqual({ fret: 2, speed: '16th' });
+	});
+
+	it('applies beat tremolo picking to every note of the beat', () => {
+		expect(beats.map((b) => b.notes.map((n) => n.tremoloPicking))).toEqual([[null], ['32nd', '32nd'], [null]]);
+	});
+
+	it('reads ornaments', () => {
+		expect(beats[1].notes.map((n) => n.ornament)).toEqual(['invertedTurn', null]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Legato and ties
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong legato and ties', () => {
+	const hopo = (name: string) => `<Property name="${name}"><Enable /></Property>`;
+	const song = parseGpif({
+		masterBars: '<MasterBar><Time>3/4</Time><Bars>0</Bars></MasterBar><MasterBar><Time>3/4</Time><Bars>1</Bars></MasterBar>',
+		bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar><Bar id="1"><Voices>1 -1 -1 -1</Voices></Bar>',
+		voices: '<Voice id="0"><Beats>0 1 2</Beats></Voice><Voice id="1"><Beats>3 4</Beats></Voice>',
+		beats: [0, 1, 2, 3].map((id) => `<Beat id="${id}"><Rhythm ref="0" /><Notes>${id}</Notes></Beat>`).join('')
+			+ '<Beat id="4"><Rhythm ref="1" /></Beat>',
+		notes: `
+			<Note id="0"><Properties><Property name="String"><String>0</String></Property><Property name="Fret"><Fret>5</Fret></Property>${hopo('HopoOrigin')}</Properties></Note>
+			<Note id="1"><Properties><Property name="String"><String>0</String></Property><Property name="Fret"><Fret>7</Fret></Property>${hopo('HopoOrigin')}${hopo('HopoDestination')}</Properties></Note>
+			<Note id="2"><Properties><Property name="String"><String>0</String></Property><Property name="Fret"><Fret>3</Fret></Property>${hopo('HopoDestination')}</Properties></Note>`
+			+ note(3, 0, 3, '<Tie origin="false" destination="true" />')
+	});
+	const notes = song.tracks[0].bars.flatMap((b) => b.beats.flatMap((beat) => beat.notes));
+
+	it('resolves legato direction from the next note on the string', () => {
+		expect(notes.map((n) => [n.hammerOn, n.pullOff])).toEqual([[true, false], [false, true], [false, false], [false, false]]);
+	});
+
+	it('marks the note a tie continues from, across bar lines', () => {
+		expect(notes.map((n) => n.tie)).toEqual([
+			{ origin: false, destination: false },
+			{ origin: false, destination: false },
+			{ origin: true, destination: false },
+			{ origin: false, destination: true }
+		]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Sounding pitch
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong sounding pitch', () => {
+	const harmonic = (type: string, hfret?: number) =>
+		`<Property name="HarmonicType"><HType>${type}</HType></Property>`
+		+ (hfret === undefined ? '' : `<Property name="HarmonicFret"><HFret>${hfret}</HFret></Property>`);
+	const harmonicNote = (id: number, fret: number, props: string) => `
+		<Note id="${id}"><Properties>
+			<Property name="String"><String>0</String></Property>
+			<Property name="Fret"><Fret>${fret}</Fret></Property>
+			${props}
+		</Properties></Note>`;
+	const song = parseGpif({
+		tracks: `
+			<Track id="0">
+				<Name>Guitar</Name>
+				<Properties>
+					<Property name="Tuning"><Pitches>40 45 50 55 59 64</Pitches></Property>
+					<Property name="CapoFret"><Fret>2</Fret></Property>
+				</Properties>
+			</Track>`,
+		masterBars: '<MasterBar><Time>9/4</Time><Bars>0</Bars></MasterBar>',
+		bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar>',
+		voices: '<Voice id="0"><Beats>0 1 2 3 4 5 6 7 8</Beats></Voice>',
+		beats: [0, 1, 2, 3, 4, 5, 6, 7, 8].map((id) => `<Beat id="${id}"><Rhythm ref="0" /><Notes>${id}</Notes></Beat>`).join(''),
+		notes: note(0, 5, 3)
+			+ harmonicNote(1, 12, harmonic('Natural'))
+			+ harmonicNote(2, 7, harmonic('Natural'))
+			+ harmonicNote(3, 3, harmonic('Natural', 3.2))
+			+ harmonicNote(4, 5, harmonic('Artificial'))
+			+ harmonicNote(5, 5, harmonic('Pinch', 7))
+			+ harmonicNote(6, 3, harmonic('Natural', 2.7))
+			+ harmonicNote(7, 6, harmonic('Natural', 5.8))
+			+ note(8, 5, 3, '<Trill>71</Trill>')
+	});
+	const notes = song.tracks[0].bars[0].beats.map((b) => b.notes[0]);
+
+	it('adds capo and fret to the open string, with the octave', () => {
+		// High E (64) + capo 2 + fret 3
+		expect(notes[0].midi).toBe(69);
+		expect(notes[0].pitch).toEqual({ pitchClass: 9, name: 'A', accidental: 'natural', octave: 4 });
+	});
+
+	it('sounds natural harmonics at the partial of their node', () => {
+		// Low E (40) + capo 2: 12th fret +12, 7th +19, 3.2 +31
+		expect(notes.slice(1, 4).map((n) => n.midi)).toEqual([54, 61, 73]);
+		expect(notes[2].noteName).toBe('C#');
+	});
+
+	it('raises other harmonics above the fretted note', () => {
+		// Fretted at 47: an octave by default, an octave and a fifth when touched 7 frets higher
+		expect(notes.slice(4, 6).map((n) => n.midi)).toEqual([59, 66]);
+	});
+
+	it('finds the nearest node of fractional harmonic frets', () => {
+		// 2.7 and 5.8 both lie over nodes of the 7th partial: +34
+		expect(notes.slice(6, 8).map((n) => n.midi)).toEqual([76, 76]);
+	});
+
+	it('reads trill pitches as a fret above the capo', () => {
+		// 71 = high E (64) + capo 2 + fret 5
+		expect(notes[8].trill).toEqual({ fret: 5, speed: '16th' });
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Key-aware spelling
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong key spelling', () => {
+	const key = (count: number, mode: string) => `<Key><AccidentalCount>${count}</AccidentalCount><Mode>${mode}</Mode></Key>`;
+	const song = parseGpif({
+		tracks: `
+			<Track id="0">
+				<Name>Guitar</Name>
+				<Properties><Property name="Tuning"><Pitches>39 44 49 54 58 63</Pitches></Property></Properties>
+			</Track>`,
+		masterBars: `
+			<MasterBar>${key(-2, 'Major')}<Time>4/4</Time><Bars>0</Bars></MasterBar>
+			<MasterBar><Time>4/4</Time><Bars>1</Bars></MasterBar>
+			<MasterBar>${key(2, 'Major')}<Time>4/4</Time><Bars>2</Bars></MasterBar>`,
+		bars: [0, 1, 2].map((id) => `<Bar id="${id}"><Voices>${id} -1 -1 -1</Voices></Bar>`).join(''),
+		voices: [0, 1, 2].map((id) => `<Voice id="${id}"><Beats>${id}</Beats></Voice>`).join(''),
+		beats: [0, 1, 2].map((id) => `<Beat id="${id}"><Rhythm ref="2" /><Notes>${id}</Notes></Beat>`).join(''),
+		// Fret 3 on the low Eb string sounds F#/Gb
+		notes: note(0, 0, 3) + note(1, 0, 3) + note(2, 0, 3)
+	});
+	const bars = song.tracks[0].bars;
+
+	it('spells notes from the key in force at their bar', () => {
+		expect(bars.map((b) => b.beats[0].notes[0].noteName)).toEqual(['Gb', 'Gb', 'F#']);
+		expect(bars[0].beats[0].notes[0].pitch).toEqual({ pitchClass: 6, name: 'Gb', accidental: 'flat', octave: 2 });
+	});
+
+	it('spells the tuning from the first key', () => {
+		expect(song.tracks[0].tuning.map((n) => `${n.name}${n.octave}`)).toEqual(['Eb4', 'Bb3', 'Gb3', 'Db3', 'Ab2', 'Eb2']);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Percussion
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong percussion', () => {
+	const articulation = (key: number) => `<Articulation><OutputMidiNumber>${key}</OutputMidiNumber></Articulation>`;
+	const song = parseGpif({
+		tracks: `
+			<Track id="0">
+				<Name>Drums</Name>
+				<InstrumentSet>
+					<Type>drumKit</Type>
+					<Elements>
+						<Element><Name>Snare</Name><Articulations>${articulation(38) + articulation(37)}</Articulations></Element>
+						<Element><Name>Hi-Hat</Name><Articulations>${articulation(42) + articulation(46)}</Articulations></Element>
+					</Elements>
+				</InstrumentSet>
+			</Track>`,
+		masterBars: '<MasterBar><Time>4/4</Time><Bars>0</Bars></MasterBar>',
+		bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar>',
+		voices: '<Voice id="0"><Beats>0</Beats></Voice>',
+		beats: '<Beat id="0"><Rhythm ref="2" /><Notes>0 1</Notes></Beat>',
+		notes: note(0, 0, 0, '<InstrumentArticulation>1</InstrumentArticulation>') + note(1, 1, 0, '<InstrumentArticulation>3</InstrumentArticulation>')
+	});
+
+	it('reads drumKit tracks as percussion', () => {
+		expect(song.tracks[0].kind).toBe('percussion');
+	});
+
+	it('names each note from the articulation it refers to', () => {
+		const notes = song.tracks[0].bars[0].beats[0].notes;
+		expect(notes.map((n) => n.drum)).toEqual([
+			{ key: 37, piece: 'snare', articulation: 'sideStick' },
+			{ key: 46, piece: 'hiHat', articulation: 'open' }
+		]);
+		expect(notes.map((n) => n.midi)).toEqual([37, 46]);
+	});
+
+	it('reads GP6 percussion tracks, keyed by the fret of each note', () => {
+		const gp6 = parseGpif({
+			tracks: `
+				<Track id="0">
+					<Name>Drums</Name>
+					<GeneralMidi table="Percussion"><Program>0</Program><Port>0</Port><PrimaryChannel>9</PrimaryChannel><SecondaryChannel>9</SecondaryChannel></GeneralMidi>
+					<Properties>
+						<Property name="Tuning"><Pitches>40 45 50 55 59 64</Pitches></Property>
+					</Properties>
+				</Track>`,
+			masterBars: '<MasterBar><Time>4/4</Time><Bars>0</Bars></MasterBar>',
+			bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar>',
+			voices: '<Voice id="0"><Beats>0</Beats></Voice>',
+			beats: '<Beat id="0"><Rhythm ref="2" /><Notes>0 1</Notes></Beat>',
+			notes: note(0, 0, 36) + note(1, 1, 42)
+		});
+		const track = gp6.tracks[0];
+		expect(track.kind).toBe('percussion');
+		expect(track.bars[0].beats[0].notes.map((n) => n.drum)).toEqual([
+			{ key: 36, piece: 'kick', articulation: 'hit' },
+			{ key: 42, piece: 'hiHat', articulation: 'closed' }
+		]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Dynamics
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong dynamics', () => {
+	const song = parseGpif({
+		masterBars: '<MasterBar><Time>4/4</Time><Bars>0</Bars></MasterBar>',
+		bars: '<Bar id="0"><Voices>0 -1 -1 -1</Voices></Bar>',
+		voices: '<Voice id="0"><Beats>0 1 2</Beats></Voice>',
+		beats: `
+			<Beat id="0"><Rhythm ref="0" /><Dynamic>PP</Dynamic><Notes>0 1</Notes></Beat>
+			<Beat id="1"><Rhythm ref="0" /><Dynamic>MF</Dynamic><Notes>2</Notes></Beat>
+			<Beat id="2"><Rhythm ref="1" /><Notes>3</Notes></Beat>`,
+		notes: note(0, 0, 3)
+			+ note(1, 1, 5, '<AntiAccent>Normal</AntiAccent>')
+			+ note(2, 0, 3, '<Accent>4</Accent>')
+			+ note(3, 0, 3)
+	});
+	const beats = song.tracks[0].bars[0].beats;
+
+	it('reads beat dynamics as markings and plays their notes at them', () => {
+		expect(beats.map((b) => b.dynamic)).toEqual(['pp', 'mf', null]);
+		expect(beats.map((b) => b.notes[0].dynamic)).toEqual(['pp', 'mf', 'f']);
+		expect(beats[2].notes[0].velocity).toBe(95);
+	});
+
+	it('plays ghost notes softer and accented notes louder', () => {
+		expect(beats[0].notes.map((n) => n.ghost)).toEqual([false, true]);
+		expect(beats[0].notes.map((n) => n.velocity)).toEqual([31, 15]);
+		// Heavy accent: two steps above mf
+		expect(beats[1].notes[0].velocity).toBe(111);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// MIDI output
+// ---------------------------------------------------------------------------
+
+describe('gpifToTabSong MIDI', () => {
+	const faders = (pan: number, volume: number) => `0.5 0.5 0.5 0.5 0.5 0.5 0.5 0.5 0.5 0.5 0.5 ${pan} ${volume} 0.5 0.5 0.5`;
+	const sound = (name: string, program: number) =>
+		`<Sound><Name>${name}</Name><Path>Midi/${program}</Path><Role>User</Role><MIDI><LSB>0</LSB><MSB>0</MSB><Program>${program}</Program></MIDI></Sound>`;
+	const song = parseGpif({
+		tracks: `
+			<Track id="0">
+				<Name>Guitar</Name>
+				<Sounds>${sound('Clean', 27) + sound('Drive', 29)}</Sounds>
+				<MidiConnection><Port>1</Port><PrimaryChannel>2</PrimaryChannel><SecondaryChannel>3</SecondaryChannel></MidiConnection>
+				<ChannelStrip><Parameters>${faders(0.25, 0.5)}</Parameters></ChannelStrip>
+				<Automations>
+					<Automation><Type>Sound</Type><Linear>false</Linear><Bar>1</Bar><Position>0.5</Position><Value>Midi/29;Drive;User</Value></Automation>
+					<Automation><Type>Volume</Type><Linear>false</Linear><Bar>0</Bar><Position>0</Position><Value>1</Value></Automation>
+				</Automations>
+			</Track>
+			<Track id="1">
+				<Name>Bass</Name>
+				<GeneralMidi table="Instrument"><Program>33</Program><Port>0</Port><PrimaryChannel>4</PrimaryChannel><SecondaryChannel>5</SecondaryChannel></GeneralMidi>
+				<RSE><ChannelStrip><Parameters>${faders(1, 0)}</Parameters></ChannelStrip></RSE>
+			</Track>`,
+		masterBars: '<MasterBar><Time>4/4</Time><Bars>0 1</Bars></MasterBar><MasterBar><Time>3/4</Time><Bars>2 3</Bars></MasterBar>',
+		bars: '<Bar id="0"><Voices>-1 -1 -1 -1</Voices></Bar><Bar id="1"><Voices>-1 -1 -1 -1</Voices></Bar><Bar id="2"><Voices>-1 -1 -1 -1</Voices></Bar><Bar id="3"><Voices>-1 -1 -1 -1</Voices></Bar>',
+		voices: '',
+		beats: ''
+	});
+
+	it('reads the GP7 sound, MIDI connection and channel strip', () => {
+		const { automations, ...midi } = song.tracks[0].midi;
+		expect(midi).toEqual({
+			program: 27,
+			programName: 'Electric Guitar (clean)',
+			bank: 0,
+			port: 1,
+			channel: 2,
+			effectChannel: 3,
+			volume: 64,
+			pan: 32,
+			chorus: 0,
+			reverb: 0,
+			phaser: 0,
+			tremolo: 0
+		});
+		expect(automations).toEqual([
+			{ type: 'volume', value: 127, barIndex: 0, position: 0, transition: 0 },
+			{ type: 'program', value: 29, barIndex: 1, position: 1.5, transition: 0 }
+		]);
+	});
+
+	it('reads GP6 GeneralMidi programs and the RSE channel strip', () => {
+		const { program, programName, channel, effectChannel, volume, pan } = song.tracks[1].midi;
+		expect({ program, programName, channel, effectChannel, volume, pan }).toEqual({
+			program: 33,
+			programName: 'Electric Bass (finger)',
+			channel: 4,
+			effectChannel: 5,
+			volume: 0,
+			pan: 127
+		});
+	});
+});
@@ -0,0 +1,150 @@
+import { noteFromMidi } from '../src/index.js';
+import type { TabBar, TabBeat, TabMidi, TabNote, TabSong, TabTrack } from '../src/index.js';
+
+// ---------------------------------------------------------------------------
+// Synthetic score builders shared by the writer and renderer tests. Every
+// field takes the value a plain, unmarked note/beat/bar would have; tests
+// override only what they exercise.
+// ---------------------------------------------------------------------------
+
+/** A plain note; its pitch is a placeholder middle C unless given. */
+export function tabNote(string: number, fret: number, extra: Partial<TabNote> = {}): TabNote {
+	return {
+		string,
+		fret,
+		pitchClass: 0,
+		noteName: 'C',
+		midi: 60,
+		pitch: { pitchClass: 0, name: 'C', accidental: 'natural', octave: 4 },
+		slide: null,
+		harmonic: null,
+		palmMute: false,
+		muted: false,
+		letRing: false,
+		bend: null,
+		tie: { origin: false, destination: false },
+		vibrato: null,
+		hammerOn: false,
+		pullOff: false,
+		tapped: false,
+		accent: null,
+		graceNote: null,
+		staccato: false,
+		trill: null,
+		tremoloPicking: null,
+		ornament: null,
+		drum: null,
+		dynamic: 'f',
+		velocity: 95,
+		ghost: false,
+		soundingLength: 1,
+		...extra
+	};
+}
+
+/** A note pitched as the readers report it, from the sounding pitch of each open string (capo included). */
+export function soundingNote(soundingTuning: number[], string: number, fret: number, extra: Partial<TabNote> = {}): TabNote {
+	// Artificial harmonics sound an octave above the fretted note
+	const midi = soundingTuning[string] + fret + (extra.harmonic === 'Artificial' ? 12 : 0);
+	const pitch = noteFromMidi(midi);
+	return tabNote(string, fret, { pitchClass: pitch.pitchClass, noteName: pitch.name, midi, pitch, ...extra });
+}
+
+/** A quarter-note beat at 120 BPM; a rest when it has no notes. */
+export function tabBeat(notes: TabNote[], extra: Partial<TabBeat> = {}): TabBeat {
+	return {
+		index: 0,
+		voice: 0,
+		barIndex: 0,
+		notes,
+		duration: 'quarter',
+		tuplet: null,
+		dotted: 0,
+		isRest: notes.length === 0,
+		dynamic: null,
+		tempo: 120,
+		chordId: null,
+		whammy: null,
+		stroke: null,
+		pickStroke: null,
+		slapPop: null,
+		...extra
+	};
+}
+
+/** A 4/4 bar; its first voice doubles as `beats`. */
+export function tabBar(index: number, voices: TabBeat[][], extra: Partial<TabBar> = {}): TabBar {
+	return {
+		index,
+		timeSignature: { numerator: 4, denominator: 4 },
+		keySignature: null,
+		tripletFeel: 'none',
+		section: null,
+		beats: voices[0],
+		voices,
+		repeatStart: false,
+		repeatEnd: false,
+		repeatCount: 0,
+		alternateEndings: [],
+		directions: null,
+		...extra
+	};
+}
+
+/** MIDI settings at the GP defaults, the effect channel following the main one. */
+export function trackMidi(program: number, programName: string, channel: number, extra: Partial<TabMidi> = {}): TabMidi {
+	return {
+		program,
+		programName,
+		bank: 0,
+		port: 0,
+		channel,
+		effectChannel: channel + 1,
+		volume: 103,
+		pan: 64,
+		chorus: 0,
+		reverb: 0,
+		phaser: 0,
+		tremolo: 0,
+		automations: [],
+		...extra
+	};
+}
+
+/** A guitar track on an overdriven guitar sound, without capo. */
+export function tabTrack(name: string, tuningMidi: number[], bars: TabBar[], extra: Partial<TabTrack> = {}): TabTrack {
+	return {
+		id: '0',
+		name,
+		shortName: name.substring(0, 4),
+		instrument: 'Overdriven Guitar',
+		kind: 'stringed',
+		midi: trackMidi(29, 'Overdriven Guitar', 0),
+		tuning: tuningMidi.map((midi) => noteFromMidi(midi)),
+		tuningMidi,
+		capoFret: 0,
+		bars,
+		chords: [],
+		lyrics: [],
+		...extra
+	};
+}
+
+/** A song at 120 BPM without credits. */
+export function tabSong(tracks: TabTrack[], extra: Partial<TabSong> = {}): TabSong {
+	return {
+		title: '',
+		subtitle: '',
+		artist: '',
+		album: '',
+		words: '',
+		music: '',
+		copyright: '',
+		tabber: '',
+		instructions: '',
+		notices: [],
+		tempo: 120,
+		tracks,
+		...extra
+	};
+}
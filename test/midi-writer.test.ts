@@ -0,0 +1,299 @@
+import { describe, it, expect } from 'vitest';
+import { toMidiFile } from '../src/index.js';
+import type { TabBar, TabBeat, TabNote, TabSong } from '../src/index.js';
+import { soundingNote, tabBeat, tabBar, tabTrack, tabSong } from './helpers.js';
+
+// ---------------------------------------------------------------------------
+// Synthetic song + a minimal SMF reader to inspect the output
+// ---------------------------------------------------------------------------
+
+/** Tuning and capo of the synthetic guitar track */
+const TUNING = [64, 59, 55, 50, 45, 40];
+const CAPO = 2;
+
+function tabNote(string: number, fret: number, extra: Partial<TabNote> = {}): TabNote {
+	return soundingNote(TUNING.map((p) => p + CAPO), string, fret, extra);
+}
+
+function beat(index: number, barIndex: number, notes: TabNote[], tempo = 120): TabBeat {
+	return tabBeat(notes, { index, barIndex, duration: 'half', tempo });
+}
+
+function bar(index: number, beats: TabBeat[], extra: Partial<TabBar> = {}): TabBar {
+	return tabBar(index, [beats], extra);
+}
+
+function buildSong(): TabSong {
+	const bars = [
+		bar(0, [
+			beat(0, 0, [tabNote(5, 3)]),
+			beat(1, 0, [tabNote(5, 3, { tie: { origin: false, destination: true } })])
+		]),
+		bar(1, [
+			beat(2, 1, [tabNote(0, 0, { muted: true })], 90),
+			beat(3, 1, [], 90)
+		], { timeSignature: { numerator: 4, denominator: 4 }, repeatEnd: true, repeatCount: 2 })
+	];
+	return tabSong([tabTrack('Guitar', TUNING, bars, { capoFret: CAPO })], { title: 'Synthetic', copyright: '(c) Nobody' });
+}
+
+interface ReadEvent {
+	tick: number;
+	status: number;
+	data: number[];
+}
+
+function readSmf(bytes: Uint8Array): { format: number; division: number; tracks: ReadEvent[][] } {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const chunkType = (pos: number) => String.fromCharCode(...bytes.subarray(pos, pos + 4));
+	expect(chunkType(0)).toBe('MThd');
+	const format = view.getUint16(8);
+	const trackCount = view.getUint16(10);
+	const division = view.getUint16(12);
+
+	const tracks: ReadEvent[][] = [];
+	let pos = 14;
+	for (let t = 0; t < trackCount; t++) {
+		expect(chunkType(pos)).toBe('MTrk');
+		const end = pos + 8 + view.getUint32(pos + 4);
+		pos += 8;
+		const events: ReadEvent[] = [];
+		let tick = 0;
+		const varLen = () => {
+			let v = 0;
+			let b: number;
+			do {
+				b = bytes[pos++];
+				v = (v << 7) | (b & 0x7f);
+			} while (b & 0x80);
+			return v;
+		};
+		while (pos < end) {
+			tick += varLen();
+			const status = bytes[pos++];
+			if (status === 0xff) {
+				const type = bytes[pos++];
+				const length = varLen();
+				events.push({ tick, status: type | 0xff00, data: Array.from(bytes.subarray(pos, pos + length)) });
+				pos += length;
+			} else {
+				const size = (status & 0xf0) === 0xc0 ? 1 : 2;
+				events.push({ tick, status, data: Array.from(bytes.subarray(pos, pos + size)) });
+				pos += size;
+			}
+		}
+		tracks.push(events);
+	}
+	return { format, division, tracks };
+}
+
+// ---------------------------------------------------------------------------
+// toMidiFile
+// ---------------------------------------------------------------------------
+
+describe('toMidiFile', () => {
+	const smf = readSmf(toMidiFile(buildSong()));
+	const [conductor, guitar] = smf.tracks;
+	const noteOns = guitar.filter((e) => (e.status & 0xf0) === 0x90);
+	const noteOffs = guitar.filter((e) => (e.status & 0xf0) === 0x80);
+
+	it('writes a Type-1 file with a conductor track and one track per TabTrack', () => {
+		expect(smf.format).toBe(1);
+		expect(smf.tracks).toHaveLength(2);
+		expect(guitar[0]).toEqual({ tick: 0, status: 0xff03, data: Array.from('Guitar', (c) => c.charCodeAt(0)) });
+		expect(conductor[1]).toEqual({ tick: 0, status: 0xff02, data: Array.from('(c) Nobody', (c) => c.charCodeAt(0)) });
+	});
+
+	it('writes tempo changes where beats change tempo, following repeats', () => {
+		const tempos = conductor
+			.filter((e) => e.status === 0xff51)
+			.map((e) => ({ tick: e.tick, bpm: Math.round(60000000 / ((e.data[0] << 16) | (e.data[1] << 8) | e.data[2])) }));
+		const barTicks = smf.division * 4;
+		expect(tempos).toEqual([
+			{ tick: 0, bpm: 120 },
+			{ tick: barTicks, bpm: 90 },
+			{ tick: barTicks * 2, bpm: 120 },
+			{ tick: barTicks * 3, bpm: 90 }
+		]);
+	});
+
+	it('writes the time signature', () => {
+		const timeSigs = conductor.filter((e) => e.status === 0xff58);
+		expect(timeSigs).toHaveLength(1);
+		expect(timeSigs[0].data.slice(0, 2)).toEqual([4, 2]);
+	});
+
+	it('sets the program and mixer levels from the track MIDI settings', () => {
+		expect(guitar.find((e) => (e.status & 0xf0) === 0xc0)?.data).toEqual([29]);
+		const controllers = guitar.filter((e) => e.tick === 0 && e.status === 0xb0).map((e) => e.data);
+		expect(controllers).toEqual(expect.arrayContaining([[7, 103], [10, 64], [91, 0], [93, 0]]));
+	});
+
+	it('plays notes at their sounding pitch and merges ties', () => {
+		// Low E (40) + capo 2 + fret 3, tied across the bar: one whole note per pass
+		expect(noteOns.filter((e) => e.data[0] === 45).map((e) => e.tick)).toEqual([0, smf.division * 8]);
+		expect(noteOffs.filter((e) => e.data[0] === 45).map((e) => e.tick)).toEqual([smf.division * 4, smf.division * 12]);
+	});
+
+	it('plays dead notes short and soft', () => {
+		const dead = noteOns.filter((e) => e.data[0] === 66);
+		expect(dead).toHaveLength(2);
+		expect(dead[0].data[1]).toBeLessThan(noteOns[0].data[1]);
+		const off = noteOffs.find((e) => e.data[0] === 66)!;
+		expect(off.tick - dead[0].tick).toBeLessThan(smf.division);
+	});
+});
+
+describe('toMidiFile harmonics', () => {
+	it('plays harmonics at their sounding pitch rather than the fretted one', () => {
+		const song = buildSong();
+		// Natural harmonic at the 7th fret of low E (40) with capo 2: an octave and a fifth above 42
+		song.tracks[0].bars = [bar(0, [beat(0, 0, [tabNote(5, 7, { harmonic: 'Natural', midi: 61 })])])];
+		const noteOn = readSmf(toMidiFile(song)).tracks[1].find((e) => (e.status & 0xf0) === 0x90);
+		expect(noteOn?.data[0]).toBe(61);
+	});
+});
+
+describe('toMidiFile percussion', () => {
+	it('plays drum hits on the percussion channel at their GM key', () => {
+		const song = buildSong();
+		const drums = song.tracks[0];
+		drums.kind = 'percussion';
+		drums.midi.channel = 9;
+		drums.bars = [bar(0, [beat(0, 0, [tabNote(0, 42, { drum: { key: 42, piece: 'hiHat', articulation: 'closed' } })])])];
+		const noteOn = readSmf(toMidiFile(song)).tracks[1].find((e) => (e.status & 0xf0) === 0x90);
+		// Channel 10 (9 zero-based), no tuning or capo applied
+		expect(noteOn?.status).toBe(0x99);
+		expect(noteOn?.data[0]).toBe(42);
+	});
+
+	it('plays grace notes on drums at the drum key', () => {
+		const song = buildSong();
+		const drums = song.tracks[0];
+		drums.kind = 'percussion';
+		drums.midi.channel = 9;
+		const graceNote = { fret: 38, duration: '32nd' as const, tuplet: null, transition: 'none' as const, onBeat: false, dead: false };
+		drums.bars = [bar(0, [beat(0, 0, [tabNote(1, 38, { graceNote, drum: { key: 38, piece: 'snare', articulation: 'hit' } })])])];
+		const noteOns = readSmf(toMidiFile(song)).tracks[1].filter((e) => (e.status & 0xf0) === 0x90);
+		expect(noteOns.map((e) => e.data[0])).toEqual([38, 38]);
+	});
+});
+
+describe('toMidiFile dynamics', () => {
+	it('plays each note at its velocity', () => {
+		const song = buildSong();
+		song.tracks[0].bars = [bar(0, [
+			beat(0, 0, [tabNote(5, 3, { dynamic: 'pp', velocity: 31 })]),
+			beat(1, 0, [tabNote(5, 5, { dynamic: 'ff', velocity: 111 })])
+		])];
+		const noteOns = readSmf(toMidiFile(song)).tracks[1].filter((e) => (e.status & 0xf0) === 0x90);
+		expect(noteOns.map((e) => e.data[1])).toEqual([31, 111]);
+	});
+});
+
+describe('toMidiFile sounding length', () => {
+	function lengthSong(notes: TabNote[]): ReadEvent[] {
+		const song = buildSong();
+		song.tracks[0].bars = [bar(0, notes.map((note, i) => beat(i, 0, [note])))];
+		return readSmf(toMidiFile(song)).tracks[1].filter((e) => (e.status & 0xe0) === 0x80);
+	}
+	const notes = (events: ReadEvent[]) => events.map((e) => [e.tick, (e.status & 0xf0) === 0x90 ? 'on' : 'off', e.data[0]]);
+
+	it('cuts notes short by their sounding length', () => {
+		expect(notes(lengthSong([tabNote(5, 3, { staccato: true, soundingLength: 0.5 }), tabNote(5, 5)]))).toEqual([
+			[0, 'on', 45],
+			[960, 'off', 45],
+			[1920, 'on', 47],
+			[3840, 'off', 47]
+		]);
+	});
+
+	it('lets let ring notes sound until the next note on their string', () => {
+		expect(notes(lengthSong([tabNote(5, 3, { letRing: true }), tabNote(4, 2), tabNote(5, 5)]))).toEqual([
+			[0, 'on', 45],
+			[1920, 'on', 49],
+			[3840, 'off', 45],
+			[3840, 'off', 49],
+			[3840, 'on', 47],
+			[5760, 'off', 47]
+		]);
+	});
+});
+
+describe('toMidiFile automations', () => {
+	it('changes program and ramps levels each time the bar plays', () => {
+		const song = buildSong();
+		song.tracks[0].midi.automations = [
+			{ type: 'program', value: 30, barIndex: 1, position: 0, transition: 0 },
+			{ type: 'volume', value: 63, barIndex: 1, position: 2, transition: 0.5 }
+		];
+		const guitar = readSmf(toMidiFile(song)).tracks[1];
+		const barTicks = 960 * 4;
+		// Bar 1 is played twice (repeat), at bars 1 and 3 of the unrolled song
+		expect(guitar.filter((e) => e.status === 0xc0).map((e) => [e.tick, e.data[0]])).toEqual([
+			[0, 29],
+			[barTicks, 30],
+			[barTicks * 3, 30]
+		]);
+		// Two 16th-note steps from 103 down to 63, then from 63 to 63 on the repeat
+		expect(guitar.filter((e) => e.status === 0xb0 && e.data[0] === 7 && e.tick > 0).map((e) => [e.tick, e.data[1]])).toEqual([
+			[barTicks + 1920, 83],
+			[barTicks + 2160, 63],
+			[barTicks * 3 + 1920, 63],
+			[barTicks * 3 + 2160, 63]
+		]);
+	});
+});
+
+describe('toMidiFile triplet feel', () => {
+	it('plays straight eighths swung, leaving quarter notes in place', () => {
+		const song = buildSong();
+		const eighth = (index: number, fret: number): TabBeat => ({ ...beat(index, 0, [tabNote(5, fret)]), duration: 'eighth' });
+		song.tracks[0].bars = [bar(0, [
+			eighth(0, 3),
+			eighth(1, 5),
+			{ ...beat(2, 0, [tabNote(5, 7)]), duration: 'quarter' },
+			eighth(3, 3),
+			eighth(4, 5)
+		], { tripletFeel: 'triplet8th' })];
+		const guitar = readSmf(toMidiFile(song)).tracks[1];
+		// The first eighth of each pair takes two thirds of the quarter note (960 ticks)
+		expect(guitar.filter((e) => (e.status & 0xf0) === 0x90).map((e) => e.tick)).toEqual([0, 640, 960, 1920, 2560]);
+	});
+});
+
+describe('toMidiFile grace notes', () => {
+	function graceSong(onBeat: boolean): ReadEvent[] {
+		const song = buildSong();
+		const graceNote = { fret: 1, duration: '16th' as const, tuplet: null, transition: 'none' as const, onBeat, dead: false };
+		song.tracks[0].bars = [bar(0, [
+			beat(0, 0, [tabNote(5, 3)]),
+			beat(1, 0, [tabNote(5, 5, { graceNote })])
+		])];
+		return readSmf(toMidiFile(song)).tracks[1].filter((e) => (e.status & 0xe0) === 0x80);
+	}
+	const notes = (events: ReadEvent[]) => events.map((e) => [e.tick, (e.status & 0xf0) === 0x90 ? 'on' : 'off', e.data[0]]);
+
+	it('plays before-beat grace notes at the end of the previous beat', () => {
+		// Capo 2 on low E: fret 3 = 45, grace fret 1 = 43, fret 5 = 47; a sixteenth is 240 ticks
+		expect(notes(graceSong(false))).toEqual([
+			[0, 'on', 45],
+			[1680, 'off', 45],
+			[1680, 'on', 43],
+			[1920, 'off', 43],
+			[1920, 'on', 47],
+			[3840, 'off', 47]
+		]);
+	});
+
+	it('plays on-beat grace notes on the beat, delaying the principal note', () => {
+		expect(notes(graceSong(true))).toEqual([
+			[0, 'on', 45],
+			[1920, 'off', 45],
+			[1920, 'on', 43],
+			[2160, 'off', 43],
+			[2160, 'on', 47],
+			[3840, 'off', 47]
+		]);
+	});
+});
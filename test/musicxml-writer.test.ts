@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { DOMParser } from 'linkedom';
+import { toMusicXml } from '../src/index.js';
+import type { TabBar, TabBeat, TabNote, TabSong } from '../src/index.js';
+import { tabNote, tabBeat, tabBar, trackMidi, tabTrack, tabSong } from './helpers.js';
+
+// ---------------------------------------------------------------------------
+// Synthetic song
+// ---------------------------------------------------------------------------
+
+function beat(index: number, notes: TabNote[], extra: Partial<TabBeat> = {}): TabBeat {
+	return tabBeat(notes, { index, ...extra });
+}
+
+function bar(index: number, beats: TabBeat[], extra: Partial<TabBar> = {}): TabBar {
+	return tabBar(index, [beats], extra);
+}
+
+function buildSong(): TabSong {
+	const bars = [
+		bar(0, [
+			beat(0, [tabNote(5, 3, { hammerOn: true, palmMute: true })]),
+			beat(1, [tabNote(5, 5, { vibrato: 'slight', staccato: true, soundingLength: 0.5, tremoloPicking: '16th', ornament: 'lowerMordent' })]),
+			beat(2, [tabNote(3, 7, { bend: { kind: 'bend', points: [{ position: 0, value: 0, vibrato: false }, { position: 0.5, value: 2, vibrato: false }, { position: 1, value: 2, vibrato: false }] } }), tabNote(2, 12, { harmonic: 'Natural' })], { dotted: 1 }),
+			beat(3, [tabNote(0, 0)], { duration: 'eighth', tuplet: { num: 3, den: 2 } }),
+			beat(4, [], { duration: 'eighth', tuplet: { num: 3, den: 2 } }),
+			beat(5, [tabNote(0, 2)], { duration: 'eighth', tuplet: { num: 3, den: 2 } })
+		], {
+			keySignature: { accidentalCount: 2, mode: 'major' },
+			section: { letter: 'A', text: 'Intro' },
+			repeatStart: true
+		}),
+		bar(1, [
+			beat(6, [tabNote(0, 2, { tie: { origin: false, destination: true } })], { duration: 'whole' })
+		], { timeSignature: { numerator: 4, denominator: 4 }, repeatEnd: true, repeatCount: 2 })
+	];
+	const guitar = tabTrack('Guitar', [64, 59, 55, 50, 45, 40], bars, {
+		shortName: 'Gtr',
+		instrument: null,
+		midi: trackMidi(25, 'Acoustic Guitar (steel)', 0),
+		capoFret: 2
+	});
+	return tabSong([guitar], {
+		title: 'Synthetic & Co',
+		artist: 'Someone',
+		words: 'Lyricist',
+		copyright: '(c) Someone',
+		tabber: 'Tabber'
+	});
+}
+
+// ---------------------------------------------------------------------------
+// toMusicXml
+// ---------------------------------------------------------------------------
+
+describe('toMusicXml', () => {
+	const xml = toMusicXml(buildSong());
+	const doc = new DOMParser().parseFromString(xml, 'text/xml') as unknown as Document;
+	const measures = Array.from(doc.querySelectorAll('part > measure'));
+	const notes = Array.from(measures[0].querySelectorAll('note'));
+	const text = (el: Element | null | undefined) => el?.textContent?.trim() ?? null;
+
+	it('writes a MusicXML 4.0 partwise document with one part per track', () => {
+		expect(xml).toContain('<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN"');
+		expect(doc.querySelector('score-partwise')?.getAttribute('version')).toBe('4.0');
+		expect(text(doc.querySelector('work-title'))).toBe('Synthetic & Co');
+		expect(Array.from(doc.querySelectorAll('identification > creator'), (el) => [el.getAttribute('type'), text(el)])).toEqual([
+			['composer', 'Someone'],
+			['lyricist', 'Lyricist'],
+			['arranger', 'Tabber']
+		]);
+		expect(text(doc.querySelector('identification > rights'))).toBe('(c) Someone');
+		expect(text(doc.querySelector('score-part > part-name'))).toBe('Guitar');
+		expect(measures).toHaveLength(2);
+	});
+
+	it('credits the music author as composer, falling back to the artist', () => {
+		const song = buildSong();
+		song.music = 'Composer';
+		const credited = new DOMParser().parseFromString(toMusicXml(song), 'text/xml') as unknown as Document;
+		expect(text(credited.querySelector('identification > creator[type="composer"]'))).toBe('Composer');
+	});
+
+	it('builds a TAB staff from the tuning and capo', () => {
+		const attributes = measures[0].querySelector('attributes')!;
+		expect(text(attributes.querySelector('clef > sign'))).toBe('TAB');
+		expect(text(attributes.querySelector('staff-lines'))).toBe('6');
+		expect(text(attributes.querySelector('capo'))).toBe('2');
+		const bottom = attributes.querySelector('staff-tuning[line="1"]')!;
+		expect([text(bottom.querySelector('tuning-step')), text(bottom.querySelector('tuning-octave'))]).toEqual(['E', '2']);
+	});
+
+	it('writes key and time signatures from the bars', () => {
+		expect(text(measures[0].querySelector('key > fifths'))).toBe('2');
+		expect(text(measures[0].querySelector('time > beats'))).toBe('4');
+		expect(measures[1].querySelector('attributes')).toBeNull();
+	});
+
+	it('writes sounding pitches with string and fret', () => {
+		// Low E + capo 2 + fret 3 = A2
+		expect(text(notes[0].querySelector('pitch > step'))).toBe('A');
+		expect(text(notes[0].querySelector('pitch > octave'))).toBe('2');
+		expect(text(notes[0].querySelector('technical > string'))).toBe('6');
+		expect(text(notes[0].querySelector('technical > fret'))).toBe('3');
+	});
+
+	it('writes durations, dots, chords and tuplets', () => {
+		const divisions = Number(text(measures[0].querySelector('divisions')));
+		expect(Number(text(notes[0].querySelector('duration')))).toBe(divisions);
+		expect(notes[2].querySelector('dot')).not.toBeNull();
+		expect(Number(text(notes[2].querySelector('duration')))).toBe(divisions * 1.5);
+		expect(notes[3].querySelector('chord')).not.toBeNull();
+		expect(text(notes[4].querySelector('time-modification > actual-notes'))).toBe('3');
+		expect(notes[5].querySelector('rest')).not.toBeNull();
+		expect(Number(text(notes[5].querySelector('duration')))).toBe(divisions / 3);
+	});
+
+	it('maps techniques to MusicXML notations', () => {
+		expect(notes[0].querySelector('technical > hammer-on')?.getAttribute('type')).toBe('start');
+		expect(notes[1].querySelector('technical > hammer-on')?.getAttribute('type')).toBe('stop');
+		expect(text(notes[0].querySelector('technical > other-technical'))).toBe('palm mute');
+		expect(notes[1].querySelector('ornaments > wavy-line')).not.toBeNull();
+		expect(notes[1].querySelector('ornaments > mordent')).not.toBeNull();
+		expect(text(notes[1].querySelector('ornaments > tremolo'))).toBe('2');
+		expect(notes[1].querySelector('articulations > staccato')).not.toBeNull();
+		expect(text(notes[2].querySelector('bend > bend-alter'))).toBe('2');
+		expect(notes[3].querySelector('harmonic > natural')).not.toBeNull();
+	});
+
+	it('ties notes across bars', () => {
+		expect(notes[6].querySelector('tie')?.getAttribute('type')).toBe('start');
+		expect(measures[1].querySelector('note > tie')?.getAttribute('type')).toBe('stop');
+	});
+
+	it('writes repeat barlines and section names', () => {
+		expect(measures[0].querySelector('barline[location="left"] > repeat')?.getAttribute('direction')).toBe('forward');
+		expect(measures[1].querySelector('barline[location="right"] > repeat')?.getAttribute('times')).toBe('2');
+		expect(text(measures[0].querySelector('direction rehearsal'))).toBe('A');
+		expect(text(measures[0].querySelector('direction words'))).toBe('Intro');
+	});
+});
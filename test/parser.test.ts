@@ -62,6 +62,7 @@ describe('detectFormat', () => {
 		const unknownHeader = new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
 		expect(detectFormat(unknownHeader, 'song.gpx')).toBe('gpx');
 		expect(detectFormat(unknownHeader, 'song.gp5')).toBe('gp5');
+		expect(detectFormat(unknownHeader, 'song.gp4')).toBe('gp4');
 		expect(detectFormat(unknownHeader, 'song.gp3')).toBe('gp3');
 		expect(detectFormat(unknownHeader, 'song.gp')).toBe('gp7');
 	});
@@ -168,6 +169,16 @@ describe('parseGp5File', () => {
 		expect(note.pitchClass).toBeLessThanOrEqual(11);
 	});
 
+	it('exposes both GP5 voices with voice 1 as beats', () => {
+		const song = parseGp5File(gp5Data);
+		for (const bar of song.tracks[0].bars) {
+			expect(bar.voices.length).toBeGreaterThanOrEqual(1);
+			expect(bar.voices.length).toBeLessThanOrEqual(2);
+			expect(bar.beats).toBe(bar.voices[0]);
+			bar.voices.forEach((voice, v) => voice.forEach((beat) => expect(beat.voice).toBe(v)));
+		}
+	});
+
 	it('extracts tuning as Note[] with tuningMidi', () => {
 		const song = parseGp5File(gp5Data);
 		const track = song.tracks[0];
@@ -343,6 +354,7 @@ describe('beatDurationMs', () => {
 	it('calculates correct ms for a quarter at 120 BPM', () => {
 		const beat: TabBeat = {
 			index: 0,
+			voice: 0,
 			barIndex: 0,
 			notes: [],
 			duration: 'quarter',
@@ -350,7 +362,12 @@ describe('beatDurationMs', () => {
 			dotted: 0,
 			isRest: true,
 			dynamic: null,
-			tempo: 120
+			tempo: 120,
+			chordId: null,
+			whammy: null,
+			stroke: null,
+			pickStroke: null,
+			slapPop: null
 		};
 		expect(beatDurationMs(beat)).toBe(500);
 	});
@@ -358,6 +375,7 @@ describe('beatDurationMs', () => {
 	it('calculates correct ms for an eighth at 60 BPM', () => {
 		const beat: TabBeat = {
 			index: 0,
+			voice: 0,
 			barIndex: 0,
 			notes: [],
 			duration: 'eighth',
@@ -365,10 +383,52 @@ describe('beatDurationMs', () => {
 			dotted: 0,
 			isRest: true,
 			dynamic: null,
-			tempo: 60
+			tempo: 60,
+			chordId: null,
+			whammy: null,
+			stroke: null,
+			pickStroke: null,
+			slapPop: null
 		};
 		expect(beatDurationMs(beat)).toBe(500);
 	});
+
+	it('applies the triplet feel of the bar passed with the beat', () => {
+		const eighth = (index: number): TabBeat => ({
+			index,
+			voice: 0,
+			barIndex: 0,
+			notes: [],
+			duration: 'eighth',
+			tuplet: null,
+			dotted: 0,
+			isRest: true,
+			dynamic: null,
+			tempo: 60,
+			chordId: null,
+			whammy: null,
+			stroke: null,
+			pickStroke: null,
+			slapPop: null
+		});
+		const beats = [eighth(0), eighth(1)];
+		const bar: TabBar = {
+			index: 0,
+			timeSignature: { numerator: 1, denominator: 4 },
+			keySignature: null,
+			tripletFeel: 'dotted8th',
+			section: null,
+			beats,
+			voices: [beats],
+			repeatStart: false,
+			repeatEnd: false,
+			repeatCount: 0,
+			alternateEndings: [],
+			directions: null
+		};
+		expect(beats.map((b) => beatDurationMs(b, bar))).toEqual([750, 250]);
+		expect(beatDurationMs(beats[1])).toBe(500);
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -377,20 +437,25 @@ describe('beatDurationMs', () => {
 
 describe('musicalBeatPosition', () => {
 	it('returns 1 for the first beat in a 4/4 bar', () => {
+		const beats: TabBeat[] = [
+			{ index: 0, voice: 0, barIndex: 0, notes: [], duration: 'quarter', tuplet: null, dotted: 0, isRest: true, dynamic: null, tempo: 120, chordId: null, whammy: null, stroke: null, pickStroke: null, slapPop: null },
+			{ index: 1, voice: 0, barIndex: 0, notes: [], duration: 'quarter', tuplet: null, dotted: 0, isRest: true, dynamic: null, tempo: 120, chordId: null, whammy: null, stroke: null, pickStroke: null, slapPop: null },
+			{ index: 2, voice: 0, barIndex: 0, notes: [], duration: 'quarter', tuplet: null, dotted: 0, isRest: true, dynamic: null, tempo: 120, chordId: null, whammy: null, stroke: null, pickStroke: null, slapPop: null },
+			{ index: 3, voice: 0, barIndex: 0, notes: [], duration: 'quarter', tuplet: null, dotted: 0, isRest: true, dynamic: null, tempo: 120, chordId: null, whammy: null, stroke: null, pickStroke: null, slapPop: null }
+		];
 		const bar: TabBar = {
 			index: 0,
 			timeSignature: { numerator: 4, denominator: 4 },
 			keySignature: null,
+			tripletFeel: 'none',
 			section: null,
-			beats: [
-				{ index: 0, barIndex: 0, notes: [], duration: 'quarter', tuplet: null, dotted: 0, isRest: true, dynamic: null, tempo: 120 },
-				{ index: 1, barIndex: 0, notes: [], duration: 'quarter', tuplet: null, dotted: 0, isRest: true, dynamic: null, tempo: 120 },
-				{ index: 2, barIndex: 0, notes: [], duration: 'quarter', tuplet: null, dotted: 0, isRest: true, dynamic: null, tempo: 120 },
-				{ index: 3, barIndex: 0, notes: [], duration: 'quarter', tuplet: null, dotted: 0, isRest: true, dynamic: null, tempo: 120 }
-			],
+			beats,
+			voices: [beats],
 			repeatStart: false,
 			repeatEnd: false,
-			repeatCount: 0
+			repeatCount: 0,
+			alternateEndings: [],
+			directions: null
 		};
 		expect(musicalBeatPosition(bar, 0)).toBe(1);
 		expect(musicalBeatPosition(bar, 1)).toBe(2);
@@ -405,11 +470,15 @@ describe('barMusicalBeatCount', () => {
 			index: 0,
 			timeSignature: { numerator: 6, denominator: 8 },
 			keySignature: null,
+			tripletFeel: 'none',
 			section: null,
 			beats: [],
+			voices: [[]],
 			repeatStart: false,
 			repeatEnd: false,
-			repeatCount: 0
+			repeatCount: 0,
+			alternateEndings: [],
+			directions: null
 		};
 		expect(barMusicalBeatCount(bar)).toBe(6);
 	});
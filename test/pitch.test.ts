@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { spellPitch, spellMidi, noteFromMidi } from '../src/index.js';
+import type { KeySignature, PitchClass } from '../src/index.js';
+
+const names = (pcs: number[], key: KeySignature | null) => pcs.map((pc) => spellPitch(pc as PitchClass, key).name);
+const chromatic = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+describe('spellPitch', () => {
+	it('spells with sharps without a key', () => {
+		expect(names([1, 3, 6, 8, 10], null)).toEqual(['C#', 'D#', 'F#', 'G#', 'A#']);
+	});
+
+	it('spells flat keys with flats and sharp keys with sharps', () => {
+		expect(names(chromatic, { accidentalCount: -2, mode: 'major' })).toEqual(
+			['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B']
+		);
+		expect(names(chromatic, { accidentalCount: 2, mode: 'major' })).toEqual(
+			['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+		);
+	});
+
+	it('follows the signature for scale notes on other letters', () => {
+		expect(names([11, 4], { accidentalCount: -7, mode: 'major' })).toEqual(['Cb', 'Fb']);
+		expect(names([5, 0], { accidentalCount: 7, mode: 'major' })).toEqual(['E#', 'B#']);
+		expect(spellPitch(11, { accidentalCount: -6, mode: 'major' })).toEqual({ pitchClass: 11, name: 'Cb', accidental: 'flat' });
+	});
+
+	it('raises the leading tone of minor keys with a sharp', () => {
+		expect(names([1, 10], { accidentalCount: -1, mode: 'minor' })).toEqual(['C#', 'Bb']);
+		expect(names([6, 3], { accidentalCount: -2, mode: 'minor' })).toEqual(['F#', 'Eb']);
+		expect(names([8], { accidentalCount: 0, mode: 'minor' })).toEqual(['G#']);
+		// C minor: the raised 7th is a natural B
+		expect(names([11, 1], { accidentalCount: -3, mode: 'minor' })).toEqual(['B', 'Db']);
+	});
+});
+
+describe('spellMidi', () => {
+	it('adds the octave of the written letter', () => {
+		expect(noteFromMidi(60)).toEqual({ pitchClass: 0, name: 'C', accidental: 'natural', octave: 4 });
+		expect(spellMidi(58, { accidentalCount: -1, mode: 'major' })).toEqual({ pitchClass: 10, name: 'Bb', accidental: 'flat', octave: 3 });
+		expect(spellMidi(59, { accidentalCount: -7, mode: 'major' }).octave).toBe(4);
+		expect(spellMidi(60, { accidentalCount: 7, mode: 'major' }).octave).toBe(3);
+	});
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { playbackOrder } from '../src/index.js';
+import type { TabBar, TabSong, TabTrack, DirectionTarget, DirectionJump } from '../src/index.js';
+
+// ---------------------------------------------------------------------------
+// Synthetic bar sequences
+// ---------------------------------------------------------------------------
+
+interface BarMarks {
+	repeatStart?: boolean;
+	repeatCount?: number;
+	endings?: number[];
+	targets?: DirectionTarget[];
+	jumps?: DirectionJump[];
+}
+
+function makeTrack(marks: BarMarks[]): TabTrack {
+	const bars: TabBar[] = marks.map((m, index) => ({
+		index,
+		timeSignature: { numerator: 4, denominator: 4 },
+		keySignature: null,
+		tripletFeel: 'none',
+		section: null,
+		beats: [],
+		voices: [[]],
+		repeatStart: m.repeatStart ?? false,
+		repeatEnd: (m.repeatCount ?? 0) > 0,
+		repeatCount: m.repeatCount ?? 0,
+		alternateEndings: m.endings ?? [],
+		directions: m.targets || m.jumps ? { targets: m.targets ?? [], jumps: m.jumps ?? [] } : null
+	}));
+	return {
+		id: '0',
+		name: 'Guitar',
+		shortName: 'Guit',
+		instrument: null,
+		kind: 'stringed',
+		midi: {
+			program: 25,
+			programName: 'Acoustic Guitar (steel)',
+			bank: 0,
+			port: 0,
+			channel: 0,
+			effectChannel: 0,
+			volume: 103,
+			pan: 64,
+			chorus: 0,
+			reverb: 0,
+			phaser: 0,
+			tremolo: 0,
+			automations: []
+		},
+		tuning: [],
+		tuningMidi: [],
+		capoFret: 0,
+		bars,
+		chords: [],
+		lyrics: []
+	};
+}
+
+describe('playbackOrder', () => {
+	it('plays bars sequentially without navigation marks', () => {
+		expect(playbackOrder(makeTrack([{}, {}, {}]))).toEqual([0, 1, 2]);
+	});
+
+	it('repeats a section the given total number of times', () => {
+		const track = makeTrack([{}, { repeatStart: true }, { repeatCount: 3 }, {}]);
+		expect(playbackOrder(track)).toEqual([0, 1, 2, 1, 2, 1, 2, 3]);
+	});
+
+	it('repeats from the start when there is no repeat start', () => {
+		expect(playbackOrder(makeTrack([{}, { repeatCount: 2 }, {}]))).toEqual([0, 1, 0, 1, 2]);
+	});
+
+	it('plays alternate endings on their own passes', () => {
+		const track = makeTrack([
+			{ repeatStart: true },
+			{ endings: [1, 2], repeatCount: 3 },
+			{ endings: [3] },
+			{}
+		]);
+		expect(playbackOrder(track)).toEqual([0, 1, 0, 1, 0, 2, 3]);
+	});
+
+	it('starts a new section after the last alternate ending', () => {
+		// |: A |1. B :|2. C | D :|
+		const track = makeTrack([
+			{ repeatStart: true },
+			{ endings: [1], repeatCount: 2 },
+			{ endings: [2] },
+			{ repeatCount: 2 }
+		]);
+		expect(playbackOrder(track)).toEqual([0, 1, 0, 2, 3, 3]);
+	});
+
+	it('plays consecutive alternate ending groups each from their first pass', () => {
+		// |: A |1. B :|2. C | D |1. E :|2. F |
+		const track = makeTrack([
+			{ repeatStart: true },
+			{ endings: [1], repeatCount: 2 },
+			{ endings: [2] },
+			{},
+			{ endings: [1], repeatCount: 2 },
+			{ endings: [2] }
+		]);
+		expect(playbackOrder(track)).toEqual([0, 1, 0, 2, 3, 4, 3, 5]);
+	});
+
+	it('jumps back to the start on D.C. and stops at Fine', () => {
+		const track = makeTrack([{}, { targets: ['Fine'] }, {}, { jumps: ['DaCapoAlFine'] }]);
+		expect(playbackOrder(track)).toEqual([0, 1, 2, 3, 0, 1]);
+	});
+
+	it('jumps to the segno on D.S. al Coda and on to the coda', () => {
+		const track = makeTrack([
+			{},
+			{ targets: ['Segno'] },
+			{ jumps: ['DaCoda'] },
+			{ jumps: ['DaSegnoAlCoda'] },
+			{ targets: ['Coda'] }
+		]);
+		expect(playbackOrder(track)).toEqual([0, 1, 2, 3, 1, 2, 4]);
+	});
+
+	it('skips repeats and plays only the last ending after a jump', () => {
+		const track = makeTrack([
+			{ repeatStart: true },
+			{ endings: [1], repeatCount: 2 },
+			{ endings: [2] },
+			{ jumps: ['DaCapo'] }
+		]);
+		expect(playbackOrder(track)).toEqual([0, 1, 0, 2, 3, 0, 2, 3]);
+	});
+
+	it('ignores jumps whose sign is missing', () => {
+		expect(playbackOrder(makeTrack([{}, { jumps: ['DaSegno'] }, {}]))).toEqual([0, 1, 2]);
+	});
+
+	it('unrolls a song from its first track', () => {
+		const song: TabSong = {
+			title: '',
+			subtitle: '',
+			artist: '',
+			album: '',
+			words: '',
+			music: '',
+			copyright: '',
+			tabber: '',
+			instructions: '',
+			notices: [],
+			tempo: 120,
+			tracks: [makeTrack([{ repeatCount: 2 }])]
+		};
+		expect(playbackOrder(song)).toEqual([0, 0]);
+	});
+});